@@ -1,5 +1,6 @@
 import http from 'http';
 import { URL } from 'url';
+import type { ModelInfo } from './shared/models';
 
 type MoveDirection = 'left' | 'right' | 'up' | 'down';
 
@@ -8,12 +9,16 @@ interface CommandServerDeps {
 	pageScroll: (direction: 'up' | 'down') => void;
 	moveWindow: (direction: MoveDirection) => void;
 	triggerScreenshot: () => Promise<void>;
-	triggerProcess: () => Promise<void>;
+	triggerProcess: (fresh?: boolean) => Promise<void>;
 	triggerReset: () => Promise<void>;
+	cancelProcessing: () => boolean;
+	clearCache: () => Promise<number>;
+	toggleUsageHistory: () => void;
+	getUsageHistory: () => object;
 	toggleVisualHidden: () => void;
 	toggleConfig: () => void;
-  setModel: (index: number) => void;
-  getModelList: () => { currentIndex: number; models: string[] };
+  setModel: (selector: { index?: number; id?: string }) => boolean;
+  getModelList: () => { currentIndex: number; current: string; models: ModelInfo[] };
   toggleProMode: () => void;
   restartApp: () => void;
   copyAnswer: () => void;
@@ -27,6 +32,10 @@ export function installCommandServer(deps: CommandServerDeps) {
 		triggerScreenshot,
 		triggerProcess,
 		triggerReset,
+		cancelProcessing,
+		clearCache,
+		toggleUsageHistory,
+		getUsageHistory,
 		toggleVisualHidden,
 		toggleConfig,
 		setModel,
@@ -71,13 +80,23 @@ export function installCommandServer(deps: CommandServerDeps) {
 					res.statusCode = 200;
 					return res.end('ok');
 				case '/process':
-					await triggerProcess();
+					// ?fresh=1 skips cached answers for the same screenshots
+					await triggerProcess(url.searchParams.get('fresh') === '1');
 					res.statusCode = 200;
 					return res.end('ok');
 				case '/reset':
 					await triggerReset();
 					res.statusCode = 200;
 					return res.end('ok');
+				case '/cancel':
+					// Stops the running request but keeps the screenshots; 'idle' when nothing was running
+					res.statusCode = 200;
+					return res.end(cancelProcessing() ? 'ok' : 'idle');
+				case '/cache/clear': {
+					const removed = await clearCache();
+					res.statusCode = 200;
+					return res.end(`cleared ${removed}`);
+				}
 				case '/toggle':
 					toggleVisualHidden();
 					res.statusCode = 200;
@@ -110,13 +129,18 @@ export function installCommandServer(deps: CommandServerDeps) {
 					res.statusCode = 200;
 					return res.end('ok');
 				case '/model/set': {
+					// ?i=<index in /model/list> or ?id=<model id>
+					const id = url.searchParams.get('id');
 					const idxParam = url.searchParams.get('i');
 					const idx = idxParam ? parseInt(idxParam, 10) : NaN;
-					if (Number.isNaN(idx)) {
+					if (!id && Number.isNaN(idx)) {
 						res.statusCode = 400;
 						return res.end('bad index');
 					}
-					setModel(idx);
+					if (!setModel(id ? { id } : { index: idx })) {
+						res.statusCode = 404;
+						return res.end('unknown model');
+					}
 					res.statusCode = 200;
 					return res.end('ok');
 				}
@@ -126,6 +150,15 @@ export function installCommandServer(deps: CommandServerDeps) {
 					res.statusCode = 200;
 					return res.end(JSON.stringify(data));
 				}
+				case '/usage': {
+					res.setHeader('Content-Type', 'application/json');
+					res.statusCode = 200;
+					return res.end(JSON.stringify(getUsageHistory()));
+				}
+				case '/usage/toggle':
+					toggleUsageHistory();
+					res.statusCode = 200;
+					return res.end('ok');
 				case '/restart':
 					restartApp();
 					res.statusCode = 200;
@@ -7,7 +7,21 @@ import openaiService from './services/openai';
 import { processScreenshotsWithWorkflow } from './services/openai';
 import { installShortcutArgHandlers } from './shortcuts';
 import { installCommandServer } from './commandServer';
+import { CacheMode, DEFAULT_RESPONSE_CACHE_OPTIONS, clearResponseCache, configureResponseCache } from './services/responseCache';
+import { beginRun, configureUsageTracker, endRun, getUsageHistory, setPriceTable } from './services/usageTracker';
+import { installPromptLibrary, reloadPromptLibrary } from './services/prompts';
 import pythonDaemon from './pythonDaemon';
+import { CANCELLED_ERROR, RunLimits, SandboxPolicy, getRunner, setRunLimits, setRunnerPoolSize, setSandboxPolicy, stopAllRunners } from './runners';
+import { judgeOutput } from './runners/checker';
+import { runInteractive } from './runners/interactive';
+import { FunctionSignature, loadProgram, runProgram } from './runners/harness';
+import { CompareSpec } from './shared/comparator';
+import { ProviderKind, PROVIDER_DEFAULTS, normalizeProviderKind } from './shared/providers';
+import { PriceTable } from './shared/usage';
+import { DEFAULT_MODELS, ModelInfo, normalizeModels, pricesOf } from './shared/models';
+import { RoutingTable, normalizeRouting } from './shared/routing';
+import { englishText, errorText, msg } from './shared/i18n';
+import { fetchModels } from './services/providers';
 
 const execFileAsync = promisify(execFile);
 
@@ -19,27 +33,40 @@ interface Screenshot {
 
 const CONFIG_FILE = path.join(app.getPath('userData'), 'config.json');
 console.log(CONFIG_FILE);
+const RESPONSE_CACHE_DIR = path.join(app.getPath('userData'), 'response-cache');
+const USAGE_FILE = path.join(app.getPath('userData'), 'usage.json');
+const PROMPTS_DIR = path.join(app.getPath('userData'), 'prompts');
 
 interface Config {
   apiKey: string;
   language: string;
+  explanationLanguage?: string; // language of the approach and other explanations
+  uiLanguage?: string; // renderer locale ("en", "zh-CN"); unset follows the system language
+  provider?: ProviderKind;
+  baseURL?: string;
+  model?: string;
+  runLimits?: Partial<RunLimits>;
+  poolSize?: number;
+  benchmark?: boolean; // pro mode: time the solution at growing sizes
+  responseCache?: { enabled?: boolean; ttlHours?: number; maxMb?: number };
+  prices?: PriceTable; // USD per million tokens, on top of the registry's prices (older configs)
+  models?: ModelInfo[]; // model registry; unset uses the built-in one
+  routing?: RoutingTable; // pro mode: model and parameters per workflow step
+  sandbox?: Partial<SandboxPolicy>;
 }
 
 let config: Config | null = null;
 
 let mainWindow: BrowserWindow | null = null;
 let screenshotQueue: Screenshot[] = [];
-let isProcessing = false;
+// The run in progress; aborting it cancels its model calls and program runs, and nothing
+// it produces afterwards is sent to the renderer
+let activeRun: AbortController | null = null;
+// Program runs the renderer asked for (examples, custom tests, special judges); cancelling aborts them too
+const rendererRuns = new Set<AbortController>();
 const MAX_SCREENSHOTS = 4;
 const SCREENSHOT_DIR = path.join(app.getPath('temp'), 'screenshots');
 let isVisualHidden = false;
-const MODEL_CANDIDATES = [
-  'openai/gpt-5-chat',
-  'openai/o4-mini',
-  'openai/o4-mini-high',
-  'openai/o3'
-];
-let currentModelIndex = 0;
 let proMode = false;
 let currentAnswer: string = '';
 
@@ -51,6 +78,11 @@ async function ensureScreenshotDir() {
   }
 }
 
+// Local backends run without a key
+function hasCredentials(cfg: Config): boolean {
+  return !!cfg.apiKey || !PROVIDER_DEFAULTS[normalizeProviderKind(cfg.provider)].requiresApiKey;
+}
+
 async function loadConfig(): Promise<Config | null> {
   try {
     // First try loading from environment variables
@@ -69,8 +101,13 @@ async function loadConfig(): Promise<Config | null> {
     // If env vars not found, try loading from config file
     const data = await fs.readFile(CONFIG_FILE, 'utf-8');
     const loadedConfig = JSON.parse(data);
-    if (loadedConfig && loadedConfig.apiKey && loadedConfig.language) {
+    if (loadedConfig) {
+      loadedConfig.models = normalizeModels(loadedConfig.models);
+      loadedConfig.routing = normalizeRouting(loadedConfig.routing);
+    }
+    if (loadedConfig && hasCredentials(loadedConfig) && loadedConfig.language) {
       openaiService.updateConfig(loadedConfig);
+      applyRunnerConfig(loadedConfig);
       return loadedConfig;
     }
     return null;
@@ -80,15 +117,76 @@ async function loadConfig(): Promise<Config | null> {
   }
 }
 
+// Registry prices, with prices from older configs on top
+function applyPriceConfig(cfg: Config | null) {
+  setPriceTable({ ...pricesOf(cfg?.models || DEFAULT_MODELS), ...cfg?.prices });
+}
+
+// The models fn + 1/2/3/4 and /model/set switch between: the registry entries of the configured backend
+function switchableModels(): ModelInfo[] {
+  const kind = normalizeProviderKind(config?.provider);
+  return (config?.models || DEFAULT_MODELS).filter(model => model.provider === kind);
+}
+
+function modelList() {
+  const models = switchableModels();
+  const current = openaiService.currentModel();
+  return { currentIndex: models.findIndex(model => model.id === current), current, models };
+}
+
+function selectModel(selector: { index?: number; id?: string }): boolean {
+  const models = switchableModels();
+  const model = selector.id !== undefined ? models.find(m => m.id === selector.id) : models[selector.index ?? -1];
+  if (!model || !openaiService.canServe(model.id)) return false;
+  openaiService.setModel(model.id);
+  if (proMode) {
+    proMode = false;
+    mainWindow?.webContents.send('pro-mode-updated', { enabled: proMode });
+  }
+  const list = modelList();
+  mainWindow?.webContents.send('model-updated', { index: list.currentIndex, name: list.current });
+  return true;
+}
+
+function applyRunnerConfig(cfg: Config) {
+  setRunLimits(cfg.runLimits || {});
+  setSandboxPolicy(cfg.sandbox || {});
+  if (cfg.poolSize && cfg.poolSize > 0) {
+    setRunnerPoolSize(cfg.poolSize);
+  }
+}
+
+// Unset or zero limits fall back to the defaults
+function applyCacheConfig(cfg: Config | null) {
+  const cache = cfg?.responseCache || {};
+  configureResponseCache(RESPONSE_CACHE_DIR, {
+    enabled: cache.enabled !== false,
+    ttlMs: cache.ttlHours && cache.ttlHours > 0 ? cache.ttlHours * 60 * 60 * 1000 : DEFAULT_RESPONSE_CACHE_OPTIONS.ttlMs,
+    maxBytes: cache.maxMb && cache.maxMb > 0 ? cache.maxMb * 1024 * 1024 : DEFAULT_RESPONSE_CACHE_OPTIONS.maxBytes
+  });
+}
+
+async function handleClearCache(): Promise<number> {
+  const removed = await clearResponseCache();
+  console.log(`[Cache] Cleared ${removed} cached responses`);
+  return removed;
+}
+
 async function saveConfig(newConfig: Config): Promise<void> {
   try {
-    if (!newConfig.apiKey || !newConfig.language) {
+    if (!hasCredentials(newConfig) || !newConfig.language) {
       throw new Error('Invalid configuration');
     }
+    newConfig = { ...newConfig, models: normalizeModels(newConfig.models), routing: normalizeRouting(newConfig.routing) };
     await fs.writeFile(CONFIG_FILE, JSON.stringify(newConfig, null, 2));
     config = newConfig;
     // Update OpenAI service with new config
     openaiService.updateConfig(newConfig);
+    applyRunnerConfig(newConfig);
+    applyCacheConfig(newConfig);
+    applyPriceConfig(newConfig);
+    const list = modelList();
+    mainWindow?.webContents.send('model-updated', { index: list.currentIndex, name: list.current });
   } catch (error) {
     console.error('Error saving config:', error);
     throw error;
@@ -122,8 +220,9 @@ function createWindow() {
   // Enable content protection to prevent screen capture
   mainWindow.setContentProtection(true);
 
-  // Make the window ignore mouse events (click-through)
-  mainWindow.setIgnoreMouseEvents(true);
+  // Make the window ignore mouse events (click-through); moves are still forwarded so
+  // editable panels can ask for the mouse while hovered
+  mainWindow.setIgnoreMouseEvents(true, { forward: true });
 
   // Platform specific enhancements for macOS
   if (process.platform === 'darwin') {
@@ -144,6 +243,9 @@ function createWindow() {
     handleTakeScreenshot,
     handleProcessScreenshots,
     handleResetQueue,
+    handleCancel: cancelProcessing,
+    handleClearCache,
+    toggleUsageHistory: () => mainWindow?.webContents.send('toggle-usage-history'),
     moveWindow,
     toggleVisualHidden: () => {
       isVisualHidden = !isVisualHidden;
@@ -157,22 +259,30 @@ function createWindow() {
     pageScroll: (dir) => mainWindow?.webContents.send('page-scroll', dir),
     moveWindow,
     triggerScreenshot: handleTakeScreenshot,
-    triggerProcess: async () => {
+    triggerProcess: async (fresh = false) => {
       if (!proMode) {
-        await handleProcessScreenshots();
+        await handleProcessScreenshots(fresh);
         return;
       }
+      if (activeRun) return;
+      const run = new AbortController();
+      activeRun = run;
+      beginRun('pro');
       try {
+        await reloadPromptLibrary();
         mainWindow?.webContents.send('processing-started');
         
         // 使用新的Agent Workflow处理
         const result = await processScreenshotsWithWorkflow(
           screenshotQueue, 
           (state) => {
-            // 发送workflow状态更新到前端
-            mainWindow?.webContents.send('workflow-progress', state);
-          }
+            // 发送workflow状态更新到前端；已取消的运行不再发送
+            if (activeRun === run) mainWindow?.webContents.send('workflow-progress', state);
+          },
+          fresh ? 'refresh' : 'use',
+          run.signal
         );
+        if (activeRun !== run) return;
         
         if (result.success) {
           // 如果workflow成功，发送结果
@@ -181,46 +291,45 @@ function createWindow() {
           mainWindow?.webContents.send('processing-complete', JSON.stringify(result.data));
         } else {
           // 如果workflow失败，发送错误
+          const error = result.error || msg('error.workflow');
           mainWindow?.webContents.send('processing-complete', JSON.stringify({
-            error: result.error || 'Agent Workflow执行失败',
-            approach: 'Agent Workflow错误',
-            code: `错误: ${result.error}`,
+            error,
+            approach: 'Agent workflow failed',
+            code: 'Error: ' + englishText(error),
             timeComplexity: 'N/A',
             spaceComplexity: 'N/A'
           }));
         }
       } catch (e: any) {
+        if (activeRun !== run) return;
+        const error = errorText(e, msg('error.workflow'));
         mainWindow?.webContents.send('processing-complete', JSON.stringify({
-          error: e?.message || 'Agent Workflow执行失败',
-          approach: 'Agent Workflow异常',
-          code: `异常: ${e?.message || '未知错误'}`,
+          error,
+          approach: 'Agent workflow failed',
+          code: 'Error: ' + englishText(error),
           timeComplexity: 'N/A',
           spaceComplexity: 'N/A'
         }));
+      } finally {
+        // A cancelled run was already closed by cancelProcessing
+        if (activeRun === run) {
+          activeRun = null;
+          endRun();
+        }
       }
     },
     triggerReset: handleResetQueue,
+    cancelProcessing,
+    clearCache: handleClearCache,
+    toggleUsageHistory: () => mainWindow?.webContents.send('toggle-usage-history'),
+    getUsageHistory,
     toggleVisualHidden: () => {
       isVisualHidden = !isVisualHidden;
       mainWindow?.setOpacity(isVisualHidden ? 0 : 1);
     },
     toggleConfig: () => mainWindow?.webContents.send('show-config'),
-    setModel: (index: number) => {
-      if (index < 0 || index >= MODEL_CANDIDATES.length) return;
-      currentModelIndex = index;
-      if (proMode) {
-        proMode = false;
-        mainWindow?.webContents.send('pro-mode-updated', { enabled: proMode });
-      }
-      mainWindow?.webContents.send('model-updated', {
-        index: currentModelIndex,
-        name: MODEL_CANDIDATES[currentModelIndex]
-      });
-    },
-    getModelList: () => ({
-      currentIndex: currentModelIndex,
-      models: MODEL_CANDIDATES
-    }),
+    setModel: selectModel,
+    getModelList: modelList,
     toggleProMode: () => {
       proMode = !proMode;
       mainWindow?.webContents.send('pro-mode-updated', { enabled: proMode });
@@ -297,21 +406,62 @@ async function handleTakeScreenshot() {
   }
 }
 
-async function handleProcessScreenshots() {
-  if (isProcessing || screenshotQueue.length === 0) return;
+// Streamed text is batched so the renderer re-parses a few times a second rather than per token
+const STREAM_FLUSH_MS = 50;
+
+function createStreamSender(run: AbortController) {
+  let pending = '';
+  let timer: NodeJS.Timeout | null = null;
+  const flush = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (pending && activeRun === run) {
+      mainWindow?.webContents.send('processing-stream', pending);
+    }
+    pending = '';
+  };
+  return {
+    push: (delta: string) => {
+      pending += delta;
+      if (!timer) timer = setTimeout(flush, STREAM_FLUSH_MS);
+    },
+    flush,
+    // Drop whatever is still pending, e.g. after an error
+    discard: () => {
+      pending = '';
+      flush();
+    }
+  };
+}
+
+// fresh: ask the model again instead of reusing a cached answer for the same screenshots
+async function handleProcessScreenshots(fresh = false) {
+  if (activeRun || screenshotQueue.length === 0) return;
   
-  isProcessing = true;
+  const run = new AbortController();
+  activeRun = run;
+  beginRun('normal');
   mainWindow?.webContents.send('processing-started');
+  const stream = createStreamSender(run);
+  const cacheMode: CacheMode = fresh ? 'refresh' : 'use';
 
   try {
-    const result = await openaiService.processScreenshots(screenshotQueue);
+    // Edits to the prompt files apply from the next run on
+    await reloadPromptLibrary();
+    const result = await openaiService.processScreenshots(screenshotQueue, undefined, stream.push, cacheMode, run.signal);
     // Check if processing was cancelled
-    if (!isProcessing) return;
+    if (activeRun !== run) {
+      stream.discard();
+      return;
+    }
+    // The last pieces go out before the final result replaces the streamed one
+    stream.flush();
     mainWindow?.webContents.send('processing-complete', JSON.stringify(result));
   } catch (error: any) {
     console.error('Error processing screenshots:', error);
+    stream.discard();
     // Check if processing was cancelled
-    if (!isProcessing) return;
+    if (activeRun !== run) return;
     
     // Extract the most relevant error message
     let errorMessage = 'Error processing screenshots';
@@ -329,21 +479,38 @@ async function handleProcessScreenshots() {
       spaceComplexity: 'N/A'
     }));
   } finally {
-    isProcessing = false;
+    // A cancelled run was already closed by cancelProcessing
+    if (activeRun === run) {
+      activeRun = null;
+      endRun();
+    }
   }
 }
 
+// Stops the run in progress: its requests and programs are aborted and the renderer is told
+// right away. Program runs the renderer started are aborted as well. Returns false when
+// nothing was running.
+function cancelProcessing(): boolean {
+  const runningPrograms = rendererRuns.size > 0;
+  for (const controller of rendererRuns) controller.abort();
+  rendererRuns.clear();
+  const run = activeRun;
+  if (!run) return runningPrograms;
+  activeRun = null;
+  run.abort();
+  endRun();
+  mainWindow?.webContents.send('processing-complete', JSON.stringify({
+    approach: 'Processing cancelled',
+    code: '',
+    timeComplexity: '',
+    spaceComplexity: ''
+  }));
+  return true;
+}
+
 async function handleResetQueue() {
   // Cancel any ongoing processing
-  if (isProcessing) {
-    isProcessing = false;
-    mainWindow?.webContents.send('processing-complete', JSON.stringify({
-      approach: 'Processing cancelled',
-      code: '',
-      timeComplexity: '',
-      spaceComplexity: ''
-    }));
-  }
+  cancelProcessing();
 
   // Delete all screenshot files
   for (const screenshot of screenshotQueue) {
@@ -393,7 +560,11 @@ function moveWindow(direction: 'left' | 'right' | 'up' | 'down') {
 app.whenReady().then(async () => {
   await ensureScreenshotDir();
   // Load config before creating window
+  await installPromptLibrary(PROMPTS_DIR).catch(error => console.error('Error installing prompts:', error));
+  await configureUsageTracker(USAGE_FILE, (update) => mainWindow?.webContents.send('usage-updated', update));
   config = await loadConfig();
+  applyCacheConfig(config);
+  applyPriceConfig(config);
   createWindow();
 
   // Start python daemon early
@@ -413,7 +584,7 @@ app.whenReady().then(async () => {
 
 app.on('will-quit', () => {
   handleResetQueue();
-  pythonDaemon.stop();
+  stopAllRunners();
 });
 
 app.on('window-all-closed', function () {
@@ -422,13 +593,26 @@ app.on('window-all-closed', function () {
 
 // IPC Handlers
 ipcMain.handle('take-screenshot', handleTakeScreenshot);
-ipcMain.handle('process-screenshots', handleProcessScreenshots);
+ipcMain.handle('process-screenshots', () => handleProcessScreenshots());
 ipcMain.handle('reset-queue', handleResetQueue);
 
+// A renderer-started run gets its own abort signal; once cancelled, whatever it still
+// produces is replaced by `cancelled`
+async function rendererRun<T>(task: (signal: AbortSignal) => Promise<T>, cancelled: T): Promise<T> {
+  const controller = new AbortController();
+  rendererRuns.add(controller);
+  try {
+    const result = await task(controller.signal);
+    return controller.signal.aborted ? cancelled : result;
+  } finally {
+    rendererRuns.delete(controller);
+  }
+}
+
 // Python daemon IPC
 ipcMain.handle('python-load', async (_evt, code: string) => {
   try {
-    return await pythonDaemon.load(code);
+    return await rendererRun(signal => pythonDaemon.load(code, signal), { id: -1, ok: false, error: CANCELLED_ERROR });
   } catch (err: any) {
     return { id: -1, ok: false, error: err?.message || 'load failed' };
   }
@@ -436,12 +620,54 @@ ipcMain.handle('python-load', async (_evt, code: string) => {
 
 ipcMain.handle('python-run', async (_evt, input?: string) => {
   try {
-    return await pythonDaemon.run(input);
+    return await rendererRun(signal => pythonDaemon.run(input, undefined, signal), { id: -1, ok: false, status: 'error', error: CANCELLED_ERROR });
   } catch (err: any) {
     return { id: -1, ok: false, error: err?.message || 'run failed' };
   }
 });
 
+// Language runner IPC: same contract as python-load/python-run, backend picked from config.language.
+// With a signature the code is wrapped in the function harness and runs get their input encoded.
+ipcMain.handle('runner-load', async (_evt, code: string, signature?: FunctionSignature) => {
+  try {
+    return await rendererRun(signal => loadProgram(getRunner(config?.language || 'Python'), code, signature, signal), { id: -1, ok: false, error: CANCELLED_ERROR });
+  } catch (err: any) {
+    return { id: -1, ok: false, error: err?.message || 'load failed' };
+  }
+});
+
+ipcMain.handle('runner-run', async (_evt, input?: string | string[], codeId?: number) => {
+  try {
+    return await rendererRun(signal => runProgram(getRunner(config?.language || 'Python'), input, codeId, signal), { id: -1, ok: false, status: 'error', error: CANCELLED_ERROR });
+  } catch (err: any) {
+    return { id: -1, ok: false, error: err?.message || 'run failed' };
+  }
+});
+
+// Interactive problems: the solution and the judge run as two processes talking over pipes
+ipcMain.handle('runner-interact', async (_evt, code: string, judge: string, input?: string | string[]) => {
+  try {
+    return await rendererRun(
+      signal => runInteractive(config?.language || 'Python', code, judge, input, signal),
+      { ok: false, status: 'error', verdict: 'crash', message: CANCELLED_ERROR, transcript: [] }
+    );
+  } catch (err: any) {
+    return { ok: false, status: 'error', verdict: 'crash', message: err?.message || 'interactive run failed', transcript: [] };
+  }
+});
+
+// Special-judge verdicts need the checker executed in the python daemon
+ipcMain.handle('judge-output', async (_evt, payload: { actual?: string; expected?: string | string[]; input?: string | string[]; compare?: CompareSpec }) => {
+  try {
+    return await rendererRun(
+      signal => judgeOutput(payload.actual, payload.expected, payload.input, payload.compare, signal),
+      { ok: false, message: CANCELLED_ERROR }
+    );
+  } catch (err: any) {
+    return { ok: false, message: err?.message || 'judge failed' };
+  }
+});
+
 // Window control events
 ipcMain.on('minimize-window', () => {
   mainWindow?.minimize();
@@ -459,6 +685,10 @@ ipcMain.on('close-window', () => {
   mainWindow?.close();
 });
 
+ipcMain.on('set-mouse-interactive', (_evt, interactive: boolean) => {
+  mainWindow?.setIgnoreMouseEvents(!interactive, { forward: true });
+});
+
 ipcMain.on('quit-app', () => {
   app.quit();
 });
@@ -478,6 +708,20 @@ ipcMain.handle('get-config', async () => {
   }
 });
 
+ipcMain.handle('get-usage-history', () => getUsageHistory());
+
+ipcMain.handle('get-model-list', () => modelList());
+
+// The config screen lists an endpoint's models with its unsaved connection settings
+ipcMain.handle('fetch-models', async (_evt, connection: { provider?: ProviderKind; baseURL?: string; apiKey?: string }) => {
+  try {
+    const kind = normalizeProviderKind(connection.provider);
+    return { ok: true, models: await fetchModels({ kind, baseURL: connection.baseURL, apiKey: connection.apiKey }) };
+  } catch (error: any) {
+    return { ok: false, error: error?.message || String(error) };
+  }
+});
+
 ipcMain.handle('set-current-answer', async (_, answer: string) => {
   currentAnswer = answer;
   return true;
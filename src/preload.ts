@@ -13,14 +13,25 @@ contextBridge.exposeInMainWorld('electron', {
   saveConfig: (config: any) => ipcRenderer.invoke('save-config', config),
   pythonLoad: (code: string) => ipcRenderer.invoke('python-load', code),
   pythonRun: (input?: string) => ipcRenderer.invoke('python-run', input),
+  runnerLoad: (code: string, signature?: any) => ipcRenderer.invoke('runner-load', code, signature),
+  runnerRun: (input?: string | string[], codeId?: number) => ipcRenderer.invoke('runner-run', input, codeId),
+  runnerInteract: (code: string, judge: string, input?: string | string[]) => ipcRenderer.invoke('runner-interact', code, judge, input),
+  judgeOutput: (payload: { actual?: string; expected?: string | string[]; input?: string | string[]; compare?: any }) => ipcRenderer.invoke('judge-output', payload),
   generateBuggyVariant: (payload: { code: string; approach?: string; modelOverride?: string }) => ipcRenderer.invoke('generate-buggy-variant', payload),
   setCurrentAnswer: (answer: string) => ipcRenderer.invoke('set-current-answer', answer),
+  getUsageHistory: () => ipcRenderer.invoke('get-usage-history'),
+  getModelList: () => ipcRenderer.invoke('get-model-list'),
+  fetchModels: (connection: { provider?: string; baseURL?: string; apiKey?: string }) => ipcRenderer.invoke('fetch-models', connection),
+  setMouseInteractive: (interactive: boolean) => ipcRenderer.send('set-mouse-interactive', interactive),
   
   toggleVisibility: () => ipcRenderer.send('toggle-visibility'),
   
   onProcessingComplete: (callback: (result: string) => void) => {
     ipcRenderer.on('processing-complete', (_, result) => callback(result));
   },
+  onProcessingStream: (callback: (delta: string) => void) => {
+    ipcRenderer.on('processing-stream', (_, delta) => callback(delta));
+  },
   onScreenshotTaken: (callback: (data: any) => void) => {
     ipcRenderer.on('screenshot-taken', (_, data) => callback(data));
   },
@@ -45,5 +56,11 @@ contextBridge.exposeInMainWorld('electron', {
   toggleProMode: () => ipcRenderer.send('toggle-pro-mode'),
   onWorkflowProgress: (callback: (state: any) => void) => {
     ipcRenderer.on('workflow-progress', (_evt, state) => callback(state));
+  },
+  onUsageUpdated: (callback: (update: any) => void) => {
+    ipcRenderer.on('usage-updated', (_evt, update) => callback(update));
+  },
+  onToggleUsageHistory: (callback: () => void) => {
+    ipcRenderer.on('toggle-usage-history', () => callback());
   }
 }); 
\ No newline at end of file
@@ -1,57 +1,111 @@
 import { app } from 'electron';
 import * as fs from 'fs/promises';
+import * as os from 'os';
 import * as path from 'path';
 import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
+import { CANCELLED_ERROR, DEFAULT_RUN_LIMITS } from './runners/languageRunner';
+import type { LanguageRunner, RunLimits } from './runners/languageRunner';
+import type { RunMetrics } from './shared/metrics';
 
-interface PythonResponse {
+export type RunStatus = 'ok' | 'error' | 'timeout' | 'memory_limit' | 'sandbox_violation';
+
+// What model-generated code may do inside a worker. The audit-hook layer is a best-effort
+// guard inside the interpreter; the optional Linux wrapper adds real namespace isolation.
+export interface SandboxPolicy {
+  enabled: boolean;
+  allowNetwork: boolean;
+  allowSubprocess: boolean;
+  allowFilesystem: boolean; // read/write outside the per-run throwaway working dir
+  wrapper: 'none' | 'unshare' | 'bwrap';
+}
+
+export const DEFAULT_SANDBOX_POLICY: SandboxPolicy = {
+  enabled: true,
+  allowNetwork: false,
+  allowSubprocess: false,
+  allowFilesystem: false,
+  wrapper: 'none'
+};
+
+// How a worker is started; workers respawn when the key (limits, policy) changes
+interface WorkerLaunch {
+  cmd: string;
+  args: string[];
+  key: string;
+}
+
+export interface PythonResponse {
   id: number;
   ok: boolean;
+  status?: RunStatus;
+  codeId?: number;
   stdout?: string;
   stderr?: string;
   error?: string;
+  metrics?: RunMetrics;
 }
 
-export class PythonDaemon {
+// How many loaded programs are kept addressable by codeId
+const MAX_LOADED_CODES = 16;
+
+let nextMessageId = 1;
+
+// One interpreter process; runs a single command at a time
+class PythonWorker {
   private process: ChildProcessWithoutNullStreams | null = null;
-  private scriptPath: string | null = null;
-  private nextId = 1;
   private lineBuffer = '';
   private pending: Map<number, (value: PythonResponse) => void> = new Map();
-  private pythonCmd: string = process.env.PYTHON_PATH || 'python3';
   private lastStderr: string = '';
+  private launchKey = '';
 
-  async start(): Promise<void> {
-    if (this.process) return;
-    await this.ensureScript();
-
-    const spawned = await this.trySpawn(this.pythonCmd);
-    if (!spawned) {
-      const fallback = this.pythonCmd === 'python3' ? 'python' : 'python3';
-      const spawnedFallback = await this.trySpawn(fallback);
-      if (!spawnedFallback) {
-        throw new Error('Failed to start python interpreter (tried python3 and python)');
-      } else {
-        this.pythonCmd = fallback;
-      }
-    }
+  // (Re)spawn when not running or when the memory cap / sandbox policy changed since start
+  async ensureRunning(launch: WorkerLaunch): Promise<boolean> {
+    if (this.process && this.launchKey === launch.key) return true;
+    this.kill();
+    return this.trySpawn(launch);
   }
 
-  async stop(): Promise<void> {
-    if (!this.process) return;
+  kill() {
+    const cp = this.process;
+    this.process = null;
+    this.lineBuffer = '';
+    if (!cp) return;
     try {
-      this.process.kill();
+      cp.kill('SIGKILL');
     } catch {}
-    this.process = null;
   }
 
-  async load(code: string): Promise<PythonResponse> {
-    await this.start();
-    return this.send({ cmd: 'load', code });
-  }
-
-  async run(input?: string): Promise<PythonResponse> {
-    await this.start();
-    return this.send({ cmd: 'run', input: input || '' });
+  send(payload: any, timeoutMs?: number, signal?: AbortSignal): Promise<PythonResponse> {
+    if (!this.process || !this.process.stdin.writable) {
+      return Promise.resolve({ id: -1, ok: false, error: 'python daemon not running' });
+    }
+    const id = nextMessageId++;
+    const body = JSON.stringify({ id, ...payload }) + '\n';
+    return new Promise<PythonResponse>((resolve) => {
+      let timer: NodeJS.Timeout | null = null;
+      const settle = (msg: PythonResponse) => {
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        resolve(msg);
+      };
+      // The interpreter is stuck in user code; killing it is the only way to free the worker.
+      // It is respawned the next time the pool hands it out.
+      const abandon = (msg: PythonResponse) => {
+        if (!this.pending.has(id)) return;
+        this.pending.delete(id);
+        this.kill();
+        settle(msg);
+      };
+      const onAbort = () => abandon({ id, ok: false, status: 'error', error: CANCELLED_ERROR });
+      if (timeoutMs && timeoutMs > 0) {
+        timer = setTimeout(() => {
+          abandon({ id, ok: false, status: 'timeout', error: `Time limit exceeded (${timeoutMs} ms)`, metrics: { wallMs: timeoutMs } });
+        }, timeoutMs);
+      }
+      this.pending.set(id, settle);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.process!.stdin.write(body, 'utf8');
+    });
   }
 
   private handleStdout(text: string) {
@@ -74,16 +128,280 @@ export class PythonDaemon {
     }
   }
 
-  private send(payload: any): Promise<PythonResponse> {
-    if (!this.process || !this.process.stdin.writable) {
-      return Promise.resolve({ id: -1, ok: false, error: 'python daemon not running' });
-    }
-    const id = this.nextId++;
-    const body = JSON.stringify({ id, ...payload }) + '\n';
-    return new Promise<PythonResponse>((resolve) => {
-      this.pending.set(id, resolve);
-      this.process!.stdin.write(body, 'utf8');
+  private async trySpawn(launch: WorkerLaunch): Promise<boolean> {
+    return new Promise<boolean>((resolve) => {
+      let resolved = false;
+      const cp = spawn(launch.cmd, launch.args, {
+        stdio: ['pipe', 'pipe', 'pipe'],
+        env: { ...process.env, PYTHONHASHSEED: '0' }
+      });
+
+      const resolveFalse = () => {
+        if (resolved) return;
+        resolved = true;
+        try { cp.removeAllListeners(); } catch {}
+        resolve(false);
+      };
+
+      cp.once('error', (_err) => {
+        resolveFalse();
+      });
+      cp.once('spawn', () => {
+        if (resolved) return;
+        resolved = true;
+        this.launchKey = launch.key;
+        this.attachProcess(cp);
+        resolve(true);
+      });
+      // In some cases process can exit too fast; treat as failure
+      cp.once('exit', () => {
+        resolveFalse();
+      });
+    });
+  }
+
+  private attachProcess(cp: ChildProcessWithoutNullStreams) {
+    this.process = cp;
+    this.lastStderr = '';
+    cp.stdout.on('data', (chunk: Buffer) => {
+      if (this.process !== cp) return;
+      this.handleStdout(chunk.toString('utf8'));
     });
+    cp.stderr.on('data', (chunk: Buffer) => {
+      if (this.process !== cp) return;
+      const text = chunk.toString('utf8');
+      this.lastStderr = (this.lastStderr + text).slice(-4000);
+      this.handleStdout(text);
+    });
+    cp.on('exit', (code, signal) => {
+      // A killed interpreter may exit after its replacement is already attached
+      if (this.process !== cp) return;
+      this.process = null;
+      const msg = `python daemon exited (code=${code}, signal=${signal})\n${this.lastStderr || ''}`;
+      for (const [, resolve] of this.pending) {
+        resolve({ id: -1, ok: false, error: msg });
+      }
+      this.pending.clear();
+    });
+  }
+}
+
+// Pool of isolated interpreter processes. Runs are dispatched to idle workers so
+// examples and candidate solutions execute in parallel, each in a fresh namespace.
+export class PythonDaemon implements LanguageRunner {
+  readonly language = 'Python';
+  private scriptPath: string | null = null;
+  private pythonCmd: string = process.env.PYTHON_PATH || 'python3';
+  private poolSize: number = parseInt(process.env.PYTHON_POOL_SIZE || '', 10) || Math.max(2, Math.min(4, os.cpus().length));
+  private workers: PythonWorker[] = [];
+  private idle: PythonWorker[] = [];
+  private waiting: Array<(worker: PythonWorker) => void> = [];
+  private limits: RunLimits = { ...DEFAULT_RUN_LIMITS };
+  private sandbox: SandboxPolicy = { ...DEFAULT_SANDBOX_POLICY };
+  private codes: Map<number, string> = new Map();
+  private nextCodeId = 1;
+  private currentCodeId: number | null = null;
+  private starting: Promise<void> | null = null;
+
+  async start(): Promise<void> {
+    if (this.workers.length > 0) return;
+    if (!this.starting) {
+      this.starting = this.spawnPool().finally(() => {
+        this.starting = null;
+      });
+    }
+    return this.starting;
+  }
+
+  private async spawnPool(): Promise<void> {
+    await this.ensureScript();
+
+    const first = new PythonWorker();
+    const spawned = await first.ensureRunning(this.launchFor(this.pythonCmd));
+    if (!spawned) {
+      const fallback = this.pythonCmd === 'python3' ? 'python' : 'python3';
+      const spawnedFallback = await first.ensureRunning(this.launchFor(fallback));
+      if (!spawnedFallback) {
+        const via = this.wrapper() !== 'none' ? ` via ${this.wrapper()}` : '';
+        throw new Error(`Failed to start python interpreter (tried python3 and python${via})`);
+      } else {
+        this.pythonCmd = fallback;
+      }
+    }
+    this.addWorker(first);
+    // The rest are spawned lazily when first handed out
+    while (this.workers.length < this.poolSize) {
+      this.addWorker(new PythonWorker());
+    }
+  }
+
+  async stop(): Promise<void> {
+    for (const worker of this.workers) {
+      worker.kill();
+    }
+    this.workers = [];
+    this.idle = [];
+  }
+
+  setLimits(limits: Partial<RunLimits>): void {
+    // Workers pick up a new memory cap on their next respawn (see ensureRunning)
+    this.limits = { ...this.limits, ...limits };
+  }
+
+  setSandboxPolicy(policy: Partial<SandboxPolicy>): void {
+    // Like the memory cap, a new policy is picked up when each worker next respawns
+    this.sandbox = { ...DEFAULT_SANDBOX_POLICY, ...policy };
+  }
+
+  setPoolSize(size: number): void {
+    const next = Math.max(1, Math.floor(size) || 1);
+    if (next === this.poolSize) return;
+    this.poolSize = next;
+    if (this.workers.length === 0) return;
+    while (this.workers.length < this.poolSize) {
+      this.addWorker(new PythonWorker());
+    }
+    // Shrink using idle workers only; busy ones are retired when released
+    while (this.workers.length > this.poolSize && this.idle.length > 0) {
+      this.retire(this.idle.pop()!);
+    }
+  }
+
+  async load(code: string, signal?: AbortSignal): Promise<PythonResponse> {
+    if (signal?.aborted) {
+      return { id: -1, ok: false, error: CANCELLED_ERROR };
+    }
+    await this.start();
+    const res = await this.withWorker((worker) => worker.send({ cmd: 'load', code }, undefined, signal));
+    if (!res.ok) return res;
+
+    const codeId = this.nextCodeId++;
+    this.codes.set(codeId, code);
+    this.currentCodeId = codeId;
+    if (this.codes.size > MAX_LOADED_CODES) {
+      this.codes.delete(this.codes.keys().next().value as number);
+    }
+    return { ...res, codeId };
+  }
+
+  async run(input?: string | string[], codeId?: number, signal?: AbortSignal): Promise<PythonResponse> {
+    if (signal?.aborted) {
+      return { id: -1, ok: false, status: 'error', error: CANCELLED_ERROR };
+    }
+    await this.start();
+    const id = codeId ?? this.currentCodeId;
+    const code = id !== null ? this.codes.get(id) : undefined;
+    if (!code) {
+      return { id: -1, ok: false, error: 'no code loaded' };
+    }
+    return this.withWorker((worker) => worker.send(
+      { cmd: 'run', code, input: input || '', cpu_seconds: this.limits.cpuSeconds },
+      this.limits.timeoutMs,
+      signal
+    ));
+  }
+
+  isLoaded(codeId: number): boolean {
+    return this.codes.has(codeId);
+  }
+
+  private addWorker(worker: PythonWorker) {
+    this.workers.push(worker);
+    this.release(worker);
+  }
+
+  private retire(worker: PythonWorker) {
+    worker.kill();
+    this.workers = this.workers.filter(w => w !== worker);
+  }
+
+  private acquire(): Promise<PythonWorker> {
+    const worker = this.idle.pop();
+    if (worker) return Promise.resolve(worker);
+    return new Promise<PythonWorker>((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(worker: PythonWorker) {
+    if (!this.workers.includes(worker)) return;
+    if (this.workers.length > this.poolSize) {
+      this.retire(worker);
+      return;
+    }
+    const next = this.waiting.shift();
+    if (next) {
+      next(worker);
+    } else {
+      this.idle.push(worker);
+    }
+  }
+
+  private async withWorker(task: (worker: PythonWorker) => Promise<PythonResponse>): Promise<PythonResponse> {
+    const worker = await this.acquire();
+    try {
+      const launch = this.launchFor(this.pythonCmd);
+      const ready = await worker.ensureRunning(launch);
+      if (!ready) {
+        return { id: -1, ok: false, error: `failed to start ${launch.cmd}` };
+      }
+      return await task(worker);
+    } finally {
+      this.release(worker);
+    }
+  }
+
+  // Namespace wrappers only exist on Linux; elsewhere the audit hook is all we have
+  private wrapper(): SandboxPolicy['wrapper'] {
+    return this.sandbox.enabled && process.platform === 'linux' ? this.sandbox.wrapper : 'none';
+  }
+
+  // Runs that need a process of their own (interactive problems) go through the same launcher:
+  // it arms the worker's audit hook, then runs `file` as __main__ with the real stdin/stdout.
+  // Memory and CPU are capped by the caller's ulimit. Needs prepareLauncher() first.
+  processCommand(file: string): { cmd: string; args: string[] } {
+    if (!this.sandbox.enabled) return { cmd: this.pythonCmd, args: ['-u', file] };
+    if (!this.scriptPath) throw new Error('python launcher not prepared');
+    const { cmd, args } = this.launchFor(this.pythonCmd, file);
+    return { cmd, args };
+  }
+
+  async prepareLauncher(): Promise<void> {
+    await this.ensureScript();
+  }
+
+  private launchFor(pythonCmd: string, program?: string): WorkerLaunch {
+    const scriptArgs = [
+      '-u', this.scriptPath!,
+      '--memory-mb', String(program ? 0 : this.limits.memoryMb || 0),
+      '--sandbox', JSON.stringify(this.sandbox),
+      // Last, so whatever the caller appends reaches the program as its own arguments
+      ...(program ? ['--exec', program] : [])
+    ];
+    let cmd = pythonCmd;
+    let args = scriptArgs;
+    const wrapper = this.wrapper();
+    if (wrapper === 'unshare') {
+      // Unprivileged user namespace; drops the network unless it is allowed
+      cmd = 'unshare';
+      args = ['--map-root-user', '--ipc', ...(this.sandbox.allowNetwork ? [] : ['--net']), '--', pythonCmd, ...scriptArgs];
+    } else if (wrapper === 'bwrap') {
+      // Read-only root, private /tmp, home (and with it the app config) hidden except the daemon script
+      cmd = 'bwrap';
+      args = [
+        '--ro-bind', '/', '/',
+        '--dev', '/dev',
+        '--proc', '/proc',
+        '--tmpfs', '/tmp',
+        '--tmpfs', os.homedir(),
+        '--ro-bind', this.scriptPath!, this.scriptPath!,
+        ...(program ? ['--ro-bind', path.dirname(program), path.dirname(program)] : []),
+        '--unshare-all',
+        ...(this.sandbox.allowNetwork ? ['--share-net'] : []),
+        '--die-with-parent',
+        '--new-session',
+        '--', pythonCmd, ...scriptArgs
+      ];
+    }
+    return { cmd, args, key: JSON.stringify([cmd, args]) };
   }
 
   private async ensureScript() {
@@ -97,9 +415,251 @@ export class PythonDaemon {
 
   private getPythonScript(): string {
     return [
-      'import sys, json, io, contextlib, traceback',
+      'import sys, json, io, contextlib, traceback, random, time',
+      'try:',
+      '    import resource, signal',
+      'except ImportError:',
+      '    resource = None',
+      '',
+      'BASE_RECURSION_LIMIT = sys.getrecursionlimit()',
+      'COMMAND_STDIN = sys.stdin',
+      '',
+      'class CpuLimitExceeded(BaseException):',
+      '    pass',
+      '',
+      'def apply_memory_limit(mb):',
+      '    if resource is None or mb <= 0:',
+      '        return',
+      '    try:',
+      '        _, hard = resource.getrlimit(resource.RLIMIT_AS)',
+      '        limit = mb * 1024 * 1024',
+      '        if hard != resource.RLIM_INFINITY:',
+      '            limit = min(limit, hard)',
+      '        resource.setrlimit(resource.RLIMIT_AS, (limit, hard))',
+      '    except (ValueError, OSError):',
+      '        pass',
+      '',
+      'def on_cpu_limit(signum, frame):',
+      '    raise CpuLimitExceeded()',
       '',
-      'loaded_code = None',
+      'if resource is not None and hasattr(signal, "SIGXCPU"):',
+      '    signal.signal(signal.SIGXCPU, on_cpu_limit)',
+      '',
+      'def set_cpu_limit(seconds):',
+      '    if resource is None or not seconds or seconds <= 0:',
+      '        return False',
+      '    try:',
+      '        used = resource.getrusage(resource.RUSAGE_SELF)',
+      '        soft = int(used.ru_utime + used.ru_stime) + int(seconds) + 1',
+      '        _, hard = resource.getrlimit(resource.RLIMIT_CPU)',
+      '        if hard != resource.RLIM_INFINITY:',
+      '            soft = min(soft, hard)',
+      '        resource.setrlimit(resource.RLIMIT_CPU, (soft, hard))',
+      '        return True',
+      '    except (ValueError, OSError):',
+      '        return False',
+      '',
+      'def clear_cpu_limit():',
+      '    try:',
+      '        _, hard = resource.getrlimit(resource.RLIMIT_CPU)',
+      '        resource.setrlimit(resource.RLIMIT_CPU, (hard, hard))',
+      '    except (ValueError, OSError):',
+      '        pass',
+      '',
+      'memory_mb = 0',
+      'if "--memory-mb" in sys.argv:',
+      '    memory_mb = int(sys.argv[sys.argv.index("--memory-mb") + 1])',
+      'apply_memory_limit(memory_mb)',
+      '',
+      'import os, shutil, tempfile, types, gc',
+      '',
+      '# Sandbox: an audit hook armed for the worker\'s whole life, plus a throwaway working',
+      '# directory per run. Best-effort inside the interpreter; namespaces do the rest.',
+      '# User code can reach and change anything global (module globals via any function\'s',
+      '# __globals__, shared modules such as json or os), and code it leaves behind can run',
+      '# after the run (finalizers, threads, signal handlers, patched functions the daemon',
+      '# calls). So the hook is never switched off, and everything it decides on is copied',
+      '# into its closure, which nothing else references.',
+      'class SandboxViolation(BaseException):',
+      '    pass',
+      '',
+      'SUBPROCESS_EVENTS = {"os.system", "os.exec", "os.spawn", "os.posix_spawn", "os.fork", "os.forkpty", "os.kill", "os.killpg", "os.startfile", "pty.spawn", "subprocess.Popen"}',
+      'FS_WRITE_EVENTS = {"os.remove", "os.rename", "os.rmdir", "os.mkdir", "os.chmod", "os.chown", "os.chflags", "os.link", "os.symlink", "os.truncate", "os.utime", "os.mkfifo", "os.mknod", "shutil.rmtree", "shutil.move", "shutil.copyfile", "shutil.copytree", "shutil.chown"}',
+      'FS_LIST_EVENTS = {"os.listdir", "os.scandir"}',
+      '# Tracing would let code run in (and rewrite) the daemon\'s own frames',
+      'TRACE_EVENTS = {"sys.settrace", "sys.setprofile"}',
+      '# Every run gets its own directory named like this; they are the only places anyone may write',
+      'RUN_PREFIX = "crackcoder-run-"',
+      'RUN_PARENT = os.path.realpath(tempfile.gettempdir())',
+      'START_DIR = os.getcwd()',
+      'SCRIPT_DIR = os.path.realpath(os.path.dirname(os.path.abspath(__file__)))',
+      '# --exec FILE [ARGS...]: run one program as a process of its own instead of serving',
+      '# commands (interactive problems). Its directory is readable, not writable.',
+      'EXEC_FILE = None',
+      'if "--exec" in sys.argv:',
+      '    EXEC_FILE = os.path.realpath(sys.argv[sys.argv.index("--exec") + 1])',
+      '',
+      'def install_sandbox(policy, violations):',
+      '    allow_subprocess = bool(policy.get("allowSubprocess"))',
+      '    allow_network = bool(policy.get("allowNetwork"))',
+      '    allow_filesystem = bool(policy.get("allowFilesystem"))',
+      '    subprocess_events = frozenset(SUBPROCESS_EVENTS)',
+      '    fs_write_events = frozenset(FS_WRITE_EVENTS)',
+      '    fs_list_events = frozenset(FS_LIST_EVENTS)',
+      '    trace_events = frozenset(TRACE_EVENTS)',
+      '    write_flags = os.O_WRONLY | os.O_RDWR | os.O_APPEND | os.O_CREAT | os.O_TRUNC',
+      '    realpath, fsdecode, sep = os.path.realpath, os.fsdecode, os.sep',
+      '    path_types = (str, bytes, os.PathLike)',
+      '    run_base = RUN_PARENT.rstrip(sep) + sep + RUN_PREFIX',
+      '    script_dir = SCRIPT_DIR',
+      '    # The interpreter\'s own library stays readable so imports work; the daemon dir (app data) does not',
+      '    read_roots = []',
+      '    for root in [sys.prefix, sys.base_prefix, sys.exec_prefix] + sys.path:',
+      '        if root and os.path.isdir(root):',
+      '            root = realpath(root)',
+      '            if root != script_dir and root not in read_roots:',
+      '                read_roots.append(root)',
+      '    read_roots = tuple(read_roots)',
+      '    # The daemon reads and resets its peak RSS through these between runs, and tracebacks quote this script',
+      '    read_files = frozenset(realpath(p) for p in ("/dev/null", "/dev/urandom", "/dev/random", "/proc/self/status", __file__))',
+      '    write_files = frozenset({realpath("/proc/self/clear_refs")})',
+      '    program_dir = os.path.dirname(EXEC_FILE) if EXEC_FILE else None',
+      '    busy = [False]',
+      '',
+      '    def within(path, root):',
+      '        return path == root or path.startswith(root.rstrip(sep) + sep)',
+      '',
+      '    def in_run_dir(path):',
+      '        return path.startswith(run_base)',
+      '',
+      '    def readable(path):',
+      '        if in_run_dir(path) or path in read_files:',
+      '            return True',
+      '        if program_dir and within(path, program_dir):',
+      '            return True',
+      '        if within(path, script_dir):',
+      '            return False',
+      '        return any(within(path, root) for root in read_roots)',
+      '',
+      '    def check(event, args):',
+      '        if event in subprocess_events and not allow_subprocess:',
+      '            return "subprocess (" + event + ")"',
+      '        if event.startswith("socket.") and not allow_network:',
+      '            return "network access (" + event + ")"',
+      '        if event.startswith("ctypes."):',
+      '            return "native code (" + event + ")"',
+      '        if event in trace_events:',
+      '            return "tracing (" + event + ")"',
+      '        if allow_filesystem:',
+      '            return None',
+      '        if event == "open":',
+      '            path, mode, flags = args',
+      '            if path is None or isinstance(path, int):',
+      '                return None',
+      '            target = realpath(fsdecode(path))',
+      '            if in_run_dir(target):',
+      '                return None',
+      '            if any(c in (mode or "") for c in "wax+") or (flags or 0) & write_flags:',
+      '                if target in write_files:',
+      '                    return None',
+      '                return "file write outside the working directory (" + target + ")"',
+      '            if not readable(target):',
+      '                return "file read outside the working directory (" + target + ")"',
+      '        elif event in fs_write_events or event in fs_list_events:',
+      '            for arg in args:',
+      '                if not isinstance(arg, path_types):',
+      '                    continue',
+      '                target = realpath(fsdecode(arg))',
+      '                allowed = readable(target) if event in fs_list_events else in_run_dir(target)',
+      '                if not allowed:',
+      '                    return event + " outside the working directory (" + target + ")"',
+      '        return None',
+      '',
+      '    def hook(event, args):',
+      '        if busy[0]:',
+      '            return',
+      '        busy[0] = True',
+      '        try:',
+      '            reason = check(event, args)',
+      '        finally:',
+      '            busy[0] = False',
+      '        if reason:',
+      '            violations.append(reason)',
+      '            raise SandboxViolation("Sandbox violation: blocked " + reason)',
+      '',
+      '    sys.addaudithook(hook)',
+      '',
+      '# Reasons the hook blocked something, drained after every run. User code can reach this',
+      '# list too, but that only affects what is reported, not what is blocked.',
+      'sandbox_violations = []',
+      'sandboxed = False',
+      'if "--sandbox" in sys.argv:',
+      '    if hasattr(sys, "addaudithook"):',
+      '        policy = json.loads(sys.argv[sys.argv.index("--sandbox") + 1])',
+      '        if policy.get("enabled"):',
+      '            # Bytecode caching would write next to the stdlib during imports in user code',
+      '            sys.dont_write_bytecode = True',
+      '            # Nothing is imported from the daemon dir, and listing it during imports would be blocked',
+      '            sys.path = [p for p in sys.path if p and os.path.realpath(p) != SCRIPT_DIR]',
+      '            install_sandbox(policy, sandbox_violations)',
+      '            sandboxed = True',
+      '        del policy',
+      '    else:',
+      '        sys.stderr.write("sandbox disabled: audit hooks need Python 3.8+\\n")',
+      '# The policy lives only in the hook now; nothing left here can switch it off',
+      'del install_sandbox',
+      '',
+      '# Per-run peak RSS: Linux can reset the high-water mark; elsewhere ru_maxrss is the',
+      '# worker\'s lifetime peak, an upper bound',
+      'def reset_peak_rss():',
+      '    try:',
+      '        with open("/proc/self/clear_refs", "w") as f:',
+      '            f.write("5")',
+      '    except OSError:',
+      '        pass',
+      '',
+      'def peak_rss_kb():',
+      '    try:',
+      '        with open("/proc/self/status") as f:',
+      '            for status_line in f:',
+      '                if status_line.startswith("VmHWM:"):',
+      '                    return int(status_line.split()[1])',
+      '    except (OSError, ValueError):',
+      '        pass',
+      '    if resource is None:',
+      '        return None',
+      '    peak = resource.getrusage(resource.RUSAGE_SELF).ru_maxrss',
+      '    return peak // 1024 if sys.platform == "darwin" else peak',
+      '',
+      'if EXEC_FILE is not None:',
+      '    # The caller\'s ulimit caps CPU time, and a plain SIGXCPU death is how that is recognised',
+      '    if resource is not None and hasattr(signal, "SIGXCPU"):',
+      '        signal.signal(signal.SIGXCPU, signal.SIG_DFL)',
+      '    with open(EXEC_FILE, "rb") as f:',
+      '        exec_code = compile(f.read(), EXEC_FILE, "exec")',
+      '    main_module = types.ModuleType("__main__")',
+      '    main_module.__file__ = EXEC_FILE',
+      '    sys.modules["__main__"] = main_module',
+      '    sys.argv = sys.argv[sys.argv.index("--exec") + 1:]',
+      '    workdir = None',
+      '    if sandboxed:',
+      '        workdir = os.path.realpath(tempfile.mkdtemp(prefix=RUN_PREFIX, dir=RUN_PARENT))',
+      '        os.chdir(workdir)',
+      '    exit_status = 0',
+      '    try:',
+      '        exec(exec_code, main_module.__dict__)',
+      '    except SystemExit as e:',
+      '        exit_status = e.code',
+      '    except SandboxViolation:',
+      '        pass',
+      '    finally:',
+      '        if workdir is not None:',
+      '            shutil.rmtree(workdir, ignore_errors=True)',
+      '    # Reported even when the program caught the exception and carried on',
+      '    if sandbox_violations:',
+      '        sys.stderr.write("Sandbox violation: blocked " + sandbox_violations[0] + "\\n")',
+      '        exit_status = 1',
+      '    sys.exit(exit_status)',
       '',
       'def respond(obj):',
       '    sys.stdout.write(json.dumps(obj) + "\\n")',
@@ -114,10 +674,15 @@ export class PythonDaemon {
       '        mid = msg.get("id", -1)',
       '        cmd = msg.get("cmd")',
       '        if cmd == "load":',
-      '            loaded_code = msg.get("code", "")',
-      '            respond({"id": mid, "ok": True})',
+      '            # Workers are stateless; load only checks that the code compiles',
+      '            try:',
+      '                compile(msg.get("code", ""), "<solution>", "exec")',
+      '                respond({"id": mid, "ok": True})',
+      '            except SyntaxError as e:',
+      '                respond({"id": mid, "ok": False, "status": "error", "error": "".join(traceback.format_exception_only(type(e), e))})',
       '        elif cmd == "run":',
-      '            if not loaded_code:',
+      '            code = msg.get("code")',
+      '            if not code:',
       '                respond({"id": mid, "ok": False, "error": "no code loaded"})',
       '                continue',
       '            raw_input = msg.get("input", "")',
@@ -135,22 +700,74 @@ export class PythonDaemon {
       '                    inp = raw_input',
       '            else:',
       '                inp = str(raw_input)',
-      '            ns = {"__name__": "__main__"}',
+      '            # A fresh __main__ per run: `import __main__` in user code must not reach the daemon',
+      '            main_module = types.ModuleType("__main__")',
+      '            ns = main_module.__dict__',
       '            out_io = io.StringIO()',
       '            err_io = io.StringIO()',
+      '            # Same starting state for every run so results do not depend on which worker ran it',
+      '            random.seed(0)',
+      '            sys.setrecursionlimit(BASE_RECURSION_LIMIT)',
+      '            workdir = None',
+      '            if sandboxed:',
+      '                workdir = os.path.realpath(tempfile.mkdtemp(prefix=RUN_PREFIX, dir=RUN_PARENT))',
+      '                os.chdir(workdir)',
+      '            del sandbox_violations[:]',
+      '            metrics = None',
+      '            cpu_limited = set_cpu_limit(msg.get("cpu_seconds", 0))',
       '            try:',
       '                with contextlib.redirect_stdout(out_io), contextlib.redirect_stderr(err_io):',
       '                    import builtins, types',
       '                    import sys as _sys, io as _io',
       '                    _sys.stdin = _io.StringIO(inp)',
-      '                    exec(loaded_code, ns, ns)',
-      '                respond({"id": mid, "ok": True, "stdout": out_io.getvalue(), "stderr": err_io.getvalue()})',
+      '                    reset_peak_rss()',
+      '                    wall_start = time.perf_counter()',
+      '                    cpu_start = time.process_time()',
+      '                    daemon_main = sys.modules["__main__"]',
+      '                    sys.modules["__main__"] = main_module',
+      '                    try:',
+      '                        exec(code, ns, ns)',
+      '                    finally:',
+      '                        sys.modules["__main__"] = daemon_main',
+      '                        metrics = {"wallMs": (time.perf_counter() - wall_start) * 1000, "cpuMs": (time.process_time() - cpu_start) * 1000, "peakRssKb": peak_rss_kb()}',
+      '                result = {"ok": True, "status": "ok"}',
+      '            except MemoryError:',
+      '                result = {"ok": False, "status": "memory_limit", "error": "Memory limit exceeded"}',
+      '            except CpuLimitExceeded:',
+      '                result = {"ok": False, "status": "timeout", "error": "CPU time limit exceeded"}',
+      '            except SystemExit as e:',
+      '                # sys.exit()/exit() in user code must not take the daemon down',
+      '                if e.code in (None, 0):',
+      '                    result = {"ok": True, "status": "ok"}',
+      '                else:',
+      '                    result = {"ok": False, "status": "error", "error": "SystemExit: " + str(e.code)}',
+      '            except SandboxViolation as e:',
+      '                result = {"ok": False, "status": "sandbox_violation", "error": str(e)}',
       '            except Exception:',
-      '                tb = traceback.format_exc()',
-      '                respond({"id": mid, "ok": False, "error": tb, "stdout": out_io.getvalue(), "stderr": err_io.getvalue()})',
+      '                result = {"ok": False, "status": "error", "error": traceback.format_exc()}',
+      '            finally:',
+      '                if cpu_limited:',
+      '                    clear_cpu_limit()',
+      '                sys.stdin = COMMAND_STDIN',
+      '                sys.setrecursionlimit(BASE_RECURSION_LIMIT)',
+      '                if workdir is not None:',
+      '                    # Removed from inside, so relative names the hook sees resolve into it',
+      '                    shutil.rmtree(workdir, ignore_errors=True)',
+      '                    os.chdir(START_DIR)',
+      '                # Finalizers of what the run left behind count towards this run',
+      '                del ns, main_module',
+      '                gc.collect()',
+      '            # Reported even when user code caught the exception and carried on',
+      '            violation = sandbox_violations[0] if sandbox_violations else None',
+      '            del sandbox_violations[:]',
+      '            if violation:',
+      '                result = {"ok": False, "status": "sandbox_violation", "error": "Sandbox violation: blocked " + violation}',
+      '            if metrics is not None:',
+      '                result["metrics"] = metrics',
+      '            respond({"id": mid, **result, "stdout": out_io.getvalue(), "stderr": err_io.getvalue()})',
       '        else:',
       '            respond({"id": mid, "ok": False, "error": "unknown cmd"})',
-      '    except Exception:',
+      '    except (Exception, CpuLimitExceeded, SandboxViolation):',
       '        tb = traceback.format_exc()',
       '        try:',
       '            respond({"id": -1, "ok": False, "error": tb})',
@@ -159,58 +776,7 @@ export class PythonDaemon {
       ''
     ].join('\n');
   }
-
-  private async trySpawn(cmd: string): Promise<boolean> {
-    return new Promise<boolean>((resolve) => {
-      let resolved = false;
-      const cp = spawn(cmd, ['-u', this.scriptPath as string], { stdio: ['pipe', 'pipe', 'pipe'] });
-
-      const resolveFalse = () => {
-        if (resolved) return;
-        resolved = true;
-        try { cp.removeAllListeners(); } catch {}
-        resolve(false);
-      };
-
-      cp.once('error', (_err) => {
-        resolveFalse();
-      });
-      cp.once('spawn', () => {
-        if (resolved) return;
-        resolved = true;
-        this.attachProcess(cp);
-        resolve(true);
-      });
-      // In some cases process can exit too fast; treat as failure
-      cp.once('exit', () => {
-        resolveFalse();
-      });
-    });
-  }
-
-  private attachProcess(cp: ChildProcessWithoutNullStreams) {
-    this.process = cp;
-    this.lastStderr = '';
-    cp.stdout.on('data', (chunk: Buffer) => {
-      this.handleStdout(chunk.toString('utf8'));
-    });
-    cp.stderr.on('data', (chunk: Buffer) => {
-      const text = chunk.toString('utf8');
-      this.lastStderr = (this.lastStderr + text).slice(-4000);
-      this.handleStdout(text);
-    });
-    cp.on('exit', (code, signal) => {
-      this.process = null;
-      const msg = `python daemon exited (code=${code}, signal=${signal})\n${this.lastStderr || ''}`;
-      for (const [, resolve] of this.pending) {
-        resolve({ id: -1, ok: false, error: msg });
-      }
-      this.pending.clear();
-    });
-  }
 }
 
 const singleton = new PythonDaemon();
 export default singleton;
-
-
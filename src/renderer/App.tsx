@@ -1,10 +1,18 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import './App.css';
 import ConfigScreen from './ConfigScreen';
 import CodeResult from './components/CodeResult';
 import AnswerResult from './components/AnswerResult';
 import RawResult from './components/RawResult';
 import WorkflowProgress from './components/WorkflowProgress';
+import UsageHistory from './components/UsageHistory';
+import { CompareSpec, DEFAULT_COMPARE, compareOutput, normalizeCompareSpec } from '../shared/comparator';
+import { RunMetrics } from '../shared/metrics';
+import { IncrementalJsonParser } from '../shared/incrementalJson';
+import { UsageHistory as UsageHistoryData, UsageUpdate, formatCost, formatUsage } from '../shared/usage';
+import { Locale, Message, MessageText, createTranslator, displayText, englishText, isMessage, resolveLocale } from '../shared/i18n';
+import { I18nProvider } from './i18n';
+import { ModelInfo } from '../shared/models';
 
 interface Screenshot {
   id: number;
@@ -16,46 +24,130 @@ type ResponseType = 'code' | 'answer' | 'raw';
 
 interface CodeResponse {
   responseType: 'code';
-  approach: string;
+  // A message when every candidate failed
+  approach: MessageText;
   code: string;
   timeComplexity: string;
   spaceComplexity: string;
   examples?: { input: string | string[]; output: string | string[] }[];
+  // Already executed by the pro workflow (CodeAgent.runTests)
+  tests?: ExampleTest[];
+  compare?: CompareSpec;
+  // LeetCode-style function/class signature; opaque here, the main process builds the harness from it
+  signature?: object;
+  // Brute-force cross-check and optional timing benchmark from the pro workflow
+  stress?: StressReport;
+  edgeCases?: EdgeCaseResult[];
+  edgeCaseError?: MessageText;
+  benchmark?: BenchmarkReport;
+  // Set when the answer came from the response cache instead of a model call
+  cachedAt?: number;
 }
 
 interface AnswerResponse {
   responseType: 'answer';
   approach: string;
   result: string;
+  cachedAt?: number;
 }
 
 interface RawResponse {
   responseType: 'raw';
   raw: string;
+  issues?: string;
 }
 
 type AIResponse = CodeResponse | AnswerResponse | RawResponse;
 
+// Whatever fields of the reply have arrived so far
+type StreamedResponse = Partial<Pick<CodeResponse, 'code' | 'timeComplexity' | 'spaceComplexity'> & Pick<AnswerResponse, 'approach' | 'result'>> & { responseType?: string };
+
 interface Config {
   apiKey: string;
   language: string;
+  uiLanguage?: Locale;
+  runLimits?: { timeoutMs?: number; memoryMb?: number; cpuSeconds?: number };
+  poolSize?: number;
+  benchmark?: boolean;
+}
+
+type RunStatus = 'ok' | 'error' | 'timeout' | 'memory_limit' | 'sandbox_violation';
+
+interface StressReport {
+  ok: boolean;
+  casesRun: number;
+  skipped: number;
+  counterexample?: { input: string; expected: string; actual: string; error?: MessageText };
+  error?: MessageText;
+}
+
+interface EdgeCaseResult {
+  description: string;
+  input: string;
+  expected?: string;
+  actual?: string;
+  status?: RunStatus;
+  verdict: 'ok' | 'crash' | 'timeout' | 'memory_limit' | 'sandbox_violation' | 'wrong' | 'skipped';
+  error?: MessageText;
+}
+
+interface BenchmarkReport {
+  points: { size: number; ms: number }[];
+  measured?: string;
+  claimed?: string;
+  warning?: MessageText;
+  error?: MessageText;
+}
+
+interface ExampleTest {
+  input: string | string[];
+  expected: string | string[];
+  actual?: string;
+  ok?: boolean;
+  status?: RunStatus;
+  error?: MessageText;
+  metrics?: RunMetrics;
+  transcript?: TranscriptEntry[];
+}
+
+interface TranscriptEntry {
+  from: 'judge' | 'solution';
+  text: string;
+}
+
+interface InteractiveResult {
+  ok: boolean;
+  status: RunStatus;
+  verdict: 'accepted' | 'wrong' | 'timeout' | 'crash' | 'judge_error';
+  message?: string;
+  transcript: TranscriptEntry[];
+  metrics?: RunMetrics;
 }
 
 interface WorkflowState {
-  currentStep: string;
+  currentStep: Message;
   progress: number; // 0-100
-  stepDetails: string;
-  error?: string;
+  stepDetails: Message;
+  error?: MessageText;
   extractedExamples?: number; // 提取到的例子数量
   parallelTasks?: Array<{
     id: number;
     status: 'pending' | 'running' | 'success' | 'failed';
     model: string;
-    error?: string;
+    error?: MessageText;
     testsPassed?: number;
     testsTotal?: number;
   }>;
+  repairAttempts?: Array<{
+    attempt: number;
+    status: 'running' | 'success' | 'failed';
+    testsPassed?: number;
+    testsTotal?: number;
+    results?: boolean[]; // 每个例子是否通过
+    error?: MessageText;
+  }>;
   completed?: boolean; // 是否已完成
+  cachedSteps?: string[]; // 命中缓存的步骤
 }
 
 declare global {
@@ -71,6 +163,7 @@ declare global {
       getConfig: () => Promise<Config | null>;
       saveConfig: (config: Config) => Promise<boolean>;
       onProcessingComplete: (callback: (result: string) => void) => void;
+      onProcessingStream: (callback: (delta: string) => void) => void;
       onScreenshotTaken: (callback: (data: Screenshot) => void) => void;
       onProcessingStarted: (callback: () => void) => void;
       onQueueReset: (callback: () => void) => void;
@@ -80,42 +173,97 @@ declare global {
       onProModeUpdated: (callback: (data: { enabled: boolean }) => void) => void;
       toggleProMode: () => void;
       onWorkflowProgress?: (callback: (state: WorkflowState) => void) => void;
+      onUsageUpdated: (callback: (update: UsageUpdate) => void) => void;
+      onToggleUsageHistory: (callback: () => void) => void;
+      getUsageHistory: () => Promise<UsageHistoryData>;
+      getModelList: () => Promise<{ currentIndex: number; current: string; models: ModelInfo[] }>;
+      fetchModels: (connection: { provider?: string; baseURL?: string; apiKey?: string }) => Promise<{ ok: boolean; models?: ModelInfo[]; error?: string }>;
       pythonLoad: (code: string) => Promise<{ id: number; ok: boolean; error?: string }>;
       pythonRun: (input?: string) => Promise<{ id: number; ok: boolean; stdout?: string; stderr?: string; error?: string }>;
+      runnerLoad: (code: string, signature?: object) => Promise<{ id: number; ok: boolean; codeId?: number; error?: string }>;
+      runnerRun: (input?: string | string[], codeId?: number) => Promise<{ id: number; ok: boolean; status?: RunStatus; stdout?: string; stderr?: string; error?: string; metrics?: RunMetrics }>;
+      runnerInteract: (code: string, judge: string, input?: string | string[]) => Promise<InteractiveResult>;
+      judgeOutput: (payload: { actual?: string; expected?: string | string[]; input?: string | string[]; compare?: CompareSpec }) => Promise<{ ok: boolean; message?: string }>;
       generateBuggyVariant: (payload: { code: string; approach?: string; modelOverride?: string }) => Promise<any>;
+      setMouseInteractive: (interactive: boolean) => void;
     };
   }
 }
 
+// Special-judge checkers run in the main process; every other mode is judged locally
+async function judgeTest(test: ExampleTest, spec: CompareSpec): Promise<{ ok: boolean; message?: string }> {
+  if (spec.mode === 'special' && spec.checker) {
+    return window.electron.judgeOutput({ actual: test.actual, expected: test.expected, input: test.input, compare: spec });
+  }
+  return { ok: compareOutput(test.actual, test.expected, spec) };
+}
+
+// Interactive problems are judged by running the judge against the solution, not by comparing output
+async function interactTest(code: string, judge: string, test: ExampleTest): Promise<ExampleTest> {
+  const res = await window.electron.runnerInteract(code, judge, test.input);
+  return {
+    ...test,
+    actual: '',
+    ok: res.ok,
+    status: res.status,
+    error: res.ok ? undefined : `${res.verdict}${res.message ? `: ${res.message}` : ''}`,
+    metrics: res.metrics,
+    transcript: res.transcript
+  };
+}
+
+interface CustomTest {
+  input: string;
+  expected: string;
+}
+
+// Custom tests belong to the current problem: they survive reprocessing and reloads
+// and are dropped when the screenshot queue is reset
+const CUSTOM_TESTS_KEY = 'customTests';
+
+function loadCustomTests(): CustomTest[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CUSTOM_TESTS_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter(t => t && typeof t.input === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
 const App: React.FC = () => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [result, setResult] = useState<AIResponse | null>(null);
   const [screenshots, setScreenshots] = useState<Screenshot[]>([]);
   const [showConfig, setShowConfig] = useState(false);
   const [config, setConfig] = useState<Config | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [modelName, setModelName] = useState<string>('openai/gpt-5-chat');
+  const [error, setError] = useState<MessageText | null>(null);
+  const [modelName, setModelName] = useState<string>('');
   const [proMode, setProMode] = useState<boolean>(false);
-  const [modelList, setModelList] = useState<string[]>([
-    'openai/gpt-5-chat',
-    'openai/o4-mini',
-    'openai/o4-mini-high',
-    'openai/o3'
-  ]);
-  const [exampleTests, setExampleTests] = useState<
-    { input: string | string[]; expected: string | string[]; actual?: string; ok?: boolean; error?: string }[] | null
-  >(null);
+  const [exampleTests, setExampleTests] = useState<ExampleTest[] | null>(null);
+  const [compareSpec, setCompareSpec] = useState<CompareSpec>(DEFAULT_COMPARE);
   const [buggyVariant, setBuggyVariant] = useState<
     | { pending: true }
     | { pending?: false; mistakeSummary?: string; edits?: { description: string; rationale: string }[]; buggyCode?: string; error?: string }
     | null
   >(null);
   const [workflowState, setWorkflowState] = useState<WorkflowState | null>(null);
+  const [customTests, setCustomTests] = useState<CustomTest[]>(loadCustomTests);
+  const [customResults, setCustomResults] = useState<ExampleTest[]>([]);
+  // Partial reply while it streams in; replaced by the final result on completion
+  const [streamed, setStreamed] = useState<StreamedResponse | null>(null);
+  const [usage, setUsage] = useState<UsageUpdate | null>(null);
+  const [showUsage, setShowUsage] = useState(false);
+  const [usageHistory, setUsageHistory] = useState<UsageHistoryData | null>(null);
+  const streamParser = useRef<IncrementalJsonParser | null>(null);
+  const locale = resolveLocale(config?.uiLanguage, navigator.language);
+  const t = useMemo(() => createTranslator(locale), [locale]);
 
   useEffect(() => {
     const loadConfig = async () => {
       const savedConfig = await window.electron.getConfig();
       setConfig(savedConfig);
+      const models = await window.electron.getModelList();
+      setModelName(models.current);
       if (!savedConfig) {
         setShowConfig(true);
       }
@@ -140,31 +288,97 @@ const App: React.FC = () => {
       setExampleTests(null);
       setBuggyVariant(null);
       setWorkflowState(null); // 重置workflow状态
+      streamParser.current = new IncrementalJsonParser();
+      setStreamed(null);
+    });
+
+    // Streamed reply text: approach and code fill in as they arrive
+    window.electron.onProcessingStream((delta) => {
+      const parser = streamParser.current;
+      if (!parser) return;
+      parser.push(delta);
+      const value = parser.value;
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        setStreamed({ ...(value as object) });
+      }
     });
 
+    const requestBuggyVariant = (codeResult: CodeResponse) => {
+      setBuggyVariant({ pending: true });
+      (async () => {
+        try {
+          const resp = await window.electron.generateBuggyVariant({ code: codeResult.code, approach: englishText(codeResult.approach) });
+          console.log('[Buggy] Received buggy variant:', resp);
+          setBuggyVariant({
+            pending: false,
+            mistakeSummary: resp?.mistakeSummary,
+            edits: resp?.edits,
+            buggyCode: resp?.buggyCode
+          });
+        } catch (e: any) {
+          console.error('[Buggy] Error generating variant:', e);
+          setBuggyVariant({ pending: false, error: e?.message || 'buggy variant error' });
+        }
+      })();
+    };
+
     // Listen for processing complete events
     window.electron.onProcessingComplete((resultStr) => {
       console.log('Processing complete. Result:', resultStr);
+      streamParser.current = null;
+      setStreamed(null);
       try {
         const parsedResult = JSON.parse(resultStr) as AIResponse;
+        // Failed requests come back as { error } with a message that says what to fix
+        const failure = (parsedResult as any).error;
+        if (!(parsedResult as any).responseType && (typeof failure === 'string' || isMessage(failure))) {
+          setError(failure);
+          setResult(null);
+          setIsProcessing(false);
+          return;
+        }
+        setError(null);
         setResult(parsedResult);
 
         if ((parsedResult as any).responseType === 'code') {
           const codeResult = parsedResult as CodeResponse;
-          if (Array.isArray(codeResult.examples) && codeResult.examples.length > 0) {
+          const spec = normalizeCompareSpec(codeResult.compare) || DEFAULT_COMPARE;
+          setCompareSpec(spec);
+          if (Array.isArray(codeResult.tests) && codeResult.tests.length > 0) {
+            // Pro workflow already ran the examples in the main process
+            console.log('[Examples] Using executed tests from workflow:', codeResult.tests);
+            setExampleTests(codeResult.tests);
+            if (codeResult.tests.every(t => t.ok === true)) {
+              requestBuggyVariant(codeResult);
+            } else {
+              setBuggyVariant(null);
+            }
+          } else if (Array.isArray(codeResult.examples) && codeResult.examples.length > 0 && spec.mode === 'interactive' && spec.judge) {
+            const judge = spec.judge;
+            const initial: ExampleTest[] = codeResult.examples.map(e => ({ input: e.input, expected: e.output }));
+            setExampleTests(initial);
+            (async () => {
+              const done = await Promise.all(initial.map(t => interactTest(codeResult.code, judge, t)
+                .catch((err: any) => ({ ...t, ok: false, error: err?.message || 'run error' }))));
+              setExampleTests(done);
+              if (done.every(t => t.ok)) {
+                requestBuggyVariant(codeResult);
+              }
+            })();
+          } else if (Array.isArray(codeResult.examples) && codeResult.examples.length > 0) {
             console.log('[Examples] Detected examples in AI response:', codeResult.examples);
             // Initialize as pending
             const initial = codeResult.examples.map(e => ({ input: e.input, expected: e.output }));
             setExampleTests(initial);
 
-            // Load code into python daemon first
+            // Load code into language runner first
             (async () => {
-              console.log('[Examples] Loading code into python daemon...');
-              const loadRes = await window.electron.pythonLoad(codeResult.code);
-              console.log('[Examples] pythonLoad result:', loadRes);
+              console.log('[Examples] Loading code into language runner...');
+              const loadRes = await window.electron.runnerLoad(codeResult.code, codeResult.signature);
+              console.log('[Examples] runnerLoad result:', loadRes);
               if (!loadRes || !loadRes.ok) {
-                const errMsg = loadRes?.error || 'pythonLoad failed';
-                console.error('[Examples] pythonLoad error:', errMsg);
+                const errMsg = loadRes?.error || 'runnerLoad failed';
+                console.error('[Examples] runnerLoad error:', errMsg);
                 setExampleTests(prev => (prev || []).map(t => ({ ...t, ok: false, error: errMsg })));
                 return;
               }
@@ -174,29 +388,33 @@ const App: React.FC = () => {
                 console.log(`[Examples] Running example #${idx}:`, ex);
                 // Convert input to string format for display and daemon processing
                 const inputForDaemon = Array.isArray(ex.input) ? ex.input.join('\n') : ex.input;
-                window.electron.pythonRun(inputForDaemon)
-                  .then(runRes => {
+                window.electron.runnerRun(inputForDaemon, loadRes.codeId)
+                  .then(async runRes => {
                     console.log(`[Examples] Result for #${idx}:`, runRes);
+                    const actualOut = (runRes?.stdout || '').replace(/\r\n/g, '\n');
+                    const verdict = runRes && runRes.ok
+                      ? await judgeTest({ input: ex.input, expected: ex.output, actual: actualOut }, spec)
+                      : null;
                     setExampleTests(prev => {
                       if (!prev) return prev;
                       const next = prev.slice();
-                      if (!runRes || !runRes.ok) {
+                      if (!runRes || !runRes.ok || !verdict) {
                         next[idx] = {
                           ...next[idx],
                           actual: runRes?.stdout ?? '',
                           ok: false,
-                          error: runRes?.error || 'pythonRun failed'
+                          status: runRes?.status,
+                          error: runRes?.error || 'runnerRun failed',
+                          metrics: runRes?.metrics
                         };
                       } else {
-                        const actualOut = (runRes.stdout || '').replace(/\r\n/g, '\n');
-                        // Handle different expected output formats
-                        const expectedOut = Array.isArray(ex.output) 
-                          ? ex.output.join('\n').replace(/\r\n/g, '\n')
-                          : (ex.output || '').replace(/\r\n/g, '\n');
                         next[idx] = {
                           ...next[idx],
                           actual: actualOut,
-                          ok: actualOut.trim() === expectedOut.trim()
+                          ok: verdict.ok,
+                          status: runRes.status || 'ok',
+                          error: verdict.ok ? undefined : verdict.message,
+                          metrics: runRes.metrics
                         };
                       }
                       // If all resolved and all ok, trigger buggy variant generation
@@ -204,22 +422,7 @@ const App: React.FC = () => {
                       const allOk = allResolved && next.every(t => t.ok);
                       if (allResolved && allOk) {
                         console.log('[Buggy] All examples passed. Generating buggy variant...');
-                        setBuggyVariant({ pending: true });
-                        (async () => {
-                          try {
-                            const resp = await (window.electron as any).generateBuggyVariant({ code: codeResult.code, approach: codeResult.approach });
-                            console.log('[Buggy] Received buggy variant:', resp);
-                            setBuggyVariant({
-                              pending: false,
-                              mistakeSummary: resp?.mistakeSummary,
-                              edits: resp?.edits,
-                              buggyCode: resp?.buggyCode
-                            });
-                          } catch (e: any) {
-                            console.error('[Buggy] Error generating variant:', e);
-                            setBuggyVariant({ pending: false, error: e?.message || 'buggy variant error' });
-                          }
-                        })();
+                        requestBuggyVariant(codeResult);
                       }
                       return next;
                     });
@@ -265,6 +468,9 @@ const App: React.FC = () => {
       console.log('Queue reset triggered');
       setScreenshots([]);
       setResult(null);
+      setCustomTests([]);
+      streamParser.current = null;
+      setStreamed(null);
     });
 
     // Listen for page scroll events from main (Option+Up/Down)
@@ -282,6 +488,10 @@ const App: React.FC = () => {
       setProMode(enabled);
     });
 
+    // Token usage and cost after every model call
+    window.electron.onUsageUpdated((update) => setUsage(update));
+    window.electron.onToggleUsageHistory(() => setShowUsage(shown => !shown));
+
     // Workflow progress events (Pro模式专用)
     window.electron.onWorkflowProgress?.((state: WorkflowState) => {
       setWorkflowState(state);
@@ -293,6 +503,12 @@ const App: React.FC = () => {
     };
   }, []);
 
+  // The history view follows new calls while it is open
+  useEffect(() => {
+    if (!showUsage) return;
+    window.electron.getUsageHistory().then(setUsageHistory).catch(() => setUsageHistory(null));
+  }, [showUsage, usage]);
+
   useEffect(() => {
     if (error) {
       const timer = setTimeout(() => {
@@ -312,11 +528,11 @@ const App: React.FC = () => {
         setShowConfig(false);
         setError(null);
       } else {
-        setError('Failed to save configuration');
+        setError(t('app.saveFailed'));
       }
     } catch (error: any) {
       console.error('Error saving configuration:', error);
-      setError(error?.message || 'Error saving configuration');
+      setError(error?.message || t('app.saveError'));
     }
   };
 
@@ -333,6 +549,98 @@ const App: React.FC = () => {
     console.log('[Buggy] State update:', buggyVariant);
   }, [buggyVariant]);
 
+  useEffect(() => {
+    localStorage.setItem(CUSTOM_TESTS_KEY, JSON.stringify(customTests));
+  }, [customTests]);
+
+  // Re-run the custom tests whenever the displayed code, the tests or the comparison change
+  const codeResult = result && result.responseType === 'code' ? result : null;
+  useEffect(() => {
+    const pending: ExampleTest[] = customTests.map(t => ({ input: t.input, expected: t.expected }));
+    setCustomResults(pending);
+    if (!codeResult || customTests.length === 0) return;
+
+    let cancelled = false;
+    const update = (idx: number, test: ExampleTest) => {
+      if (cancelled) return;
+      setCustomResults(prev => {
+        const next = prev.slice();
+        next[idx] = test;
+        return next;
+      });
+    };
+    if (compareSpec.mode === 'interactive' && compareSpec.judge) {
+      const judge = compareSpec.judge;
+      pending.forEach(async (t, idx) => {
+        try {
+          update(idx, await interactTest(codeResult.code, judge, t));
+        } catch (err: any) {
+          update(idx, { ...t, ok: false, error: err?.message || 'run error' });
+        }
+      });
+      return () => {
+        cancelled = true;
+      };
+    }
+    (async () => {
+      const loadRes = await window.electron.runnerLoad(codeResult.code, codeResult.signature);
+      if (cancelled) return;
+      if (!loadRes || !loadRes.ok) {
+        const errMsg = loadRes?.error || 'runnerLoad failed';
+        setCustomResults(pending.map(t => ({ ...t, actual: '', ok: false, status: 'error' as const, error: errMsg })));
+        return;
+      }
+      customTests.forEach(async (t, idx) => {
+        try {
+          const runRes = await window.electron.runnerRun(t.input, loadRes.codeId);
+          const actual = (runRes?.stdout || '').replace(/\r\n/g, '\n');
+          if (!runRes || !runRes.ok) {
+            update(idx, { ...pending[idx], actual, ok: false, status: runRes?.status, error: runRes?.error || 'runnerRun failed', metrics: runRes?.metrics });
+            return;
+          }
+          // Without an expected output the case only shows what the program prints
+          const verdict = t.expected === '' ? { ok: true } : await judgeTest({ ...pending[idx], actual }, compareSpec);
+          update(idx, { ...pending[idx], actual, ok: verdict.ok, status: runRes.status, error: verdict.ok ? undefined : verdict.message, metrics: runRes.metrics });
+        } catch (err: any) {
+          update(idx, { ...pending[idx], ok: false, error: err?.message || 'run error' });
+        }
+      });
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [codeResult?.code, customTests, compareSpec]);
+
+  const handleAddCustomTests = (tests: CustomTest[]) => {
+    setCustomTests(prev => [...prev, ...tests]);
+  };
+
+  const handleRemoveCustomTest = (index: number) => {
+    setCustomTests(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // Re-judge the finished runs when the comparison mode is changed in the result panel
+  const handleCompareChange = async (spec: CompareSpec) => {
+    setCompareSpec(spec);
+    if (!exampleTests) return;
+    // A new or edited judge means running the exchange again
+    if (spec.mode === 'interactive') {
+      if (!spec.judge || !codeResult) return;
+      const judge = spec.judge;
+      const code = codeResult.code;
+      setExampleTests(exampleTests.map(t => ({ input: t.input, expected: t.expected })));
+      setExampleTests(await Promise.all(exampleTests.map(t => interactTest(code, judge, { input: t.input, expected: t.expected })
+        .catch((err: any) => ({ input: t.input, expected: t.expected, ok: false, error: err?.message || 'run error' })))));
+      return;
+    }
+    const judged = await Promise.all(exampleTests.map(async t => {
+      if (t.status !== 'ok') return t;
+      const verdict = await judgeTest(t, spec);
+      return { ...t, ok: verdict.ok, error: verdict.ok ? undefined : verdict.message };
+    }));
+    setExampleTests(judged);
+  };
+
   const formatCode = (code: string) => {
     return code.split('\n').map((line, index) => (
       <div key={index} className="code-line">
@@ -343,108 +651,152 @@ const App: React.FC = () => {
   };
 
   return (
-    <div className="app">
-      {error && (
-        <div className="error-bar">
-          <span>{error}</span>
-          <button onClick={() => setError(null)}>&times;</button>
-        </div>
-      )}
-      {showConfig && (
-        <ConfigScreen
-          onSave={handleConfigSave}
-          initialConfig={config || undefined}
-        />
-      )}
-      
-      {/* Preview Row */}
-      <div className="shortcuts-row">
-        <div className="shortcut"><code>Model:</code> {modelName}</div>
-        <div className="shortcut"><code>Pro:</code> {proMode ? 'On' : 'Off'}</div>
-        <div className="shortcut"><code>fn + C</code> Screenshot</div>
-        <div className="shortcut"><code>fn + ↵</code> Solution</div>
-        <div className="shortcut"><code>fn + R</code> Reset</div>
-        <div className="hover-shortcuts">
-          <div className="hover-shortcuts-content">
-            <div className="shortcut"><code>fn + 1/2/3/4</code> Switch Model</div>
-            <div className="shortcut"><code>fn + `</code> Toggle Pro Mode</div>
-            <div className="shortcut"><code>fn + P</code> Settings</div>
-            <div className="shortcut"><code>fn + Q</code> Quit</div>
-            <div className="shortcut"><code>fn + ⇧ + Arrow Keys</code> Move Around</div>
-            <div className="shortcut"><code>fn + ↑/↓</code> Page</div>
-            <div className="shortcut"><code>fn + H</code> Show/Hide</div>
+    <I18nProvider locale={locale}>
+      <div className="app">
+        {error && (
+          <div className="error-bar">
+            <span>{displayText(t, error)}</span>
+            <button onClick={() => setError(null)}>&times;</button>
           </div>
-        </div>
-      </div>
-      <div className="preview-row">
-        {screenshots.map(screenshot => (
-          <div key={screenshot.id} className="preview-item">
-            <img src={screenshot.preview} alt="Screenshot preview" />
+        )}
+        {showConfig && (
+          <ConfigScreen
+            onSave={handleConfigSave}
+            initialConfig={config || undefined}
+          />
+        )}
+        
+        {/* Preview Row */}
+        <div className="shortcuts-row">
+          <div className="shortcut"><code>{t('shortcuts.model')}</code> {modelName}</div>
+          <div className="shortcut"><code>{t('shortcuts.pro')}</code> {proMode ? t('shortcuts.on') : t('shortcuts.off')}</div>
+          <div className="shortcut"><code>fn + C</code> {t('shortcuts.screenshot')}</div>
+          <div className="shortcut"><code>fn + ↵</code> {t('shortcuts.solution')}</div>
+          <div className="shortcut"><code>fn + R</code> {t('shortcuts.reset')}</div>
+          <div className="hover-shortcuts">
+            <div className="hover-shortcuts-content">
+              <div className="shortcut"><code>fn + 1/2/3/4</code> {t('shortcuts.switchModel')}</div>
+              <div className="shortcut"><code>fn + `</code> {t('shortcuts.togglePro')}</div>
+              <div className="shortcut"><code>fn + P</code> {t('shortcuts.settings')}</div>
+              <div className="shortcut"><code>fn + Q</code> {t('shortcuts.quit')}</div>
+              <div className="shortcut"><code>fn + ⇧ + Arrow Keys</code> {t('shortcuts.move')}</div>
+              <div className="shortcut"><code>fn + ↑/↓</code> {t('shortcuts.page')}</div>
+              <div className="shortcut"><code>fn + H</code> {t('shortcuts.showHide')}</div>
+            </div>
           </div>
-        ))}
-      </div>
+        </div>
+        <div className="preview-row">
+          {screenshots.map(screenshot => (
+            <div key={screenshot.id} className="preview-item">
+              <img src={screenshot.preview} alt={t('app.screenshotPreview')} />
+            </div>
+          ))}
+        </div>
 
-      {/* Workflow Progress - Pro模式下显示，完成后也保持可见 */}
-      <WorkflowProgress 
-        state={workflowState} 
-        visible={proMode && (isProcessing || (workflowState?.completed === true))} 
-      />
-      
-      {/* Status Row */}
-      <div className="status-row">
-        {isProcessing ? (
-          <div className="processing">
-            {proMode ? 'Agent Workflow 运行中...' : `Processing... (${screenshots.length} screenshots)`}
-          </div>
-        ) : result ? (
-          Array.isArray((result as any).results) && (result as any).pro ? (
-            <div style={{ display: 'flex', gap: 12 }}>
-              {(result as any).results.map((r: any, idx: number) => (
-                <div key={idx} style={{ flex: 1, minWidth: 0 }}>
-                  {r.ok ? (
-                    r.data.responseType === 'code' ? (
-                      <CodeResult
-                        approach={r.data.approach}
-                        code={r.data.code}
-                        timeComplexity={r.data.timeComplexity}
-                        spaceComplexity={r.data.spaceComplexity}
-                        tests={exampleTests || undefined}
-                        buggy={buggyVariant || undefined}
-                      />
-                    ) : r.data.responseType === 'answer' ? (
-                      <AnswerResult result={r.data.result} approach={r.data.approach} />
-                    ) : (
-                      <RawResult raw={r.data.raw} />
-                    )
-                  ) : (
-                    <RawResult raw={r.error || 'error'} />
-                  )}
-                </div>
-              ))}
+        {/* Workflow Progress - Pro模式下显示，完成后也保持可见 */}
+        <WorkflowProgress 
+          state={workflowState} 
+          visible={proMode && (isProcessing || (workflowState?.completed === true))} 
+        />
+        
+        <UsageHistory history={usageHistory} visible={showUsage} />
+
+        {/* Status Row */}
+        <div className="status-row">
+          {usage && (usage.run || usage.today) && (
+            <div className="usage-line">
+              {usage.run && t(isProcessing ? 'app.usage.thisRun' : 'app.usage.lastRun', { usage: formatUsage(usage.run) })}
+              {usage.run && usage.today && ' · '}
+              {usage.today && t('app.usage.today', { cost: formatCost(usage.today) })}
             </div>
-          ) : result.responseType === 'code' ? (
-            <CodeResult
-              approach={result.approach}
-              code={result.code}
-              timeComplexity={result.timeComplexity}
-              spaceComplexity={result.spaceComplexity}
-              tests={exampleTests || undefined}
-              buggy={buggyVariant || undefined}
-            />
-          ) : result.responseType === 'answer' ? (
-            <AnswerResult result={result.result} approach={result.approach} />
+          )}
+          {isProcessing ? (
+            !proMode && streamed && (streamed.approach || streamed.code || streamed.result) ? (
+              <>
+                <div className="processing">{t('app.streaming', { count: screenshots.length })}</div>
+                {streamed.responseType === 'answer' ? (
+                  <AnswerResult result={streamed.result || ''} approach={streamed.approach || ''} />
+                ) : (
+                  <CodeResult
+                    approach={streamed.approach || ''}
+                    code={streamed.code || ''}
+                    timeComplexity={streamed.timeComplexity || '...'}
+                    spaceComplexity={streamed.spaceComplexity || '...'}
+                    streaming
+                  />
+                )}
+              </>
+            ) : (
+              <div className="processing">
+                {proMode ? t('app.workflowRunning') : t('app.processing', { count: screenshots.length })}
+              </div>
+            )
+          ) : result ? (
+            <>
+              {(result as any).cachedAt && (
+                <div className="cache-hit">
+                  {t('app.cacheHit', { time: new Date((result as any).cachedAt).toLocaleString(locale) })}
+                </div>
+              )}
+              {Array.isArray((result as any).results) && (result as any).pro ? (
+                <div style={{ display: 'flex', gap: 12 }}>
+                  {(result as any).results.map((r: any, idx: number) => (
+                    <div key={idx} style={{ flex: 1, minWidth: 0 }}>
+                      {r.ok ? (
+                        r.data.responseType === 'code' ? (
+                          <CodeResult
+                            approach={r.data.approach}
+                            code={r.data.code}
+                            timeComplexity={r.data.timeComplexity}
+                            spaceComplexity={r.data.spaceComplexity}
+                            tests={exampleTests || undefined}
+                            buggy={buggyVariant || undefined}
+                          />
+                        ) : r.data.responseType === 'answer' ? (
+                          <AnswerResult result={r.data.result} approach={r.data.approach} />
+                        ) : (
+                          <RawResult raw={r.data.raw} issues={r.data.issues} />
+                        )
+                      ) : (
+                        <RawResult raw={r.error || 'error'} />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : result.responseType === 'code' ? (
+                <CodeResult
+                  approach={result.approach}
+                  code={result.code}
+                  timeComplexity={result.timeComplexity}
+                  spaceComplexity={result.spaceComplexity}
+                  tests={exampleTests || undefined}
+                  buggy={buggyVariant || undefined}
+                  compare={compareSpec}
+                  onCompareChange={handleCompareChange}
+                  customTests={customResults}
+                  onAddCustomTests={handleAddCustomTests}
+                  onRemoveCustomTest={handleRemoveCustomTest}
+                  stress={result.stress}
+                  edgeCases={result.edgeCases}
+                  edgeCaseError={result.edgeCaseError}
+                  benchmark={result.benchmark}
+                />
+              ) : result.responseType === 'answer' ? (
+                <AnswerResult result={result.result} approach={result.approach} />
+              ) : (
+                <RawResult raw={result.raw} issues={result.issues} />
+              )}
+            </>
           ) : (
-            <RawResult raw={result.raw} />
-          )
-        ) : (
-          <div className="empty-status">
-            {screenshots.length > 0 
-              ? `Press ⌘/Ctrl + ↵ to process ${screenshots.length} screenshot${screenshots.length > 1 ? 's' : ''}`
-              : 'Press ⌘/Ctrl + H to take a screenshot'}
-          </div>
-        )}
+            <div className="empty-status">
+              {screenshots.length > 0 
+                ? t('app.pressProcess', { count: screenshots.length })
+                : t('app.pressScreenshot')}
+            </div>
+          )}
+        </div>
       </div>
-    </div>
+    </I18nProvider>
   );
 };
 
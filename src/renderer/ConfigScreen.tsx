@@ -1,36 +1,224 @@
 import React, { useState, useEffect } from 'react';
 import './ConfigScreen.css';
+import { PROVIDER_DEFAULTS, PROVIDER_KINDS, ProviderKind, normalizeProviderKind } from '../shared/providers';
+import { PriceTable } from '../shared/usage';
+import { DEFAULT_EXPLANATION_LANGUAGE, EXPLANATION_LANGUAGES } from '../shared/prompts';
+import { LOCALES, LOCALE_LABELS, Locale } from '../shared/i18n';
+import { DEFAULT_MODELS, ModelInfo, findModel, normalizeModels } from '../shared/models';
+import { DEFAULT_ROUTES, RoutingTable, WORKFLOW_ROLES, WorkflowRole, normalizeRouting } from '../shared/routing';
+import { useT } from './i18n';
+
+export interface ConfigValues {
+  apiKey: string;
+  language: string;
+  explanationLanguage?: string;
+  uiLanguage?: Locale; // unset follows the system language
+  provider?: ProviderKind;
+  baseURL?: string;
+  model?: string;
+  runLimits?: { timeoutMs?: number; memoryMb?: number; cpuSeconds?: number };
+  poolSize?: number;
+  benchmark?: boolean;
+  responseCache?: { enabled?: boolean; ttlHours?: number; maxMb?: number };
+  prices?: PriceTable; // older configs; moved into the registry on save
+  models?: ModelInfo[];
+  routing?: RoutingTable; // pro mode: model and parameters per workflow step
+  sandbox?: {
+    enabled?: boolean;
+    allowNetwork?: boolean;
+    allowSubprocess?: boolean;
+    allowFilesystem?: boolean;
+    wrapper?: 'none' | 'unshare' | 'bwrap';
+  };
+}
+
+// A registry entry while it is edited: numbers stay as typed until saved
+interface ModelRow {
+  id: string;
+  provider: ProviderKind;
+  vision: boolean;
+  jsonMode: boolean;
+  context: string;
+  input: string;
+  output: string;
+}
+
+function toRow(model: ModelInfo): ModelRow {
+  return {
+    id: model.id,
+    provider: model.provider,
+    vision: model.vision,
+    jsonMode: model.jsonMode,
+    context: model.contextTokens ? String(model.contextTokens) : '',
+    input: model.price ? String(model.price.input) : '',
+    output: model.price ? String(model.price.output) : ''
+  };
+}
+
+// Prices from older configs go onto the matching entry, or become an entry for the configured backend
+function initialRows(config?: ConfigValues): ModelRow[] {
+  const models = (config?.models || DEFAULT_MODELS).map(model => ({ ...model }));
+  for (const [id, price] of Object.entries(config?.prices || {})) {
+    const model = findModel(models, id);
+    if (model) {
+      model.price = price;
+    } else {
+      models.push({ id, provider: normalizeProviderKind(config?.provider), vision: true, jsonMode: true, price });
+    }
+  }
+  return models.map(toRow);
+}
+
+function fromRows(rows: ModelRow[]): ModelInfo[] {
+  return normalizeModels(rows.map(row => ({
+    id: row.id,
+    provider: row.provider,
+    vision: row.vision,
+    jsonMode: row.jsonMode,
+    contextTokens: row.context,
+    price: { input: row.input, output: row.output }
+  }))) || [];
+}
+
+// Empty fields fall back to the role's default, shown as the placeholder
+type RoutingRows = Record<WorkflowRole, { model: string; temperature: string; maxTokens: string }>;
+
+function toRoutingRows(routing?: RoutingTable): RoutingRows {
+  const rows = {} as RoutingRows;
+  for (const role of WORKFLOW_ROLES) {
+    const route = routing?.[role];
+    rows[role] = {
+      model: route?.model || '',
+      temperature: route?.temperature !== undefined ? String(route.temperature) : '',
+      maxTokens: route?.maxTokens !== undefined ? String(route.maxTokens) : ''
+    };
+  }
+  return rows;
+}
 
 interface ConfigProps {
-  onSave: (config: { apiKey: string; language: string }) => void;
-  initialConfig?: { apiKey: string; language: string };
+  onSave: (config: ConfigValues) => void;
+  initialConfig?: ConfigValues;
 }
 
 const ConfigScreen: React.FC<ConfigProps> = ({ onSave, initialConfig }) => {
+  const t = useT();
+  const [provider, setProvider] = useState<ProviderKind>(normalizeProviderKind(initialConfig?.provider));
+  const [baseURL, setBaseURL] = useState(initialConfig?.baseURL || '');
+  const [model, setModel] = useState(initialConfig?.model || '');
   const [apiKey, setApiKey] = useState(initialConfig?.apiKey || '');
   const [language, setLanguage] = useState(initialConfig?.language || 'Python');
+  const [explanationLanguage, setExplanationLanguage] = useState(initialConfig?.explanationLanguage || DEFAULT_EXPLANATION_LANGUAGE);
+  const [uiLanguage, setUiLanguage] = useState<Locale | ''>(initialConfig?.uiLanguage || '');
   const [showApiKey, setShowApiKey] = useState(false);
+  const [timeoutSec, setTimeoutSec] = useState(String((initialConfig?.runLimits?.timeoutMs ?? 10000) / 1000));
+  const [memoryMb, setMemoryMb] = useState(String(initialConfig?.runLimits?.memoryMb ?? 512));
+  const [cpuSeconds, setCpuSeconds] = useState(String(initialConfig?.runLimits?.cpuSeconds ?? 10));
+  const [poolSize, setPoolSize] = useState(initialConfig?.poolSize ? String(initialConfig.poolSize) : '');
+  const [benchmark, setBenchmark] = useState(initialConfig?.benchmark === true);
+  const [cacheEnabled, setCacheEnabled] = useState(initialConfig?.responseCache?.enabled !== false);
+  const [cacheTtlHours, setCacheTtlHours] = useState(String(initialConfig?.responseCache?.ttlHours ?? 168));
+  const [cacheMaxMb, setCacheMaxMb] = useState(String(initialConfig?.responseCache?.maxMb ?? 50));
+  const [models, setModels] = useState<ModelRow[]>(() => initialRows(initialConfig));
+  const [listed, setListed] = useState<ModelInfo[]>([]);
+  const [fetching, setFetching] = useState(false);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+  const [routing, setRouting] = useState<RoutingRows>(() => toRoutingRows(initialConfig?.routing));
+  const [sandbox, setSandbox] = useState({
+    enabled: initialConfig?.sandbox?.enabled !== false,
+    allowNetwork: initialConfig?.sandbox?.allowNetwork === true,
+    allowSubprocess: initialConfig?.sandbox?.allowSubprocess === true,
+    allowFilesystem: initialConfig?.sandbox?.allowFilesystem === true,
+    wrapper: initialConfig?.sandbox?.wrapper || 'none'
+  });
+
+  const updateModel = (index: number, change: Partial<ModelRow>) => {
+    setModels(rows => rows.map((row, i) => i === index ? { ...row, ...change } : row));
+  };
+
+  const addModel = (model?: ModelInfo) => {
+    setModels(rows => [...rows, model ? toRow(model) : toRow({ id: '', provider, vision: true, jsonMode: true })]);
+  };
+
+  // Lists the endpoint's models with the connection settings as currently entered
+  const handleFetchModels = async () => {
+    setFetching(true);
+    setFetchError(null);
+    try {
+      const res = await window.electron.fetchModels({ provider, baseURL: baseURL.trim() || undefined, apiKey: apiKey.trim() });
+      if (res.ok) {
+        setListed(res.models || []);
+      } else {
+        setFetchError(res.error || '');
+      }
+    } catch (error: any) {
+      setFetchError(error?.message || String(error));
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  const updateRoute = (role: WorkflowRole, change: Partial<RoutingRows[WorkflowRole]>) => {
+    setRouting(rows => ({ ...rows, [role]: { ...rows[role], ...change } }));
+  };
+
+  const unlisted = listed.filter(model => model.provider === provider && !models.some(row => row.provider === provider && row.id === model.id));
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSave({ apiKey: apiKey.trim(), language });
+    onSave({
+      apiKey: apiKey.trim(),
+      language,
+      explanationLanguage,
+      uiLanguage: uiLanguage || undefined,
+      provider,
+      baseURL: baseURL.trim() || undefined,
+      model: model.trim() || undefined,
+      runLimits: {
+        timeoutMs: Math.max(0, Math.round(parseFloat(timeoutSec) * 1000) || 0),
+        memoryMb: Math.max(0, parseInt(memoryMb, 10) || 0),
+        cpuSeconds: Math.max(0, parseInt(cpuSeconds, 10) || 0)
+      },
+      poolSize: parseInt(poolSize, 10) > 0 ? parseInt(poolSize, 10) : undefined,
+      benchmark,
+      responseCache: {
+        enabled: cacheEnabled,
+        ttlHours: Math.max(0, parseFloat(cacheTtlHours) || 0),
+        maxMb: Math.max(0, parseFloat(cacheMaxMb) || 0)
+      },
+      models: fromRows(models),
+      routing: normalizeRouting(routing),
+      sandbox
+    });
   };
 
   return (
     <div className="config-screen">
       <div className="config-container">
-        <h2>Configuration</h2>
+        <h2>{t('config.title')}</h2>
         <form onSubmit={handleSubmit}>
           <div className="form-group">
-            <label htmlFor="apiKey">OpenAI API Key</label>
+            <label htmlFor="provider">{t('config.provider')}</label>
+            <select
+              id="provider"
+              value={provider}
+              onChange={(e) => setProvider(e.target.value as ProviderKind)}
+            >
+              {PROVIDER_KINDS.map(kind => (
+                <option key={kind} value={kind}>{PROVIDER_DEFAULTS[kind].label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="apiKey">{t('config.apiKey')}{PROVIDER_DEFAULTS[provider].requiresApiKey ? '' : t('config.optional')}</label>
             <div className="api-key-input">
               <input
                 type={showApiKey ? "text" : "password"}
                 id="apiKey"
                 value={apiKey}
                 onChange={(e) => setApiKey(e.target.value)}
-                required
-                placeholder="sk-..."
+                required={PROVIDER_DEFAULTS[provider].requiresApiKey}
+                placeholder={provider === 'anthropic' ? 'sk-ant-...' : 'sk-...'}
                 spellCheck="false"
                 autoComplete="off"
               />
@@ -39,12 +227,38 @@ const ConfigScreen: React.FC<ConfigProps> = ({ onSave, initialConfig }) => {
                 className="toggle-visibility"
                 onClick={() => setShowApiKey(!showApiKey)}
               >
-                {showApiKey ? 'Hide' : 'Show'}
+                {showApiKey ? t('config.hide') : t('config.show')}
               </button>
             </div>
           </div>
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="baseURL">{t('config.baseURL')}</label>
+              <input
+                type="text"
+                id="baseURL"
+                className="text-input"
+                value={baseURL}
+                onChange={(e) => setBaseURL(e.target.value)}
+                placeholder={PROVIDER_DEFAULTS[provider].baseURL}
+                spellCheck="false"
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="model">{t('config.model')}</label>
+              <input
+                type="text"
+                id="model"
+                className="text-input"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                placeholder={PROVIDER_DEFAULTS[provider].model || t('config.modelDefault')}
+                spellCheck="false"
+              />
+            </div>
+          </div>
           <div className="form-group">
-            <label htmlFor="language">Preferred Language</label>
+            <label htmlFor="language">{t('config.language')}</label>
             <select
               id="language"
               value={language}
@@ -61,9 +275,288 @@ const ConfigScreen: React.FC<ConfigProps> = ({ onSave, initialConfig }) => {
               <option value="Rust">Rust</option>
             </select>
           </div>
+          <div className="form-group">
+            <label htmlFor="explanationLanguage">{t('config.explanationLanguage')}</label>
+            <select
+              id="explanationLanguage"
+              value={explanationLanguage}
+              onChange={(e) => setExplanationLanguage(e.target.value)}
+            >
+              {EXPLANATION_LANGUAGES.map(lang => (
+                <option key={lang} value={lang}>{lang}</option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="uiLanguage">{t('config.uiLanguage')}</label>
+            <select
+              id="uiLanguage"
+              value={uiLanguage}
+              onChange={(e) => setUiLanguage(e.target.value as Locale | '')}
+            >
+              <option value="">{t('config.uiLanguageSystem')}</option>
+              {LOCALES.map(locale => (
+                <option key={locale} value={locale}>{LOCALE_LABELS[locale]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="timeoutSec">{t('config.timeout')}</label>
+              <input
+                type="number"
+                id="timeoutSec"
+                min="0"
+                step="0.5"
+                value={timeoutSec}
+                onChange={(e) => setTimeoutSec(e.target.value)}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="cpuSeconds">{t('config.cpu')}</label>
+              <input
+                type="number"
+                id="cpuSeconds"
+                min="0"
+                value={cpuSeconds}
+                onChange={(e) => setCpuSeconds(e.target.value)}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="memoryMb">{t('config.memory')}</label>
+              <input
+                type="number"
+                id="memoryMb"
+                min="0"
+                value={memoryMb}
+                onChange={(e) => setMemoryMb(e.target.value)}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="poolSize">{t('config.poolSize')}</label>
+              <input
+                type="number"
+                id="poolSize"
+                min="1"
+                placeholder={t('config.poolSizeAuto')}
+                value={poolSize}
+                onChange={(e) => setPoolSize(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="form-group">
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={benchmark}
+                onChange={(e) => setBenchmark(e.target.checked)}
+              />
+              {t('config.benchmark')}
+            </label>
+          </div>
+          <div className="form-group">
+            <label>{t('config.models')}</label>
+            <div className="model-registry">
+              <div className="model-row model-row-header">
+                <span className="model-id">{t('config.models.id')}</span>
+                <span>{t('config.models.vision')}</span>
+                <span>{t('config.models.json')}</span>
+                <span>{t('config.models.context')}</span>
+                <span>{t('config.models.input')}</span>
+                <span>{t('config.models.output')}</span>
+                <span />
+              </div>
+              {/* Entries of other backends are kept but only the selected backend's are shown */}
+              {models.map((row, index) => row.provider === provider && (
+                <div key={index} className="model-row">
+                  <input
+                    type="text"
+                    className="text-input model-id"
+                    value={row.id}
+                    onChange={(e) => updateModel(index, { id: e.target.value })}
+                    spellCheck="false"
+                  />
+                  <input
+                    type="checkbox"
+                    checked={row.vision}
+                    title={t('config.models.vision')}
+                    onChange={(e) => updateModel(index, { vision: e.target.checked })}
+                  />
+                  <input
+                    type="checkbox"
+                    checked={row.jsonMode}
+                    title={t('config.models.json')}
+                    onChange={(e) => updateModel(index, { jsonMode: e.target.checked })}
+                  />
+                  <input type="number" min="0" value={row.context} onChange={(e) => updateModel(index, { context: e.target.value })} />
+                  <input type="number" min="0" step="any" value={row.input} onChange={(e) => updateModel(index, { input: e.target.value })} />
+                  <input type="number" min="0" step="any" value={row.output} onChange={(e) => updateModel(index, { output: e.target.value })} />
+                  <button
+                    type="button"
+                    className="model-remove"
+                    title={t('config.models.remove')}
+                    onClick={() => setModels(rows => rows.filter((_, i) => i !== index))}
+                  >
+                    &times;
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="model-actions">
+              <button type="button" onClick={() => addModel()}>{t('config.models.add')}</button>
+              <button type="button" onClick={handleFetchModels} disabled={fetching}>
+                {fetching ? t('config.models.fetching') : t('config.models.fetch')}
+              </button>
+            </div>
+            {unlisted.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => {
+                  const model = unlisted.find(m => m.id === e.target.value);
+                  if (model) addModel(model);
+                }}
+              >
+                <option value="">{t('config.models.pick', { count: unlisted.length })}</option>
+                {unlisted.map(model => (
+                  <option key={model.id} value={model.id}>{model.id}</option>
+                ))}
+              </select>
+            )}
+            {fetchError !== null && <div className="model-error">{t('config.models.fetchError', { error: fetchError })}</div>}
+            <div className="form-hint">{t('config.models.hint')}</div>
+          </div>
+          <div className="form-group">
+            <label>{t('config.routing')}</label>
+            <div className="model-registry">
+              <div className="routing-row model-row-header">
+                <span />
+                <span>{t('config.routing.model')}</span>
+                <span>{t('config.routing.temperature')}</span>
+                <span>{t('config.routing.maxTokens')}</span>
+              </div>
+              {WORKFLOW_ROLES.map(role => (
+                <div key={role} className="routing-row">
+                  <span className="routing-role">{t(`role.${role}` as const)}</span>
+                  <input
+                    type="text"
+                    className="text-input"
+                    list="routing-models"
+                    placeholder={DEFAULT_ROUTES[role].model}
+                    value={routing[role].model}
+                    onChange={(e) => updateRoute(role, { model: e.target.value })}
+                    spellCheck="false"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    max="2"
+                    step="0.1"
+                    placeholder={String(DEFAULT_ROUTES[role].temperature)}
+                    value={routing[role].temperature}
+                    onChange={(e) => updateRoute(role, { temperature: e.target.value })}
+                  />
+                  <input
+                    type="number"
+                    min="1"
+                    placeholder={String(DEFAULT_ROUTES[role].maxTokens)}
+                    value={routing[role].maxTokens}
+                    onChange={(e) => updateRoute(role, { maxTokens: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+            <datalist id="routing-models">
+              {models.filter(row => row.provider === provider && row.id.trim()).map((row, index) => (
+                <option key={index} value={row.id.trim()} />
+              ))}
+            </datalist>
+            <div className="form-hint">{t('config.routing.hint')}</div>
+          </div>
+          <div className="form-group">
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={cacheEnabled}
+                onChange={(e) => setCacheEnabled(e.target.checked)}
+              />
+              {t('config.cache')}
+            </label>
+            {cacheEnabled && (
+              <div className="form-row">
+                <div className="form-group">
+                  <label htmlFor="cacheTtlHours">{t('config.cacheTtl')}</label>
+                  <input
+                    type="number"
+                    id="cacheTtlHours"
+                    min="0"
+                    value={cacheTtlHours}
+                    onChange={(e) => setCacheTtlHours(e.target.value)}
+                  />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="cacheMaxMb">{t('config.cacheSize')}</label>
+                  <input
+                    type="number"
+                    id="cacheMaxMb"
+                    min="0"
+                    value={cacheMaxMb}
+                    onChange={(e) => setCacheMaxMb(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+          <div className="form-group">
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={sandbox.enabled}
+                onChange={(e) => setSandbox({ ...sandbox, enabled: e.target.checked })}
+              />
+              {t('config.sandbox')}
+            </label>
+            {sandbox.enabled && (
+              <div className="sandbox-options">
+                <label className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={sandbox.allowNetwork}
+                    onChange={(e) => setSandbox({ ...sandbox, allowNetwork: e.target.checked })}
+                  />
+                  {t('config.allowNetwork')}
+                </label>
+                <label className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={sandbox.allowSubprocess}
+                    onChange={(e) => setSandbox({ ...sandbox, allowSubprocess: e.target.checked })}
+                  />
+                  {t('config.allowSubprocess')}
+                </label>
+                <label className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={sandbox.allowFilesystem}
+                    onChange={(e) => setSandbox({ ...sandbox, allowFilesystem: e.target.checked })}
+                  />
+                  {t('config.allowFilesystem')}
+                </label>
+                <label htmlFor="sandboxWrapper">{t('config.wrapper')}</label>
+                <select
+                  id="sandboxWrapper"
+                  value={sandbox.wrapper}
+                  onChange={(e) => setSandbox({ ...sandbox, wrapper: e.target.value as 'none' | 'unshare' | 'bwrap' })}
+                >
+                  <option value="none">{t('config.wrapper.none')}</option>
+                  <option value="unshare">{t('config.wrapper.unshare')}</option>
+                  <option value="bwrap">{t('config.wrapper.bwrap')}</option>
+                </select>
+              </div>
+            )}
+          </div>
           <div className="form-actions">
             <button type="submit" className="save-button">
-              Save Configuration
+              {t('config.save')}
             </button>
           </div>
         </form>
@@ -1,4 +1,5 @@
 import React from 'react';
+import { useT } from '../i18n';
 
 interface Props {
 	approach: string;
@@ -6,14 +7,15 @@ interface Props {
 }
 
 const AnswerResult: React.FC<Props> = ({ result, approach }) => {
+	const t = useT();
 	return (
 		<div className="result">
 			<div className="solution-section">
-				<h3>Answer</h3>
+				<h3>{t('result.answer')}</h3>
 				<p>{result}</p>
 			</div>
 			<div className="solution-section">
-				<h3>Approach</h3>
+				<h3>{t('result.approach')}</h3>
 				<p>{approach}</p>
 			</div>
 		</div>
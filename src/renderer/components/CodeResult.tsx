@@ -1,11 +1,15 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
+import { COMPARE_MODES, CompareMode, CompareSpec } from '../../shared/comparator';
+import { RunMetrics, formatMetrics } from '../../shared/metrics';
+import { MessageText, displayText } from '../../shared/i18n';
+import { useT } from '../i18n';
 
 interface Props {
-	approach: string;
+	approach: MessageText;
 	code: string;
 	timeComplexity: string;
 	spaceComplexity: string;
-	tests?: { input: string | string[]; expected: string | string[]; actual?: string; ok?: boolean; error?: string }[];
+	tests?: { input: string | string[]; expected: string | string[]; actual?: string; ok?: boolean; status?: 'ok' | 'error' | 'timeout' | 'memory_limit' | 'sandbox_violation'; error?: MessageText; metrics?: RunMetrics; transcript?: { from: 'judge' | 'solution'; text: string }[] }[];
 	buggy?: {
 		pending?: boolean;
 		mistakeSummary?: string;
@@ -13,82 +17,331 @@ interface Props {
 		buggyCode?: string;
 		error?: string;
 	};
+	compare?: CompareSpec;
+	onCompareChange?: (spec: CompareSpec) => void;
+	// User-supplied cases, run through the same runner as the examples
+	customTests?: { input: string | string[]; expected: string | string[]; actual?: string; ok?: boolean; status?: 'ok' | 'error' | 'timeout' | 'memory_limit' | 'sandbox_violation'; error?: MessageText; metrics?: RunMetrics; transcript?: { from: 'judge' | 'solution'; text: string }[] }[];
+	onAddCustomTests?: (tests: { input: string; expected: string }[]) => void;
+	onRemoveCustomTest?: (index: number) => void;
+	stress?: {
+		ok: boolean;
+		casesRun: number;
+		skipped: number;
+		counterexample?: { input: string; expected: string; actual: string; error?: MessageText };
+		error?: MessageText;
+	};
+	edgeCases?: {
+		description: string;
+		input: string;
+		expected?: string;
+		actual?: string;
+		verdict: 'ok' | 'crash' | 'timeout' | 'memory_limit' | 'sandbox_violation' | 'wrong' | 'skipped';
+		error?: MessageText;
+	}[];
+	edgeCaseError?: MessageText;
+	benchmark?: {
+		points: { size: number; ms: number }[];
+		measured?: string;
+		claimed?: string;
+		warning?: MessageText;
+		error?: MessageText;
+	};
+	// Partial reply still streaming in: no copy-to-clipboard, marked in the headings
+	streaming?: boolean;
 }
 
-const CodeResult: React.FC<Props> = ({ approach, code, timeComplexity, spaceComplexity, tests, buggy }) => {
+const preStyle = { margin: 0, display: 'inline-block', whiteSpace: 'pre-wrap' as const, backgroundColor: '#f5f5f5', padding: '4px', borderRadius: '4px' };
+
+type TestCase = NonNullable<Props['tests']>[number];
+
+const TestRow: React.FC<{ test: TestCase; onRemove?: () => void }> = ({ test, onRemove }) => {
+	const t = useT();
+	return (
+		<div style={{ marginBottom: 8 }}>
+			<div>
+				<span style={{ fontWeight: 600 }}>
+					{typeof test.ok === 'undefined' ? 'PENDING' :
+						test.ok && test.expected === '' ? 'OUTPUT' :
+						test.ok ? 'PASS' :
+						test.status === 'timeout' ? 'TIMEOUT' :
+						test.status === 'memory_limit' ? 'MEMORY LIMIT' :
+						test.status === 'sandbox_violation' ? 'SANDBOX' : 'FAIL'}
+				</span>
+				{test.error ? ` - ${displayText(t, test.error)}` : ''}
+				{test.metrics && (
+					<span style={{ color: '#888', marginLeft: 8, fontSize: '0.85em' }}>{formatMetrics(test.metrics)}</span>
+				)}
+				{onRemove && (
+					<button type="button" className="custom-test-remove" onClick={onRemove}>{t('tests.remove')}</button>
+				)}
+			</div>
+			<div>
+				<code>input:</code>{' '}
+				{Array.isArray(test.input) ? (
+					<pre style={preStyle}>{test.input.join('\n')}</pre>
+				) : test.input.includes('\n') ? (
+					<pre style={preStyle}>{test.input}</pre>
+				) : (
+					test.input
+				)}
+			</div>
+			<div>
+				<code>expected:</code>{' '}
+				{Array.isArray(test.expected) ? (
+					<pre style={preStyle}>{test.expected.join('\n')}</pre>
+				) : test.expected.includes('\n') ? (
+					<pre style={preStyle}>{test.expected}</pre>
+				) : test.expected === '' ? (
+					t('result.none')
+				) : (
+					test.expected
+				)}
+			</div>
+			{test.transcript ? (
+				<div>
+					<code>transcript:</code>{' '}
+					<pre style={preStyle}>
+						{test.transcript.length === 0 ? t('result.noExchange') : test.transcript.map((entry, i) => (
+							<div key={i} style={{ color: entry.from === 'judge' ? '#555' : '#0b5394' }}>
+								{entry.from === 'judge' ? '< ' : '> '}{entry.text}
+							</div>
+						))}
+					</pre>
+				</div>
+			) : (
+			<div>
+				<code>actual:</code>{' '}
+				{typeof test.actual === 'undefined' ? (
+					t('result.pending')
+				) : test.actual.includes('\n') ? (
+					<pre style={preStyle}>{test.actual}</pre>
+				) : (
+					test.actual
+				)}
+			</div>
+			)}
+		</div>
+	);
+};
+
+// Test files are either a JSON array of {input, expected|output} or plain text where
+// cases are separated by a line of "===" and input/expected by a line of "---"
+function parseTestFile(text: string): { input: string; expected: string }[] {
+	const toText = (v: unknown) => Array.isArray(v) ? v.join('\n') : typeof v === 'string' ? v : v === undefined || v === null ? '' : JSON.stringify(v);
+	const trimmed = text.trim();
+	if (trimmed.startsWith('[')) {
+		const parsed = JSON.parse(trimmed);
+		if (!Array.isArray(parsed)) return [];
+		return parsed
+			.filter(item => item && typeof item === 'object' && 'input' in item)
+			.map(item => ({ input: toText(item.input), expected: toText(item.expected ?? item.output) }));
+	}
+	return trimmed
+		.replace(/\r\n/g, '\n')
+		.split(/^===+\s*$/m)
+		.map(block => block.split(/^---+\s*$/m))
+		.filter(parts => parts[0].trim())
+		.map(parts => ({ input: parts[0].trim(), expected: (parts[1] || '').trim() }));
+}
+
+// The overlay is click-through; let the mouse reach the editor while the pointer is over it
+const setInteractive = (on: boolean) => (window as any).electron?.setMouseInteractive?.(on);
+
+const CustomTests: React.FC<{
+	tests: TestCase[];
+	onAdd: (tests: { input: string; expected: string }[]) => void;
+	onRemove?: (index: number) => void;
+}> = ({ tests, onAdd, onRemove }) => {
+	const t = useT();
+	const [input, setInput] = useState('');
+	const [expected, setExpected] = useState('');
+	const [fileError, setFileError] = useState<string | null>(null);
+
+	useEffect(() => () => setInteractive(false), []);
+
+	const handleAdd = () => {
+		if (!input.trim()) return;
+		onAdd([{ input: input.replace(/\r\n/g, '\n').replace(/\n+$/, ''), expected: expected.replace(/\r\n/g, '\n').trim() }]);
+		setInput('');
+		setExpected('');
+	};
+
+	const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = '';
+		if (!file) return;
+		const reader = new FileReader();
+		reader.onload = () => {
+			try {
+				const loaded = parseTestFile(String(reader.result || ''));
+				if (loaded.length === 0) {
+					setFileError(t('tests.fileEmpty', { file: file.name }));
+					return;
+				}
+				setFileError(null);
+				onAdd(loaded);
+			} catch (err: any) {
+				setFileError(t('tests.fileError', { file: file.name, error: String(err?.message || err) }));
+			}
+		};
+		reader.readAsText(file);
+	};
+
+	return (
+		<div className="solution-section" onMouseEnter={() => setInteractive(true)} onMouseLeave={() => setInteractive(false)}>
+			<h3>{t('tests.custom')}</h3>
+			{tests.map((test, i) => (
+				<TestRow key={i} test={test} onRemove={onRemove ? () => onRemove(i) : undefined} />
+			))}
+			<div className="custom-test-editor">
+				<textarea placeholder={t('tests.inputPlaceholder')} value={input} onChange={(e) => setInput(e.target.value)} rows={3} spellCheck={false} />
+				<textarea placeholder={t('tests.expectedPlaceholder')} value={expected} onChange={(e) => setExpected(e.target.value)} rows={3} spellCheck={false} />
+				<div className="custom-test-actions">
+					<button type="button" onClick={handleAdd} disabled={!input.trim()}>{t('tests.add')}</button>
+					<label className="custom-test-file">
+						{t('tests.loadFile')}
+						<input type="file" accept=".json,.txt" onChange={handleFile} />
+					</label>
+				</div>
+				{fileError && <div style={{ color: 'red' }}>{fileError}</div>}
+			</div>
+		</div>
+	);
+};
+
+// Interactive problems: the judge can be fixed or written by hand, then the examples run again
+const JudgeEditor: React.FC<{ judge?: string; onApply: (judge: string) => void }> = ({ judge, onApply }) => {
+	const t = useT();
+	const [draft, setDraft] = useState(judge || '');
+
+	useEffect(() => setDraft(judge || ''), [judge]);
+	useEffect(() => () => setInteractive(false), []);
+
+	return (
+		<div className="custom-test-editor" onMouseEnter={() => setInteractive(true)} onMouseLeave={() => setInteractive(false)}>
+			<textarea
+				placeholder={t('tests.judgePlaceholder')}
+				value={draft}
+				onChange={(e) => setDraft(e.target.value)}
+				rows={8}
+				spellCheck={false}
+			/>
+			<div className="custom-test-actions">
+				<button type="button" onClick={() => onApply(draft)} disabled={!draft.trim() || draft === judge}>{t('tests.runWithJudge')}</button>
+			</div>
+		</div>
+	);
+};
+
+const CodeResult: React.FC<Props> = ({ approach, code, timeComplexity, spaceComplexity, tests, buggy, compare, onCompareChange, customTests, onAddCustomTests, onRemoveCustomTest, stress, edgeCases, edgeCaseError, benchmark, streaming }) => {
+	const t = useT();
 	const lines = code.split('\n');
 	
 	// 将当前代码部分发送到主进程以便复制
 	useEffect(() => {
+		if (streaming) return;
 		if ((window as any).electron?.setCurrentAnswer) {
 			(window as any).electron.setCurrentAnswer(code);
 		}
-	}, [code]);
+	}, [code, streaming]);
 	return (
 		<div className="result">
 			{tests && tests.length > 0 && (
 				<div className="solution-section">
-					<h3>Examples Test</h3>
+					<h3>{t('tests.examples')}</h3>
+					{compare && (
+						<div style={{ marginBottom: 8 }}>
+							<code>compare:</code>{' '}
+							{onCompareChange ? (
+								<select
+									value={compare.mode}
+									onChange={(e) => onCompareChange({ ...compare, mode: e.target.value as CompareMode })}
+								>
+									{COMPARE_MODES.map(mode => (
+										<option key={mode} value={mode}>{mode}</option>
+									))}
+								</select>
+							) : compare.mode}
+							{compare.mode === 'float' && compare.epsilon !== undefined ? ` (eps ${compare.epsilon})` : ''}
+							{compare.mode === 'special' && !compare.checker ? t('tests.noChecker') : ''}
+							{compare.mode === 'interactive' && !compare.judge ? t('tests.noJudge') : ''}
+							{compare.mode === 'interactive' && onCompareChange && (
+								<JudgeEditor judge={compare.judge} onApply={(judge) => onCompareChange({ ...compare, judge })} />
+							)}
+						</div>
+					)}
 					<div>
-						{tests.map((t, i) => (
-							<div key={i} style={{ marginBottom: 8 }}>
-								<div>
-									<span style={{ fontWeight: 600 }}>
-										{typeof t.ok === 'undefined' ? 'PENDING' : t.ok ? 'PASS' : 'FAIL'}
-									</span>
-									{t.error ? ` - ${t.error}` : ''}
-								</div>
-								<div>
-									<code>input:</code>{' '}
-									{Array.isArray(t.input) ? (
-										<pre style={{ margin: 0, display: 'inline-block', whiteSpace: 'pre-wrap', backgroundColor: '#f5f5f5', padding: '4px', borderRadius: '4px' }}>
-											{t.input.join('\n')}
-										</pre>
-									) : typeof t.input === 'string' && t.input.includes('\n') ? (
-										<pre style={{ margin: 0, display: 'inline-block', whiteSpace: 'pre-wrap', backgroundColor: '#f5f5f5', padding: '4px', borderRadius: '4px' }}>
-											{t.input}
-										</pre>
-									) : (
-										t.input
-									)}
-								</div>
-								<div>
-									<code>expected:</code>{' '}
-									{Array.isArray(t.expected) ? (
-										<pre style={{ margin: 0, display: 'inline-block', whiteSpace: 'pre-wrap', backgroundColor: '#f5f5f5', padding: '4px', borderRadius: '4px' }}>
-											{t.expected.join('\n')}
-										</pre>
-									) : typeof t.expected === 'string' && t.expected.includes('\n') ? (
-										<pre style={{ margin: 0, display: 'inline-block', whiteSpace: 'pre-wrap', backgroundColor: '#f5f5f5', padding: '4px', borderRadius: '4px' }}>
-											{t.expected}
-										</pre>
-									) : (
-										t.expected
-									)}
-								</div>
-								<div>
-									<code>actual:</code>{' '}
-									{typeof t.actual === 'undefined' ? (
-										'(pending...)'
-									) : typeof t.actual === 'string' && t.actual.includes('\n') ? (
-										<pre style={{ margin: 0, display: 'inline-block', whiteSpace: 'pre-wrap', backgroundColor: '#f5f5f5', padding: '4px', borderRadius: '4px' }}>
-											{t.actual}
-										</pre>
-									) : (
-										t.actual
-									)}
-								</div>
-							</div>
-						))}
+						{tests.map((test, i) => <TestRow key={i} test={test} />)}
 					</div>
 				</div>
 			)}
+			{onAddCustomTests && (
+				<CustomTests
+					tests={customTests || []}
+					onAdd={onAddCustomTests}
+					onRemove={onRemoveCustomTest}
+				/>
+			)}
+			{stress && (
+				<div className="solution-section">
+					<h3>{t('stress.title')}</h3>
+					{stress.counterexample ? (
+						<>
+							<div>
+								<span style={{ fontWeight: 600 }}>COUNTEREXAMPLE</span>
+								{t('stress.after', { count: stress.casesRun })}
+								{stress.counterexample.error ? ` - ${displayText(t, stress.counterexample.error)}` : ''}
+							</div>
+							<div><code>input:</code> <pre style={preStyle}>{stress.counterexample.input}</pre></div>
+							<div><code>solution:</code> <pre style={preStyle}>{stress.counterexample.actual || t('result.empty')}</pre></div>
+							<div><code>brute force:</code> <pre style={preStyle}>{stress.counterexample.expected}</pre></div>
+						</>
+					) : stress.ok ? (
+						<div>
+							<span style={{ fontWeight: 600 }}>PASS</span>
+							{t('stress.matched', { count: stress.casesRun })}
+							{stress.skipped > 0 ? t('stress.skipped', { count: stress.skipped }) : ''}
+						</div>
+					) : (
+						<div style={{ color: 'red' }}>{t('result.notRun', { error: stress.error || '' })}</div>
+					)}
+				</div>
+			)}
+			{(edgeCases || edgeCaseError) && (
+				<div className="solution-section">
+					<h3>{t('edgeCases.title')}</h3>
+					{edgeCaseError && <div style={{ color: 'red' }}>{t('result.notRun', { error: edgeCaseError })}</div>}
+					{(edgeCases || []).map((c, i) => (
+						<div key={i} style={{ marginBottom: 8 }}>
+							<div>
+								<span style={{ fontWeight: 600 }}>
+									{c.verdict === 'ok' ? 'OK' :
+										c.verdict === 'crash' ? 'CRASH' :
+										c.verdict === 'timeout' ? 'TIMEOUT' :
+										c.verdict === 'memory_limit' ? 'MEMORY LIMIT' :
+										c.verdict === 'sandbox_violation' ? 'SANDBOX' :
+										c.verdict === 'wrong' ? 'WRONG' : 'SKIPPED'}
+								</span>
+								{c.description ? ` - ${c.description}` : ''}
+							</div>
+							{c.verdict !== 'ok' && (
+								<>
+									<div><code>input:</code> <pre style={preStyle}>{c.input}</pre></div>
+									{c.expected !== undefined && <div><code>expected:</code> <pre style={preStyle}>{c.expected}</pre></div>}
+									{c.actual !== undefined && <div><code>actual:</code> <pre style={preStyle}>{c.actual || t('result.empty')}</pre></div>}
+									{c.error && <div style={{ color: 'red', whiteSpace: 'pre-wrap' }}>{displayText(t, c.error)}</div>}
+								</>
+							)}
+						</div>
+					))}
+				</div>
+			)}
 			<div className="solution-section">
-				<h3>Approach</h3>
-				<p>{approach}</p>
+				<h3>{t('result.approach')}</h3>
+				<p>{displayText(t, approach)}</p>
 			</div>
 			<div className="solution-section">
-				<h3>Solution</h3>
+				<h3>{t('result.solution')}{streaming ? t('result.streaming') : ''}</h3>
 				<pre>
 					<code>
 						{lines.map((line, idx) => (
@@ -102,11 +355,11 @@ const CodeResult: React.FC<Props> = ({ approach, code, timeComplexity, spaceComp
 			</div>
 			{buggy && (
 				<div className="solution-section">
-					<h3>Buggy Variant</h3>
+					<h3>{t('buggy.title')}</h3>
 					{buggy.pending ? (
-						<div>Generating buggy variant... (pending)</div>
+						<div>{t('buggy.pending')}</div>
 					) : buggy.error ? (
-						<div style={{ color: 'red' }}>Error: {buggy.error}</div>
+						<div style={{ color: 'red' }}>{t('result.error', { error: buggy.error })}</div>
 					) : (
 						<>
 							{buggy.mistakeSummary && <p>{buggy.mistakeSummary}</p>}
@@ -114,8 +367,8 @@ const CodeResult: React.FC<Props> = ({ approach, code, timeComplexity, spaceComp
 								<div style={{ marginBottom: 8 }}>
 									{buggy.edits.map((e, i) => (
 										<div key={i} style={{ marginBottom: 4 }}>
-											<div><strong>Change:</strong> {e.description}</div>
-											<div><strong>Why:</strong> {e.rationale}</div>
+											<div><strong>{t('buggy.change')}</strong> {e.description}</div>
+											<div><strong>{t('buggy.why')}</strong> {e.rationale}</div>
 										</div>
 									))}
 								</div>
@@ -128,9 +381,28 @@ const CodeResult: React.FC<Props> = ({ approach, code, timeComplexity, spaceComp
 				</div>
 			)}
 			<div className="solution-section">
-				<h3>Complexity</h3>
-				<p>Time: {timeComplexity}</p>
-				<p>Space: {spaceComplexity}</p>
+				<h3>{t('result.complexity')}</h3>
+				<p>{t('result.time', { value: timeComplexity })}</p>
+				<p>{t('result.space', { value: spaceComplexity })}</p>
+				{benchmark && (
+					benchmark.error ? (
+						<p style={{ color: '#a0a0a0' }}>{t('benchmark.unavailable', { error: benchmark.error })}</p>
+					) : (
+						<>
+							{benchmark.warning && (
+								<p style={{ color: '#ffc107', fontWeight: 600 }}>⚠ {displayText(t, benchmark.warning)}</p>
+							)}
+							<p>
+								{t('benchmark.measured', { value: benchmark.measured || '' })}
+								{benchmark.points.length > 0 && (
+									<span style={{ color: '#a0a0a0' }}>
+										{' '}({benchmark.points.map(p => `n=${p.size}: ${p.ms} ms`).join(', ')})
+									</span>
+								)}
+							</p>
+						</>
+					)
+				)}
 			</div>
 		</div>
 	);
@@ -1,18 +1,30 @@
 import React from 'react';
+import { useT } from '../i18n';
 
 interface Props {
 	raw: string;
+	// Schema problems left after the repair attempts, one "path: problem" per line
+	issues?: string;
 }
 
-const RawResult: React.FC<Props> = ({ raw }) => {
+const RawResult: React.FC<Props> = ({ raw, issues }) => {
+	const t = useT();
 	return (
 		<div className="result">
 			<div className="solution-section">
-				<h3>Raw Response</h3>
+				<h3>{t('result.raw')}</h3>
+				{issues && (
+					<>
+						<div className="hint">{t('result.rawIssues')}</div>
+						<pre>
+							<code>{issues}</code>
+						</pre>
+					</>
+				)}
 				<pre>
 					<code>{raw}</code>
 				</pre>
-				<div className="hint">(Press fn + ↵ to retry)</div>
+				<div className="hint">{t('result.retryHint')}</div>
 			</div>
 		</div>
 	);
@@ -0,0 +1,76 @@
+import React from 'react';
+import { UsageHistory as History, formatCost, formatTokens, formatUsage } from '../../shared/usage';
+import { useT } from '../i18n';
+
+interface Props {
+  history: History | null;
+  visible: boolean;
+}
+
+const RECENT_RUNS = 10;
+
+const UsageHistory: React.FC<Props> = ({ history, visible }) => {
+  const t = useT();
+  if (!visible || !history) {
+    return null;
+  }
+
+  return (
+    <div className="usage-history">
+      <div className="usage-header">
+        <h3>{t('usage.title')}</h3>
+      </div>
+      {history.days.length === 0 ? (
+        <div className="usage-empty">{t('usage.empty')}</div>
+      ) : (
+        <table className="usage-table">
+          <thead>
+            <tr>
+              <th>{t('usage.day')}</th>
+              <th>{t('usage.runs')}</th>
+              <th>{t('usage.calls')}</th>
+              <th>{t('usage.input')}</th>
+              <th>{t('usage.output')}</th>
+              <th>{t('usage.cost')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {history.days.map(day => (
+              <tr key={day.date}>
+                <td>{day.date}</td>
+                <td>{day.runs}</td>
+                <td>{day.calls}</td>
+                <td>{formatTokens(day.inputTokens)}</td>
+                <td>{formatTokens(day.outputTokens)}</td>
+                <td>{formatCost(day)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {history.runs.length > 0 && (
+        <div className="usage-runs">
+          <div className="tasks-label">{t('usage.recentRuns')}</div>
+          {history.runs.slice(0, RECENT_RUNS).map(run => (
+            <div key={run.id} className="usage-run">
+              <div className="usage-run-header">
+                <span>{new Date(run.startedAt).toLocaleString()}{run.mode === 'pro' ? ' · pro' : ''}</span>
+                <span>{t('usage.callCount', { count: run.calls })} · {formatUsage(run)}</span>
+              </div>
+              {Object.keys(run.byModel).length > 1 && Object.entries(run.byModel).map(([model, totals]) => (
+                <div key={model} className="usage-run-model">
+                  {model}: {totals.calls} × · {formatUsage(totals)}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+      {history.days.some(day => day.unpricedCalls > 0) && (
+        <div className="usage-note">{t('usage.unpriced')}</div>
+      )}
+    </div>
+  );
+};
+
+export default UsageHistory;
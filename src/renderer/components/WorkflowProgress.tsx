@@ -1,20 +1,35 @@
 import React from 'react';
+import { RunMetrics, formatMetrics } from '../../shared/metrics';
+import { Message, MessageKey, MessageText, displayText } from '../../shared/i18n';
+import { WORKFLOW_ROLES, WorkflowRole } from '../../shared/routing';
+import { useT } from '../i18n';
 
 interface WorkflowState {
-  currentStep: string;
+  currentStep: Message;
   progress: number; // 0-100
-  stepDetails: string;
-  error?: string;
+  stepDetails: Message;
+  error?: MessageText;
   extractedExamples?: number; // 提取到的例子数量
   parallelTasks?: Array<{
     id: number;
     status: 'pending' | 'running' | 'success' | 'failed';
     model: string;
-    error?: string;
+    error?: MessageText;
     testsPassed?: number;
     testsTotal?: number;
+    metrics?: RunMetrics;
+  }>;
+  repairAttempts?: Array<{
+    attempt: number;
+    status: 'running' | 'success' | 'failed';
+    testsPassed?: number;
+    testsTotal?: number;
+    results?: boolean[]; // 每个例子是否通过
+    error?: MessageText;
   }>;
   completed?: boolean; // 是否已完成
+  cachedSteps?: string[]; // 命中缓存的步骤
+  stepModels?: Partial<Record<WorkflowRole, string>>; // 各步骤实际调用的模型
 }
 
 interface Props {
@@ -22,7 +37,26 @@ interface Props {
   visible: boolean;
 }
 
+const TASK_STATUS: Record<string, MessageKey> = {
+  pending: 'workflow.task.pending',
+  running: 'workflow.task.running',
+  success: 'workflow.task.success',
+  failed: 'workflow.task.failed'
+};
+
+const REPAIR_STATUS: Record<string, MessageKey> = {
+  running: 'workflow.repair.running',
+  success: 'workflow.repair.success',
+  failed: 'workflow.repair.failed'
+};
+
+const CACHED_STEPS: Record<string, MessageKey> = {
+  classify: 'workflow.cached.classify',
+  extract: 'workflow.cached.extract'
+};
+
 const WorkflowProgress: React.FC<Props> = ({ state, visible }) => {
+  const t = useT();
   if (!visible || !state) {
     return null;
   }
@@ -30,13 +64,13 @@ const WorkflowProgress: React.FC<Props> = ({ state, visible }) => {
   return (
     <div className="workflow-progress">
       <div className="workflow-header">
-        <h3>Agent Workflow 进度</h3>
+        <h3>{t('workflow.title')}</h3>
       </div>
       
       <div className="workflow-content">
         <div className="current-step">
-          <span className="step-label">当前步骤:</span>
-          <span className="step-name">{state.currentStep}</span>
+          <span className="step-label">{t('workflow.currentStep')}</span>
+          <span className="step-name">{t(state.currentStep)}</span>
         </div>
         
         <div className="progress-bar">
@@ -48,37 +82,59 @@ const WorkflowProgress: React.FC<Props> = ({ state, visible }) => {
         </div>
         
         <div className="step-details">
-          {state.stepDetails}
+          {t(state.stepDetails)}
         </div>
         
+        {state.cachedSteps && state.cachedSteps.length > 0 && (
+          <div className="examples-info">
+            <span className="info-label">{t('workflow.cached')}</span>
+            <span className="info-value">
+              {state.cachedSteps.map(step => CACHED_STEPS[step] ? t(CACHED_STEPS[step]) : step).join(t('workflow.listSeparator'))}
+            </span>
+          </div>
+        )}
+
+        {state.stepModels && (
+          <div className="step-models">
+            <div className="tasks-label">{t('workflow.models')}</div>
+            {WORKFLOW_ROLES.filter(role => state.stepModels?.[role]).map(role => (
+              <div key={role} className="examples-info">
+                <span className="info-label">{t(`role.${role}` as const)}</span>
+                <span className="info-value">{state.stepModels?.[role]}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {state.extractedExamples !== undefined && (
           <div className="examples-info">
-            <span className="info-label">提取的测试例子:</span>
-            <span className="info-value">{state.extractedExamples} 个</span>
+            <span className="info-label">{t('workflow.examples')}</span>
+            <span className="info-value">{t('workflow.exampleCount', { count: state.extractedExamples })}</span>
           </div>
         )}
 
         {state.parallelTasks && state.parallelTasks.length > 0 && (
           <div className="parallel-tasks">
-            <div className="tasks-label">并行任务状态:</div>
+            <div className="tasks-label">{t('workflow.tasks')}</div>
             <div className="tasks-grid">
               {state.parallelTasks.map(task => (
                 <div key={task.id} className={`task-item task-${task.status}`}>
                   <div className="task-header">
-                    <span className="task-model">{task.model}</span>
+                    <span className="task-model" title={task.model}>{t('workflow.candidate', { n: task.id + 1 })}</span>
                     <span className={`task-status status-${task.status}`}>
-                      {task.status === 'pending' ? '等待中' : 
-                       task.status === 'running' ? '运行中' : 
-                       task.status === 'success' ? '成功' : '失败'}
+                      {t(TASK_STATUS[task.status])}
                     </span>
                   </div>
                   {(task.testsTotal ?? 0) > 0 && (
                     <div className="task-tests">
-                      测试: {task.testsPassed || 0}/{task.testsTotal || 0}
+                      {t('workflow.tests', { passed: task.testsPassed || 0, total: task.testsTotal || 0 })}
                     </div>
                   )}
+                  {task.metrics && (
+                    <div className="task-metrics">{formatMetrics(task.metrics)}</div>
+                  )}
                   {task.error && (
-                    <div className="task-error">{task.error}</div>
+                    <div className="task-error">{displayText(t, task.error)}</div>
                   )}
                 </div>
               ))}
@@ -86,9 +142,42 @@ const WorkflowProgress: React.FC<Props> = ({ state, visible }) => {
           </div>
         )}
         
+        {state.repairAttempts && state.repairAttempts.length > 0 && (
+          <div className="repair-history">
+            <div className="tasks-label">{t('workflow.repairs')}</div>
+            {state.repairAttempts.map(attempt => (
+              <div key={attempt.attempt} className={`repair-item task-${attempt.status}`}>
+                <div className="task-header">
+                  <span className="task-model">{t('workflow.repairAttempt', { n: attempt.attempt })}</span>
+                  <span className={`task-status status-${attempt.status}`}>
+                    {t(REPAIR_STATUS[attempt.status])}
+                  </span>
+                </div>
+                {attempt.testsPassed !== undefined && (
+                  <div className="task-tests">
+                    {t('workflow.tests', { passed: attempt.testsPassed, total: attempt.testsTotal || 0 })}
+                    {attempt.results && (
+                      <span className="repair-results">
+                        {attempt.results.map((ok, i) => (
+                          <span key={i} className={ok ? 'repair-pass' : 'repair-fail'} title={t('workflow.exampleN', { n: i + 1 })}>
+                            {ok ? '✓' : '✗'}
+                          </span>
+                        ))}
+                      </span>
+                    )}
+                  </div>
+                )}
+                {attempt.error && (
+                  <div className="task-error">{displayText(t, attempt.error)}</div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
         {state.error && (
           <div className="workflow-error">
-            错误: {state.error}
+            {t('workflow.error', { message: state.error })}
           </div>
         )}
       </div>
@@ -0,0 +1,13 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import { DEFAULT_LOCALE, Locale, Translator, createTranslator } from '../shared/i18n';
+
+const I18nContext = createContext<Translator>(createTranslator(DEFAULT_LOCALE));
+
+export const I18nProvider: React.FC<{ locale: Locale; children: React.ReactNode }> = ({ locale, children }) => {
+  const t = useMemo(() => createTranslator(locale), [locale]);
+  return <I18nContext.Provider value={t}>{children}</I18nContext.Provider>;
+};
+
+export function useT(): Translator {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,66 @@
+import pythonDaemon from '../pythonDaemon';
+import { CompareSpec, DEFAULT_COMPARE, compareOutput } from '../shared/comparator';
+
+// Loaded checker programs, keyed by source. Parallel tests share the pending load, so every
+// test reuses one codeId; failed loads are dropped so the next call tries again.
+const checkerIds = new Map<string, Promise<number | null>>();
+
+function loadChecker(checker: string, signal?: AbortSignal): Promise<number | null> {
+  const cached = checkerIds.get(checker);
+  if (cached) return cached;
+  const pending = pythonDaemon.load(checker, signal)
+    .then(res => (res.ok && res.codeId !== undefined ? res.codeId : null))
+    .catch(() => null);
+  checkerIds.set(checker, pending);
+  pending.then(codeId => {
+    if (codeId === null && checkerIds.get(checker) === pending) checkerIds.delete(checker);
+  });
+  return pending;
+}
+
+// Evicted from the daemon's code cache: forget the id unless another test already reloaded it
+async function forgetChecker(checker: string, codeId: number): Promise<void> {
+  const cached = checkerIds.get(checker);
+  if (cached && (await cached) === codeId && checkerIds.get(checker) === cached) {
+    checkerIds.delete(checker);
+  }
+}
+
+// Async verdict that can run a special-judge checker; other modes are plain compareOutput
+export async function judgeOutput(
+  actual: string | undefined,
+  expected: string | string[] | undefined,
+  input: string | string[] | undefined,
+  spec: CompareSpec = DEFAULT_COMPARE,
+  signal?: AbortSignal
+): Promise<{ ok: boolean; message?: string }> {
+  if (spec.mode !== 'special' || !spec.checker) {
+    return { ok: compareOutput(actual, expected, spec) };
+  }
+
+  const compareTokens = () => ({ ok: compareOutput(actual, expected, DEFAULT_COMPARE), message: 'checker failed to load; compared tokens instead' });
+  let codeId = await loadChecker(spec.checker, signal);
+  if (codeId === null) return compareTokens();
+  const payload = JSON.stringify({
+    input: Array.isArray(input) ? input.join('\n') : (input || ''),
+    expected: Array.isArray(expected) ? expected.join('\n') : (expected || ''),
+    actual: actual || ''
+  });
+  // Passed as a one-line array so the daemon does not unescape the JSON's "\n" sequences
+  let res = await pythonDaemon.run([payload], codeId, signal);
+  // The daemon keeps a bounded number of programs; an evicted checker is loaded again and rerun once
+  if (!res.ok && res.error === 'no code loaded') {
+    await forgetChecker(spec.checker, codeId);
+    codeId = await loadChecker(spec.checker, signal);
+    if (codeId === null) return compareTokens();
+    res = await pythonDaemon.run([payload], codeId, signal);
+  }
+  if (!res.ok) {
+    return { ok: false, message: `checker error: ${res.error || 'unknown'}` };
+  }
+  const [verdict, ...rest] = (res.stdout || '').trim().split('\n');
+  return {
+    ok: verdict.trim().toUpperCase() === 'AC',
+    message: rest.join('\n').trim() || undefined
+  };
+}
@@ -0,0 +1,447 @@
+import { LanguageRunner, RunResponse } from './languageRunner';
+import { normalizeLanguage } from './index';
+
+// Parameter/return types use a small neutral vocabulary: int, long, double, bool, string,
+// char, ListNode, TreeNode, Node (graph, adjacency list), void, plus "[]" suffixes (int[][]).
+// Only the node types need conversion; everything else is passed through as JSON.
+export interface FunctionSignature {
+  kind: 'function' | 'design';
+  className?: string; // "Solution" for function problems, the designed class for design problems
+  methodName?: string;
+  params: Array<{ name: string; type: string }>;
+  returnType: string;
+}
+
+const HARNESS_LANGUAGES = ['python', 'javascript', 'typescript'];
+
+export function supportsHarness(language: string): boolean {
+  return HARNESS_LANGUAGES.includes(normalizeLanguage(language));
+}
+
+// Validate a signature coming from model JSON
+export function normalizeSignature(raw: any): FunctionSignature | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const kind = raw.kind === 'design' ? 'design' : 'function';
+  const className = typeof raw.className === 'string' && raw.className.trim() ? raw.className.trim() : undefined;
+  const methodName = typeof raw.methodName === 'string' && raw.methodName.trim() ? raw.methodName.trim() : undefined;
+  if (kind === 'function' && !methodName) return undefined;
+  if (kind === 'design' && !className) return undefined;
+  const params = Array.isArray(raw.params)
+    ? raw.params
+      .filter((p: any) => p && typeof p.name === 'string')
+      .map((p: any) => ({ name: p.name, type: typeof p.type === 'string' ? p.type : 'any' }))
+    : [];
+  return {
+    kind,
+    className,
+    methodName,
+    params,
+    returnType: typeof raw.returnType === 'string' ? raw.returnType : 'any'
+  };
+}
+
+// Split on commas/newlines that are outside brackets and string literals
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let inString: string | null = null;
+  let current = '';
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      current += ch;
+      if (ch === '\\' && i + 1 < text.length) {
+        current += text[++i];
+      } else if (ch === inString) {
+        inString = null;
+      }
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      inString = ch;
+    } else if (ch === '[' || ch === '{' || ch === '(') {
+      depth++;
+    } else if (ch === ']' || ch === '}' || ch === ')') {
+      depth--;
+    } else if ((ch === ',' || ch === '\n') && depth === 0) {
+      if (current.trim()) parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function parseLiteral(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Tolerate single-quoted strings and Python literals that models sometimes copy over
+    const fixed = text
+      .replace(/'([^'\\]*(?:\\.[^'\\]*)*)'/g, (_m, inner) => JSON.stringify(inner))
+      .replace(/\bTrue\b/g, 'true')
+      .replace(/\bFalse\b/g, 'false')
+      .replace(/\bNone\b/g, 'null');
+    return JSON.parse(fixed);
+  }
+}
+
+// Turn a LeetCode-format example input into the JSON argument list the harness reads.
+// Accepts "nums = [2,7,11,15], target = 9" as well as one value per line.
+export function encodeHarnessInput(input: string | string[], signature: FunctionSignature): string {
+  const text = (Array.isArray(input) ? input.join('\n') : input).replace(/\r\n/g, '\n').trim();
+  const parts = splitTopLevel(text);
+
+  if (signature.kind === 'design') {
+    // ["LRUCache","put","get"] followed by [[2],[1,1],[2]]
+    if (parts.length < 2) throw new Error('design input needs an operation list and an argument list');
+    return JSON.stringify([parseLiteral(parts[0]), parseLiteral(parts[1])]);
+  }
+
+  const assignment = /^([A-Za-z_]\w*)\s*=\s*([\s\S]*)$/;
+  if (parts.length > 0 && parts.every(p => assignment.test(p))) {
+    const byName = new Map<string, any>();
+    for (const part of parts) {
+      const [, name, value] = part.match(assignment)!;
+      byName.set(name, parseLiteral(value));
+    }
+    // Fall back to the written order when the names do not line up with the signature
+    const names = signature.params.map(p => p.name);
+    if (names.length === byName.size && names.every(n => byName.has(n))) {
+      return JSON.stringify(names.map(n => byName.get(n)));
+    }
+    return JSON.stringify(Array.from(byName.values()));
+  }
+
+  return JSON.stringify(parts.map(parseLiteral));
+}
+
+function definesName(code: string, name: string): boolean {
+  return new RegExp(`\\b(class|function|interface)\\s+${name}\\b`).test(code);
+}
+
+function pythonHarness(code: string, signature: FunctionSignature): string {
+  const types = JSON.stringify(signature.params.map(p => p.type));
+  const call = signature.kind === 'design'
+    ? [
+      '    _cc_ops, _cc_args = _cc_payload[0], _cc_payload[1]',
+      `    _cc_cls = globals()[${JSON.stringify(signature.className)}]`,
+      '    _cc_obj = None',
+      '    _cc_out = []',
+      '    for _cc_op, _cc_a in zip(_cc_ops, _cc_args):',
+      '        if _cc_obj is None:',
+      '            _cc_obj = _cc_cls(*_cc_a)',
+      '            _cc_out.append(None)',
+      '        else:',
+      '            _cc_out.append(_cc_convert_out(getattr(_cc_obj, _cc_op)(*_cc_a)))',
+      '    _cc_print(_cc_out)'
+    ]
+    : [
+      `    _cc_types = ${types}`,
+      '    _cc_values = [_cc_convert_in(v, _cc_types[i] if i < len(_cc_types) else "any") for i, v in enumerate(_cc_payload)]',
+      `    _cc_class = ${JSON.stringify(signature.className || 'Solution')}`,
+      `    _cc_method = ${JSON.stringify(signature.methodName)}`,
+      '    if _cc_class in globals() and hasattr(globals()[_cc_class], _cc_method):',
+      '        _cc_fn = getattr(globals()[_cc_class](), _cc_method)',
+      '    else:',
+      '        _cc_fn = globals()[_cc_method]',
+      '    _cc_res = _cc_fn(*_cc_values)',
+      // In-place problems ("do not return anything") are judged on the first argument
+      `    if ${JSON.stringify(signature.returnType)} == "void" and _cc_values:`,
+      '        _cc_res = _cc_values[0]',
+      '    _cc_print(_cc_convert_out(_cc_res))'
+    ];
+
+  return [
+    'from typing import *',
+    'import collections, heapq, math, bisect, functools, itertools, string, re',
+    'from collections import *',
+    'from heapq import *',
+    'from functools import *',
+    'from itertools import *',
+    'from bisect import *',
+    'import json as _cc_json',
+    'import sys as _cc_sys',
+    '',
+    'class ListNode:',
+    '    def __init__(self, val=0, next=None):',
+    '        self.val = val',
+    '        self.next = next',
+    '',
+    'class TreeNode:',
+    '    def __init__(self, val=0, left=None, right=None):',
+    '        self.val = val',
+    '        self.left = left',
+    '        self.right = right',
+    '',
+    'class Node:',
+    '    def __init__(self, val=0, neighbors=None):',
+    '        self.val = val',
+    '        self.neighbors = neighbors if neighbors is not None else []',
+    '',
+    code,
+    '',
+    'def _cc_build_list(values):',
+    '    dummy = ListNode()',
+    '    cur = dummy',
+    '    for v in values or []:',
+    '        cur.next = ListNode(v)',
+    '        cur = cur.next',
+    '    return dummy.next',
+    '',
+    'def _cc_build_tree(values):',
+    '    if not values or values[0] is None:',
+    '        return None',
+    '    root = TreeNode(values[0])',
+    '    queue = collections.deque([root])',
+    '    i = 1',
+    '    while queue and i < len(values):',
+    '        node = queue.popleft()',
+    '        if i < len(values) and values[i] is not None:',
+    '            node.left = TreeNode(values[i])',
+    '            queue.append(node.left)',
+    '        i += 1',
+    '        if i < len(values) and values[i] is not None:',
+    '            node.right = TreeNode(values[i])',
+    '            queue.append(node.right)',
+    '        i += 1',
+    '    return root',
+    '',
+    'def _cc_build_graph(adj):',
+    '    if not adj:',
+    '        return None',
+    '    nodes = [Node(i + 1) for i in range(len(adj))]',
+    '    for i, nbrs in enumerate(adj):',
+    '        nodes[i].neighbors = [nodes[j - 1] for j in nbrs]',
+    '    return nodes[0]',
+    '',
+    'def _cc_dump_list(node):',
+    '    out = []',
+    '    while node is not None:',
+    '        out.append(node.val)',
+    '        node = node.next',
+    '    return out',
+    '',
+    'def _cc_dump_tree(root):',
+    '    out = []',
+    '    queue = collections.deque([root])',
+    '    while queue:',
+    '        node = queue.popleft()',
+    '        if node is None:',
+    '            out.append(None)',
+    '            continue',
+    '        out.append(node.val)',
+    '        queue.append(node.left)',
+    '        queue.append(node.right)',
+    '    while out and out[-1] is None:',
+    '        out.pop()',
+    '    return out',
+    '',
+    'def _cc_dump_graph(start):',
+    '    if start is None:',
+    '        return []',
+    '    seen = {start.val: start}',
+    '    queue = collections.deque([start])',
+    '    while queue:',
+    '        node = queue.popleft()',
+    '        for n in node.neighbors:',
+    '            if n.val not in seen:',
+    '                seen[n.val] = n',
+    '                queue.append(n)',
+    '    return [[n.val for n in seen[v].neighbors] for v in sorted(seen)]',
+    '',
+    'def _cc_convert_in(value, t):',
+    '    if t.endswith("[]") and isinstance(value, list) and t[:-2].rstrip("[]") in ("ListNode", "TreeNode", "Node"):',
+    '        return [_cc_convert_in(v, t[:-2]) for v in value]',
+    '    if t == "ListNode":',
+    '        return _cc_build_list(value)',
+    '    if t == "TreeNode":',
+    '        return _cc_build_tree(value)',
+    '    if t == "Node":',
+    '        return _cc_build_graph(value)',
+    '    return value',
+    '',
+    'def _cc_convert_out(value):',
+    '    if isinstance(value, ListNode):',
+    '        return _cc_dump_list(value)',
+    '    if isinstance(value, TreeNode):',
+    '        return _cc_dump_tree(value)',
+    '    if isinstance(value, Node):',
+    '        return _cc_dump_graph(value)',
+    '    if isinstance(value, (list, tuple)):',
+    '        return [_cc_convert_out(v) for v in value]',
+    '    if isinstance(value, (set, frozenset)):',
+    '        return sorted(_cc_convert_out(v) for v in value)',
+    '    return value',
+    '',
+    'def _cc_print(value):',
+    '    print(_cc_json.dumps(value, separators=(",", ":"), ensure_ascii=False))',
+    '',
+    'if __name__ == "__main__":',
+    '    _cc_payload = _cc_json.loads(_cc_sys.stdin.read())',
+    ...call,
+    ''
+  ].join('\n');
+}
+
+function javascriptHarness(code: string, signature: FunctionSignature): string {
+  const prelude: string[] = [];
+  if (!definesName(code, 'ListNode')) {
+    prelude.push('function ListNode(val, next) { this.val = val === undefined ? 0 : val; this.next = next === undefined ? null : next; }');
+  }
+  if (!definesName(code, 'TreeNode')) {
+    prelude.push('function TreeNode(val, left, right) { this.val = val === undefined ? 0 : val; this.left = left === undefined ? null : left; this.right = right === undefined ? null : right; }');
+  }
+  if (!definesName(code, 'Node')) {
+    prelude.push('function Node(val, neighbors) { this.val = val === undefined ? 0 : val; this.neighbors = neighbors === undefined ? [] : neighbors; }');
+  }
+
+  const types = JSON.stringify(signature.params.map(p => p.type));
+  const className = signature.className || 'Solution';
+  const call = signature.kind === 'design'
+    ? [
+      '  const [ops, args] = payload;',
+      '  const out = [];',
+      '  let obj = null;',
+      '  ops.forEach((op, i) => {',
+      `    if (obj === null) { obj = new ${signature.className}(...args[i]); out.push(null); }`,
+      '    else { const r = obj[op](...args[i]); out.push(r === undefined ? null : convertOut(r)); }',
+      '  });',
+      '  print(out);'
+    ]
+    : [
+      `  const types = ${types};`,
+      "  const values = payload.map((v, i) => convertIn(v, types[i] || 'any'));",
+      // LeetCode JS answers are plain functions; TS ones are occasionally wrapped in a class
+      definesName(code, className)
+        ? `  const fn = (...a) => new ${className}().${signature.methodName}(...a);`
+        : `  const fn = ${signature.methodName};`,
+      '  let res = fn(...values);',
+      `  if (${JSON.stringify(signature.returnType)} === 'void' && values.length > 0) res = values[0];`,
+      '  print(convertOut(res));'
+    ];
+
+  return [
+    ...prelude,
+    code,
+    ';(function () {',
+    '  const buildList = (values) => { const dummy = new ListNode(0); let cur = dummy; for (const v of values || []) { cur.next = new ListNode(v); cur = cur.next; } return dummy.next; };',
+    '  const buildTree = (values) => {',
+    '    if (!values || values.length === 0 || values[0] === null) return null;',
+    '    const root = new TreeNode(values[0]);',
+    '    const queue = [root];',
+    '    let i = 1;',
+    '    while (queue.length && i < values.length) {',
+    '      const node = queue.shift();',
+    '      if (i < values.length && values[i] !== null) { node.left = new TreeNode(values[i]); queue.push(node.left); }',
+    '      i++;',
+    '      if (i < values.length && values[i] !== null) { node.right = new TreeNode(values[i]); queue.push(node.right); }',
+    '      i++;',
+    '    }',
+    '    return root;',
+    '  };',
+    '  const buildGraph = (adj) => {',
+    '    if (!adj || adj.length === 0) return null;',
+    '    const nodes = adj.map((_, i) => new Node(i + 1, []));',
+    '    adj.forEach((nbrs, i) => { nodes[i].neighbors = nbrs.map(j => nodes[j - 1]); });',
+    '    return nodes[0];',
+    '  };',
+    '  const isList = (v) => v && typeof v === "object" && "next" in v && "val" in v;',
+    '  const isTree = (v) => v && typeof v === "object" && "left" in v && "right" in v && "val" in v;',
+    '  const isGraph = (v) => v && typeof v === "object" && Array.isArray(v.neighbors) && "val" in v;',
+    '  const dumpList = (node) => { const out = []; while (node) { out.push(node.val); node = node.next; } return out; };',
+    '  const dumpTree = (root) => {',
+    '    const out = [];',
+    '    const queue = [root];',
+    '    while (queue.length) {',
+    '      const node = queue.shift();',
+    '      if (!node) { out.push(null); continue; }',
+    '      out.push(node.val);',
+    '      queue.push(node.left);',
+    '      queue.push(node.right);',
+    '    }',
+    '    while (out.length && out[out.length - 1] === null) out.pop();',
+    '    return out;',
+    '  };',
+    '  const dumpGraph = (start) => {',
+    '    if (!start) return [];',
+    '    const seen = new Map([[start.val, start]]);',
+    '    const queue = [start];',
+    '    while (queue.length) {',
+    '      const node = queue.shift();',
+    '      for (const n of node.neighbors) if (!seen.has(n.val)) { seen.set(n.val, n); queue.push(n); }',
+    '    }',
+    '    return [...seen.keys()].sort((a, b) => a - b).map(v => seen.get(v).neighbors.map(n => n.val));',
+    '  };',
+    '  const convertIn = (value, t) => {',
+    '    if (t.endsWith("[]") && Array.isArray(value) && ["ListNode", "TreeNode", "Node"].includes(t.replace(/(\\[\\])+$/, ""))) {',
+    '      return value.map(v => convertIn(v, t.slice(0, -2)));',
+    '    }',
+    '    if (t === "ListNode") return buildList(value);',
+    '    if (t === "TreeNode") return buildTree(value);',
+    '    if (t === "Node") return buildGraph(value);',
+    '    return value;',
+    '  };',
+    '  const convertOut = (value) => {',
+    '    if (value === undefined) return null;',
+    '    if (isTree(value)) return dumpTree(value);',
+    '    if (isList(value)) return dumpList(value);',
+    '    if (isGraph(value)) return dumpGraph(value);',
+    '    if (Array.isArray(value)) return value.map(convertOut);',
+    '    if (value instanceof Set) return [...value].map(convertOut).sort();',
+    '    return value;',
+    '  };',
+    '  const print = (value) => console.log(JSON.stringify(value));',
+    "  const payload = JSON.parse(require('fs').readFileSync(0, 'utf8'));",
+    ...call,
+    '})();',
+    ''
+  ].join('\n');
+}
+
+// Wrap a bare function/class answer into a runnable program that reads the JSON
+// argument list from stdin, calls it and prints the result as JSON
+export function buildHarness(language: string, code: string, signature: FunctionSignature): string {
+  const key = normalizeLanguage(language);
+  if (key === 'python') return pythonHarness(code, signature);
+  if (key === 'javascript' || key === 'typescript') return javascriptHarness(code, signature);
+  throw new Error(`No function harness for language: ${language}`);
+}
+
+// codeIds that were loaded with a harness, per runner, so runs know to encode their input.
+// Entries of codes the runner has since evicted are dropped on the next load.
+const harnessed = new WeakMap<LanguageRunner, Map<number, FunctionSignature>>();
+
+// Load code, wrapping it in the harness when a signature is known and the language supports it
+export async function loadProgram(runner: LanguageRunner, code: string, signature?: FunctionSignature, signal?: AbortSignal): Promise<RunResponse> {
+  if (!signature || !supportsHarness(runner.language)) {
+    return runner.load(code, signal);
+  }
+  const res = await runner.load(buildHarness(runner.language, code, signature), signal);
+  if (!harnessed.has(runner)) harnessed.set(runner, new Map());
+  const signatures = harnessed.get(runner)!;
+  for (const codeId of signatures.keys()) {
+    if (!runner.isLoaded(codeId)) signatures.delete(codeId);
+  }
+  if (res.ok && res.codeId !== undefined) {
+    signatures.set(res.codeId, signature);
+  }
+  return res;
+}
+
+export async function runProgram(runner: LanguageRunner, input?: string | string[], codeId?: number, signal?: AbortSignal): Promise<RunResponse> {
+  const signature = codeId !== undefined ? harnessed.get(runner)?.get(codeId) : undefined;
+  if (!signature) {
+    return runner.run(input, codeId, signal);
+  }
+  let encoded: string;
+  try {
+    encoded = encodeHarnessInput(input || '', signature);
+  } catch (err: any) {
+    return { id: -1, ok: false, status: 'error', error: `could not parse example input: ${err?.message || err}` };
+  }
+  // One-element array so the runner does not unescape "\n" inside JSON strings
+  return runner.run([encoded], codeId, signal);
+}
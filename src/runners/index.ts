@@ -0,0 +1,185 @@
+import * as path from 'path';
+import pythonDaemon, { SandboxPolicy } from '../pythonDaemon';
+import { LanguageRunner, RunLimits } from './languageRunner';
+import { ProcessRunner, ProcessRunnerSpec, RunnerCommand, withResourceLimits } from './processRunner';
+
+export type { LanguageRunner, RunLimits, RunMetrics, RunResponse, RunStatus } from './languageRunner';
+export { CANCELLED_ERROR, DEFAULT_RUN_LIMITS, normalizeInput } from './languageRunner';
+export type { SandboxPolicy } from '../pythonDaemon';
+
+const EXE_NAME = process.platform === 'win32' ? 'main.exe' : 'main';
+
+// Run JS through the bundled runtime so no separate node install is required.
+// V8 reserves far more address space than it uses, so cap the heap instead of `ulimit -v`.
+function nodeCommand(file: string, limits: RunLimits): RunnerCommand {
+  const heapArgs = limits.memoryMb > 0 ? [`--max-old-space-size=${limits.memoryMb}`] : [];
+  return withResourceLimits({
+    cmd: process.execPath,
+    args: [...heapArgs, file],
+    env: { ...process.env, ELECTRON_RUN_AS_NODE: '1' }
+  }, { cpuSeconds: limits.cpuSeconds });
+}
+
+function nativeCommand(dir: string, limits: RunLimits): RunnerCommand {
+  return withResourceLimits({ cmd: path.join(dir, EXE_NAME), args: [] }, limits);
+}
+
+function transpileTypeScript(code: string): string {
+  let ts: typeof import('typescript');
+  try {
+    ts = require('typescript');
+  } catch {
+    throw new Error('TypeScript compiler not available (install the "typescript" package)');
+  }
+  return ts.transpileModule(code, {
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS
+    }
+  }).outputText;
+}
+
+function javaClassName(code: string): string {
+  const match = code.match(/public\s+(?:final\s+)?class\s+(\w+)/);
+  return match ? match[1] : 'Main';
+}
+
+const SPECS: Record<string, ProcessRunnerSpec> = {
+  javascript: {
+    language: 'JavaScript',
+    sourceFile: () => 'main.js',
+    execute: (_dir, file, limits) => nodeCommand(file, limits)
+  },
+  typescript: {
+    language: 'TypeScript',
+    sourceFile: () => 'main.js',
+    prepare: transpileTypeScript,
+    execute: (_dir, file, limits) => nodeCommand(file, limits)
+  },
+  java: {
+    language: 'Java',
+    sourceFile: (code) => `${javaClassName(code)}.java`,
+    compile: (_dir, file) => ({ cmd: 'javac', args: ['-encoding', 'UTF-8', file] }),
+    // Same reasoning as node: the JVM needs -Xmx rather than an address-space limit
+    execute: (dir, file, limits) => withResourceLimits({
+      cmd: 'java',
+      args: [...(limits.memoryMb > 0 ? [`-Xmx${limits.memoryMb}m`] : []), '-cp', dir, path.basename(file, '.java')]
+    }, { cpuSeconds: limits.cpuSeconds })
+  },
+  'c++': {
+    language: 'C++',
+    sourceFile: () => 'main.cpp',
+    compile: (_dir, file) => ({ cmd: 'g++', args: ['-std=c++17', '-O2', '-o', EXE_NAME, file] }),
+    execute: (dir, _file, limits) => nativeCommand(dir, limits)
+  },
+  c: {
+    language: 'C',
+    sourceFile: () => 'main.c',
+    compile: (_dir, file) => ({ cmd: 'gcc', args: ['-O2', '-o', EXE_NAME, file, '-lm'] }),
+    execute: (dir, _file, limits) => nativeCommand(dir, limits)
+  },
+  go: {
+    language: 'Go',
+    sourceFile: () => 'main.go',
+    compile: (_dir, file) => ({ cmd: 'go', args: ['build', '-o', EXE_NAME, file] }),
+    execute: (dir, _file, limits) => nativeCommand(dir, limits)
+  },
+  rust: {
+    language: 'Rust',
+    sourceFile: () => 'main.rs',
+    compile: (_dir, file) => ({ cmd: 'rustc', args: ['--edition', '2021', '-O', '-o', EXE_NAME, file] }),
+    execute: (dir, _file, limits) => nativeCommand(dir, limits)
+  }
+};
+
+// The daemon runs Python in-process; interactive runs need a real process per program,
+// started through the daemon's launcher so they get the same sandbox
+const PYTHON_PROCESS_SPEC: ProcessRunnerSpec = {
+  language: 'Python',
+  sourceFile: () => 'main.py',
+  setup: () => pythonDaemon.prepareLauncher(),
+  execute: (dir, file, limits) => withResourceLimits(pythonDaemon.processCommand(path.join(dir, file)), limits)
+};
+
+const ALIASES: Record<string, string> = {
+  python3: 'python',
+  py: 'python',
+  js: 'javascript',
+  node: 'javascript',
+  ts: 'typescript',
+  cpp: 'c++',
+  golang: 'go',
+  rs: 'rust'
+};
+
+const runners = new Map<string, LanguageRunner>();
+let runLimits: Partial<RunLimits> = {};
+let poolSize: number | null = null;
+
+export function normalizeLanguage(language: string): string {
+  const key = (language || '').trim().toLowerCase();
+  return ALIASES[key] || key;
+}
+
+export function isLanguageSupported(language: string): boolean {
+  const key = normalizeLanguage(language);
+  return key === 'python' || key in SPECS;
+}
+
+export function getRunner(language: string): LanguageRunner {
+  const key = normalizeLanguage(language);
+  if (key === 'python') return pythonDaemon;
+
+  const existing = runners.get(key);
+  if (existing) return existing;
+
+  const spec = SPECS[key];
+  if (!spec) {
+    throw new Error(`No runner available for language: ${language}`);
+  }
+  return createRunner(key, spec);
+}
+
+// A process-per-run backend for any supported language, including Python
+export function getProcessRunner(language: string): ProcessRunner {
+  const key = normalizeLanguage(language);
+  if (key !== 'python') {
+    return getRunner(key) as ProcessRunner;
+  }
+  return (runners.get(key) as ProcessRunner | undefined) || createRunner(key, PYTHON_PROCESS_SPEC);
+}
+
+function createRunner(key: string, spec: ProcessRunnerSpec): ProcessRunner {
+  const runner = new ProcessRunner(spec);
+  runner.setLimits(runLimits);
+  if (poolSize !== null) runner.setPoolSize(poolSize);
+  runners.set(key, runner);
+  return runner;
+}
+
+// Apply limits to every backend, including ones created later
+export function setRunLimits(limits: Partial<RunLimits>): void {
+  runLimits = { ...runLimits, ...limits };
+  pythonDaemon.setLimits(runLimits);
+  for (const runner of runners.values()) {
+    runner.setLimits(runLimits);
+  }
+}
+
+export function setRunnerPoolSize(size: number): void {
+  poolSize = size;
+  pythonDaemon.setPoolSize(size);
+  for (const runner of runners.values()) {
+    runner.setPoolSize(size);
+  }
+}
+
+// Python is the only language with a sandbox policy; the process runner for it reads the
+// daemon's policy when it builds each command
+export function setSandboxPolicy(policy: Partial<SandboxPolicy>): void {
+  pythonDaemon.setSandboxPolicy(policy);
+}
+
+export async function stopAllRunners(): Promise<void> {
+  await Promise.all([pythonDaemon.stop(), ...Array.from(runners.values()).map(r => r.stop())]);
+}
@@ -0,0 +1,276 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
+import { getProcessRunner } from './index';
+import { CANCELLED_ERROR } from './languageRunner';
+import type { RunMetrics, RunStatus } from './languageRunner';
+import { MEMORY_ERROR_PATTERN, ProcessRunner, cpuLimitHit } from './processRunner';
+
+// Interactive problems: a Python judge and the solution run as two processes whose
+// stdin/stdout are cross-wired. The judge reads the test data from the file named by
+// argv[1] and reports "AC" or "WA <reason>" as the last line of its stderr.
+
+export interface TranscriptEntry {
+  from: 'judge' | 'solution';
+  text: string;
+}
+
+export interface InteractiveResult {
+  ok: boolean;
+  status: RunStatus; // of the solution process
+  verdict: 'accepted' | 'wrong' | 'timeout' | 'crash' | 'judge_error';
+  message?: string;
+  transcript: TranscriptEntry[];
+  truncated?: boolean;
+  metrics?: RunMetrics;
+}
+
+// One exchange per line, as shown to the model when repairing an interactive solution
+export function formatTranscript(transcript: TranscriptEntry[]): string {
+  return transcript.map(entry => `${entry.from === 'judge' ? '<' : '>'} ${entry.text}`).join('\n');
+}
+
+// Both sides are already gone or stuck once the judge has decided; do not wait long for the other
+const EXIT_GRACE_MS = 500;
+const TRANSCRIPT_LIMIT = 20000;
+// Written by the Python launcher when the sandbox stopped the program
+const SANDBOX_VIOLATION_PATTERN = /^Sandbox violation: /m;
+
+// Loaded programs per runner, keyed by source, so every test reuses one compile
+const loaded = new WeakMap<ProcessRunner, Map<string, number>>();
+
+// The program comes back retained, so loads made while it runs cannot evict it; release it afterwards
+async function loadCached(runner: ProcessRunner, code: string, signal?: AbortSignal): Promise<{ launch?: Launch; release?: () => Promise<void>; error?: string }> {
+  let byCode = loaded.get(runner);
+  if (!byCode) {
+    byCode = new Map();
+    loaded.set(runner, byCode);
+  }
+  let codeId = byCode.get(code);
+  // Evicted from the runner's cache: load again
+  if (codeId === undefined || !runner.commandFor(codeId)) {
+    const res = await runner.load(code, signal);
+    if (!res.ok || res.codeId === undefined) return { error: res.error || 'load failed' };
+    codeId = res.codeId;
+    byCode.set(code, codeId);
+  }
+  const launch = runner.commandFor(codeId);
+  const release = runner.retain(codeId);
+  if (!launch || !release) return { error: 'no code loaded' };
+  return { launch, release };
+}
+
+function killGroup(cp: ChildProcessWithoutNullStreams) {
+  try {
+    if (process.platform !== 'win32' && cp.pid) {
+      process.kill(-cp.pid, 'SIGKILL');
+    } else {
+      cp.kill('SIGKILL');
+    }
+  } catch {}
+}
+
+export async function runInteractive(language: string, code: string, judge: string, input?: string | string[], signal?: AbortSignal): Promise<InteractiveResult> {
+  const fail = (verdict: InteractiveResult['verdict'], message: string): InteractiveResult => ({
+    ok: false,
+    status: 'error',
+    verdict,
+    message,
+    transcript: []
+  });
+
+  let solutionRunner: ProcessRunner;
+  try {
+    solutionRunner = getProcessRunner(language);
+  } catch (err: any) {
+    return fail('crash', err?.message || `unsupported language: ${language}`);
+  }
+  const judgeRunner = getProcessRunner('python');
+
+  const solution = await loadCached(solutionRunner, code, signal);
+  if (solution.error) return fail('crash', solution.error);
+  const judged = await loadCached(judgeRunner, judge, signal);
+  if (judged.error) {
+    await solution.release!();
+    return fail('judge_error', `judge failed to load: ${judged.error}`);
+  }
+
+  // Next to the judge's source: the sandboxed judge may read its own directory and nothing else.
+  // Tests sharing a judge run in parallel, so every one gets its own file.
+  const dataFile = path.join(judged.launch!.cwd, `input-${Date.now()}-${Math.random().toString(36).substr(2, 9)}.txt`);
+  try {
+    if (signal?.aborted) return fail('crash', CANCELLED_ERROR);
+    try {
+      await fs.writeFile(dataFile, Array.isArray(input) ? input.join('\n') : (input || ''), { encoding: 'utf8' });
+    } catch (err: any) {
+      return fail('judge_error', `failed to write test data: ${err?.message || err}`);
+    }
+    return await interact(solution.launch!, judged.launch!, dataFile, signal);
+  } finally {
+    await solution.release!();
+    await judged.release!();
+    await fs.rm(dataFile, { force: true }).catch(() => {});
+  }
+}
+
+type Launch = NonNullable<ReturnType<ProcessRunner['commandFor']>>;
+
+function interact(solutionCmd: Launch, judgeCmd: Launch, dataFile: string, signal?: AbortSignal): Promise<InteractiveResult> {
+  return new Promise<InteractiveResult>((resolve) => {
+    const started = Date.now();
+    const transcript: TranscriptEntry[] = [];
+    let transcriptSize = 0;
+    let truncated = false;
+    const partial: Record<TranscriptEntry['from'], string> = { judge: '', solution: '' };
+    // Whole lines make a readable exchange; pieces without a newline wait for the rest
+    const record = (from: TranscriptEntry['from'], text: string, flush = false) => {
+      partial[from] += text;
+      const lines = partial[from].split('\n');
+      partial[from] = flush ? '' : lines.pop()!;
+      for (const line of lines) {
+        if (flush && line === '') continue;
+        if (transcriptSize + line.length > TRANSCRIPT_LIMIT) {
+          truncated = true;
+          continue;
+        }
+        transcriptSize += line.length;
+        transcript.push({ from, text: line });
+      }
+    };
+
+    const spawnSide = (launch: Launch, extraArgs: string[]) => spawn(launch.command.cmd, [...launch.command.args, ...extraArgs], {
+      cwd: launch.cwd,
+      env: launch.command.env || process.env,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      detached: process.platform !== 'win32'
+    });
+    const sol = spawnSide(solutionCmd, []);
+    const jdg = spawnSide(judgeCmd, [dataFile]);
+
+    let solStderr = '';
+    let jdgStderr = '';
+    let solExit: { code: number | null; signal: NodeJS.Signals | null } | null = null;
+    let jdgExit: { code: number | null; signal: NodeJS.Signals | null } | null = null;
+    // Whether the judge was still running when the solution ended; the judge usually follows right after
+    let solEndedFirst = false;
+    let spawnError: string | null = null;
+    let timedOut = false;
+    let cancelled = false;
+    let settled = false;
+    let grace: NodeJS.Timeout | null = null;
+
+    // Closed pipes on either side are expected when the other one quits first
+    for (const stream of [sol.stdin, jdg.stdin]) stream.on('error', () => {});
+    sol.stdout.on('data', (chunk: Buffer) => {
+      const text = chunk.toString('utf8');
+      record('solution', text);
+      if (jdg.stdin.writable) jdg.stdin.write(text);
+    });
+    jdg.stdout.on('data', (chunk: Buffer) => {
+      const text = chunk.toString('utf8');
+      record('judge', text);
+      if (sol.stdin.writable) sol.stdin.write(text);
+    });
+    sol.stderr.on('data', (chunk: Buffer) => { solStderr = (solStderr + chunk.toString('utf8')).slice(-4000); });
+    jdg.stderr.on('data', (chunk: Buffer) => { jdgStderr = (jdgStderr + chunk.toString('utf8')).slice(-4000); });
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup(sol);
+      killGroup(jdg);
+    }, solutionCmd.timeoutMs > 0 ? solutionCmd.timeoutMs : 10000);
+
+    const onAbort = () => {
+      cancelled = true;
+      finish();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const finish = () => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      if (grace) clearTimeout(grace);
+      killGroup(sol);
+      killGroup(jdg);
+      record('solution', '', true);
+      record('judge', '', true);
+      resolve(decide());
+    };
+
+    const decide = (): InteractiveResult => {
+      const base = { transcript, truncated: truncated || undefined, metrics: { wallMs: Date.now() - started } };
+      if (cancelled) {
+        return { ...base, ok: false, status: 'error', verdict: 'crash', message: CANCELLED_ERROR };
+      }
+      if (spawnError) {
+        return { ...base, ok: false, status: 'error', verdict: 'crash', message: spawnError };
+      }
+      const lines = jdgStderr.trim().split('\n');
+      const last = (lines[lines.length - 1] || '').trim();
+      const word = last.split(/\s+/)[0].toUpperCase();
+      const reason = last.slice(word.length).trim() || undefined;
+      const solCrashed = !!solExit && solExit.code !== 0 && solExit.code !== null;
+      // We only kill the solution once the judge is done, so a kill before that came from elsewhere
+      const killed = !!solExit && (solExit.signal === 'SIGXCPU' || (solExit.signal === 'SIGKILL' && solEndedFirst));
+      const cpuKilled = killed && cpuLimitHit(solExit!.signal, base.metrics, solutionCmd.cpuSeconds);
+
+      if (timedOut || cpuKilled) {
+        return { ...base, ok: false, status: 'timeout', verdict: 'timeout', message: timedOut ? `Time limit exceeded (${solutionCmd.timeoutMs} ms)` : 'CPU time limit exceeded' };
+      }
+      if (killed) {
+        return { ...base, ok: false, status: 'memory_limit', verdict: 'crash', message: 'Killed by the system (most likely out of memory)' };
+      }
+      // The judge only sees a solution that went quiet; what stopped it matters more than its verdict
+      if (solCrashed && SANDBOX_VIOLATION_PATTERN.test(solStderr)) {
+        return { ...base, ok: false, status: 'sandbox_violation', verdict: 'crash', message: solStderr.trim().split('\n').pop() };
+      }
+      if (word === 'AC' && !solCrashed) {
+        return { ...base, ok: true, status: 'ok', verdict: 'accepted', message: reason };
+      }
+      // A solution that dies on EOF after the judge hung up is a consequence, not the cause
+      if (word === 'WA') {
+        const crashNote = solCrashed ? ` (solution exited with: ${solStderr.trim().split('\n').pop()})` : '';
+        return { ...base, ok: false, status: 'ok', verdict: 'wrong', message: (reason || 'wrong answer') + crashNote };
+      }
+      if (word !== 'AC' && jdgExit && jdgExit.code !== 0) {
+        return { ...base, ok: false, status: 'ok', verdict: 'judge_error', message: `judge failed: ${jdgStderr.trim() || `exit code ${jdgExit.code}`}` };
+      }
+      if (solCrashed) {
+        const memory = MEMORY_ERROR_PATTERN.test(solStderr);
+        return {
+          ...base,
+          ok: false,
+          status: memory ? 'memory_limit' : 'error',
+          verdict: 'crash',
+          message: memory ? 'Memory limit exceeded' : solStderr.trim() || `process exited (code=${solExit!.code})`
+        };
+      }
+      return { ...base, ok: false, status: 'ok', verdict: 'judge_error', message: `judge gave no verdict: ${jdgStderr.trim() || `exit code ${jdgExit?.code}`}` };
+    };
+
+    sol.once('error', (err: NodeJS.ErrnoException) => {
+      spawnError = err.code === 'ENOENT' ? `${solutionCmd.command.cmd} not found on PATH` : `failed to start ${solutionCmd.command.cmd}: ${err.message}`;
+      finish();
+    });
+    jdg.once('error', (err: NodeJS.ErrnoException) => {
+      spawnError = `failed to start judge: ${err.message}`;
+      finish();
+    });
+    sol.once('close', (code, signal) => {
+      solExit = { code, signal };
+      solEndedFirst = !jdgExit;
+      // EOF lets the judge notice that the solution stopped talking
+      jdg.stdin.end();
+      if (jdgExit) finish();
+      else if (!grace) grace = setTimeout(finish, EXIT_GRACE_MS);
+    });
+    jdg.once('close', (code, signal) => {
+      jdgExit = { code, signal };
+      sol.stdin.end();
+      if (solExit) finish();
+      else if (!grace) grace = setTimeout(finish, EXIT_GRACE_MS);
+    });
+  });
+}
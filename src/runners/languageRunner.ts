@@ -0,0 +1,48 @@
+import type { PythonResponse } from '../pythonDaemon';
+
+export type { RunStatus } from '../pythonDaemon';
+export type { RunMetrics } from '../shared/metrics';
+
+// All backends answer with the same shape the python daemon uses, so the
+// renderer and agents can treat every language identically.
+export type RunResponse = PythonResponse;
+
+export interface RunLimits {
+  timeoutMs: number; // wall clock per run
+  memoryMb: number; // 0 = unlimited
+  cpuSeconds: number; // 0 = unlimited
+}
+
+export const DEFAULT_RUN_LIMITS: RunLimits = {
+  timeoutMs: 10000,
+  memoryMb: 512,
+  cpuSeconds: 10
+};
+
+// What an aborted load or run resolves with; callers tell it apart by their signal
+export const CANCELLED_ERROR = 'Cancelled';
+
+export interface LanguageRunner {
+  readonly language: string;
+  // Resolves with a codeId; runs without one use the most recently loaded code.
+  // Aborting the signal kills the program and resolves with CANCELLED_ERROR.
+  load(code: string, signal?: AbortSignal): Promise<RunResponse>;
+  run(input?: string | string[], codeId?: number, signal?: AbortSignal): Promise<RunResponse>;
+  // False once the code was evicted from the runner's cache (or never loaded)
+  isLoaded(codeId: number): boolean;
+  stop(): Promise<void>;
+  setLimits(limits: Partial<RunLimits>): void;
+  // Maximum number of runs executing at the same time
+  setPoolSize(size: number): void;
+}
+
+// Same input handling as the python daemon: arrays are lines, and escaped
+// newlines coming from model JSON are turned into real ones.
+export function normalizeInput(raw?: string | string[]): string {
+  if (Array.isArray(raw)) return raw.join('\n');
+  if (typeof raw !== 'string') return raw === undefined || raw === null ? '' : String(raw);
+  if (raw.includes('\\n')) {
+    return raw.replace(/\\n/g, '\n').replace(/\\t/g, '\t').replace(/\\r/g, '\r');
+  }
+  return raw;
+}
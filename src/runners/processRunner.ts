@@ -0,0 +1,467 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { Readable } from 'stream';
+import { CANCELLED_ERROR, DEFAULT_RUN_LIMITS, LanguageRunner, RunLimits, RunMetrics, RunResponse, normalizeInput } from './languageRunner';
+
+// Compilers get a fixed budget; the configurable limits only apply to the solution itself
+const COMPILE_TIMEOUT_MS = 60000;
+// How many compiled programs are kept addressable by codeId
+const MAX_LOADED_CODES = 16;
+
+export interface RunnerCommand {
+  cmd: string;
+  args: string[];
+  env?: NodeJS.ProcessEnv;
+  // The command reports RunMetrics as JSON on fd 3 (see withMetrics)
+  metrics?: boolean;
+}
+
+// Describes how one language is compiled (optional) and executed in a work dir
+export interface ProcessRunnerSpec {
+  language: string;
+  sourceFile: (code: string) => string;
+  prepare?: (code: string) => string;
+  // Awaited before every load, e.g. to write a launcher script that execute() refers to
+  setup?: () => Promise<void>;
+  compile?: (dir: string, file: string) => RunnerCommand;
+  execute: (dir: string, file: string, limits: RunLimits) => RunnerCommand;
+}
+
+interface ProcessResult {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+  stdout: string;
+  stderr: string;
+  timedOut?: boolean;
+  cancelled?: boolean;
+  spawnError?: NodeJS.ErrnoException;
+  metrics: RunMetrics;
+}
+
+// Wrap a command in `ulimit` so the kernel enforces the memory/CPU caps (no-op on Windows)
+export function withResourceLimits(command: RunnerCommand, limits: { memoryMb?: number; cpuSeconds?: number }): RunnerCommand {
+  if (process.platform === 'win32') return command;
+  const parts: string[] = [];
+  if (limits.memoryMb && limits.memoryMb > 0) parts.push(`ulimit -v ${Math.floor(limits.memoryMb * 1024)}`);
+  if (limits.cpuSeconds && limits.cpuSeconds > 0) parts.push(`ulimit -t ${Math.ceil(limits.cpuSeconds)}`);
+  if (parts.length === 0) return command;
+  return {
+    cmd: '/bin/sh',
+    args: ['-c', `${parts.join(' && ')} && exec "$0" "$@"`, command.cmd, ...command.args],
+    env: command.env
+  };
+}
+
+// Node cannot get rusage of a child, so runs go through a small Python launcher that
+// waits with wait4(). ru_maxrss also counts the launcher's own memory at exec time, so
+// when the child never grew past that the peak is taken from /proc samples instead.
+const METRICS_PYTHON = process.env.PYTHON_PATH || 'python3';
+const METRICS_SCRIPT = [
+  'import os, sys, time, json, signal, resource, threading',
+  'SELF = os.path.realpath(sys.executable)',
+  'argv = sys.argv[1:]',
+  'start = time.perf_counter()',
+  'try:',
+  '    pid = os.posix_spawnp(argv[0], argv, os.environ, file_actions=[(os.POSIX_SPAWN_CLOSE, 3)])',
+  'except OSError as e:',
+  '    os.write(3, json.dumps({"spawnError": e.errno}).encode())',
+  '    sys.exit(127)',
+  'sampled = [0]',
+  'running = [True]',
+  'def sample():',
+  '    delay = 0.001',
+  '    while running[0]:',
+  '        try:',
+  '            if os.path.realpath("/proc/%d/exe" % pid) != SELF:',
+  '                with open("/proc/%d/status" % pid) as f:',
+  '                    for line in f:',
+  '                        if line.startswith("VmHWM:"):',
+  '                            sampled[0] = max(sampled[0], int(line.split()[1]))',
+  '        except (OSError, ValueError):',
+  '            pass',
+  '        time.sleep(delay)',
+  '        delay = min(delay * 2, 0.02)',
+  'if os.path.isdir("/proc"):',
+  '    threading.Thread(target=sample, daemon=True).start()',
+  '_, status, usage = os.wait4(pid, 0)',
+  'wall = (time.perf_counter() - start) * 1000',
+  'running[0] = False',
+  'own = resource.getrusage(resource.RUSAGE_SELF).ru_maxrss',
+  'peak = usage.ru_maxrss if usage.ru_maxrss > own else sampled[0]',
+  'if sys.platform == "darwin":',
+  '    peak //= 1024',
+  'metrics = {"wallMs": wall, "cpuMs": (usage.ru_utime + usage.ru_stime) * 1000}',
+  'if peak:',
+  '    metrics["peakRssKb"] = peak',
+  'os.write(3, json.dumps(metrics).encode())',
+  'if os.WIFSIGNALED(status):',
+  '    sig = os.WTERMSIG(status)',
+  '    if sig not in (signal.SIGKILL, signal.SIGSTOP):',
+  '        signal.signal(sig, signal.SIG_DFL)',
+  '    os.kill(os.getpid(), sig)',
+  'sys.exit(os.WEXITSTATUS(status))'
+].join('\n');
+
+// Set once the launcher turned out not to be runnable; runs then only get wall time
+let metricsUnavailable = process.platform === 'win32';
+
+export function withMetrics(command: RunnerCommand): RunnerCommand {
+  if (metricsUnavailable) return command;
+  return {
+    cmd: METRICS_PYTHON,
+    args: ['-S', '-c', METRICS_SCRIPT, command.cmd, ...command.args],
+    env: command.env,
+    metrics: true
+  };
+}
+
+export const MEMORY_ERROR_PATTERN = /bad_alloc|memory allocation of \d+ bytes failed|out of memory|OutOfMemoryError|MemoryError|Cannot allocate memory/i;
+
+// CPU time is sampled per tick, so a program stopped at the limit can report slightly less
+const CPU_LIMIT_SLACK_MS = 100;
+
+// `ulimit -t` stops a program with SIGXCPU, or with SIGKILL when the hard limit is reached
+// (Linux sends that straight away when both are equal, as `ulimit -t` sets them). Any other
+// SIGKILL we did not send ourselves comes from outside, usually the OOM killer. Without a
+// CPU time the wall time stands in for it: a single-threaded program cannot use more.
+export function cpuLimitHit(exitSignal: NodeJS.Signals | null, metrics: RunMetrics, cpuSeconds: number): boolean {
+  if (exitSignal === 'SIGXCPU') return true;
+  if (exitSignal !== 'SIGKILL' || !(cpuSeconds > 0)) return false;
+  const used = metrics.cpuMs ?? metrics.wallMs;
+  return used >= Math.ceil(cpuSeconds) * 1000 - CPU_LIMIT_SLACK_MS;
+}
+
+export function runProcess(command: RunnerCommand, cwd: string, input: string, timeoutMs?: number, signal?: AbortSignal): Promise<ProcessResult> {
+  return new Promise<ProcessResult>((resolve) => {
+    let stdout = '';
+    let stderr = '';
+    let settled = false;
+    let timedOut = false;
+    let cancelled = false;
+    let report = '';
+    let timer: NodeJS.Timeout | null = null;
+    const started = Date.now();
+    const finish = (result: Omit<ProcessResult, 'metrics'>) => {
+      if (settled) return;
+      settled = true;
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      resolve(withReport(result, report, Date.now() - started));
+    };
+    if (signal?.aborted) {
+      resolve({ code: null, signal: null, stdout, stderr, cancelled: true, metrics: { wallMs: 0 } });
+      return;
+    }
+
+    // Own process group, so a timeout also kills whatever the launcher or `sh` started
+    const detached = process.platform !== 'win32';
+    const cp = spawn(command.cmd, command.args, {
+      cwd,
+      env: command.env || process.env,
+      stdio: command.metrics ? ['pipe', 'pipe', 'pipe', 'pipe'] : ['pipe', 'pipe', 'pipe'],
+      detached
+    });
+    cp.stdout!.on('data', (chunk: Buffer) => { stdout += chunk.toString('utf8'); });
+    cp.stderr!.on('data', (chunk: Buffer) => { stderr += chunk.toString('utf8'); });
+    if (command.metrics) {
+      (cp.stdio[3] as Readable).on('data', (chunk: Buffer) => { report += chunk.toString('utf8'); });
+    }
+    cp.once('error', (err: NodeJS.ErrnoException) => {
+      finish({ code: null, signal: null, stdout, stderr, spawnError: err });
+    });
+    cp.once('close', (code, exitSignal) => {
+      finish({ code, signal: exitSignal, stdout, stderr, timedOut, cancelled });
+    });
+    const kill = () => {
+      try {
+        if (detached && cp.pid) {
+          process.kill(-cp.pid, 'SIGKILL');
+        } else {
+          cp.kill('SIGKILL');
+        }
+      } catch {}
+    };
+    const onAbort = () => {
+      cancelled = true;
+      kill();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    if (timeoutMs && timeoutMs > 0) {
+      timer = setTimeout(() => {
+        timedOut = true;
+        kill();
+      }, timeoutMs);
+    }
+    // The program may exit without reading its input; ignore EPIPE
+    cp.stdin!.on('error', () => {});
+    cp.stdin!.end(input, 'utf8');
+  });
+}
+
+// Fold the launcher's report into the result; a spawn failure it reports is the target's own
+function withReport(result: Omit<ProcessResult, 'metrics'>, report: string, elapsedMs: number): ProcessResult {
+  let parsed: any = null;
+  try {
+    parsed = report ? JSON.parse(report) : null;
+  } catch {}
+  if (parsed && typeof parsed.spawnError === 'number') {
+    const spawnError: NodeJS.ErrnoException = new Error(`errno ${parsed.spawnError}`);
+    if (parsed.spawnError === os.constants.errno.ENOENT) spawnError.code = 'ENOENT';
+    return { ...result, spawnError, metrics: { wallMs: elapsedMs } };
+  }
+  if (parsed && typeof parsed.wallMs === 'number') {
+    return { ...result, metrics: parsed };
+  }
+  return { ...result, metrics: { wallMs: elapsedMs } };
+}
+
+function describeSpawnError(command: RunnerCommand, err: NodeJS.ErrnoException): string {
+  if (err.code === 'ENOENT') {
+    return `${command.cmd} not found on PATH`;
+  }
+  return `failed to start ${command.cmd}: ${err.message}`;
+}
+
+interface LoadedProgram {
+  dir: string;
+  file: string;
+  runs: number; // runs in progress; the program is not evicted while there are any
+}
+
+// Generic compile-and-run backend: every load gets a fresh temp dir, every run a fresh process
+export class ProcessRunner implements LanguageRunner {
+  private spec: ProcessRunnerSpec;
+  private nextId = 1;
+  private programs: Map<number, LoadedProgram> = new Map();
+  private currentCodeId: number | null = null;
+  private limits: RunLimits = { ...DEFAULT_RUN_LIMITS };
+  private poolSize = Math.max(2, Math.min(4, os.cpus().length));
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(spec: ProcessRunnerSpec) {
+    this.spec = spec;
+  }
+
+  get language(): string {
+    return this.spec.language;
+  }
+
+  setLimits(limits: Partial<RunLimits>): void {
+    this.limits = { ...this.limits, ...limits };
+  }
+
+  setPoolSize(size: number): void {
+    this.poolSize = Math.max(1, Math.floor(size) || 1);
+    while (this.active < this.poolSize && this.waiting.length > 0) {
+      this.active++;
+      this.waiting.shift()!();
+    }
+  }
+
+  async load(code: string, signal?: AbortSignal): Promise<RunResponse> {
+    const id = this.nextId++;
+    if (signal?.aborted) {
+      return { id, ok: false, error: CANCELLED_ERROR };
+    }
+
+    let source: string;
+    try {
+      if (this.spec.setup) await this.spec.setup();
+      source = this.spec.prepare ? this.spec.prepare(code) : code;
+    } catch (err: any) {
+      return { id, ok: false, error: err?.message || 'prepare failed' };
+    }
+
+    const file = this.spec.sourceFile(code);
+    let dir: string;
+    try {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'crackcoder-'));
+    } catch (err: any) {
+      return { id, ok: false, error: `failed to create work dir: ${err?.message || err}` };
+    }
+    try {
+      await fs.writeFile(path.join(dir, file), source, { encoding: 'utf8' });
+    } catch (err: any) {
+      await removeDir(dir);
+      return { id, ok: false, error: `failed to write source: ${err?.message || err}` };
+    }
+
+    if (this.spec.compile) {
+      const command = this.spec.compile(dir, file);
+      const res = await this.withSlot(() => runProcess(command, dir, '', COMPILE_TIMEOUT_MS, signal));
+      if (res.spawnError || res.timedOut || res.cancelled || res.code !== 0) {
+        await removeDir(dir);
+      }
+      if (res.cancelled) {
+        return { id, ok: false, error: CANCELLED_ERROR };
+      }
+      if (res.spawnError) {
+        return { id, ok: false, error: describeSpawnError(command, res.spawnError) };
+      }
+      if (res.timedOut) {
+        return { id, ok: false, status: 'timeout', error: `compile timed out (${COMPILE_TIMEOUT_MS} ms)` };
+      }
+      if (res.code !== 0) {
+        return {
+          id,
+          ok: false,
+          stdout: res.stdout,
+          stderr: res.stderr,
+          error: res.stderr || res.stdout || `compile failed (code=${res.code}, signal=${res.signal})`
+        };
+      }
+    }
+
+    const codeId = id;
+    this.programs.set(codeId, { dir, file, runs: 0 });
+    this.currentCodeId = codeId;
+    await this.evictIdle();
+    return { id, ok: true, codeId };
+  }
+
+  async run(input?: string | string[], codeId?: number, signal?: AbortSignal): Promise<RunResponse> {
+    const id = this.nextId++;
+    const key = codeId ?? this.currentCodeId;
+    const program = key !== null ? this.programs.get(key) : undefined;
+    if (!program) {
+      return { id, ok: false, error: 'no code loaded' };
+    }
+    const command = this.spec.execute(program.dir, program.file, this.limits);
+    const stdin = normalizeInput(input);
+    const measured = withMetrics(command);
+    const release = this.retain(key!)!;
+    let res: ProcessResult;
+    try {
+      res = await this.withSlot(() => runProcess(measured, program.dir, stdin, this.limits.timeoutMs, signal));
+      // Node's own spawn error carries the launcher path; the target's comes from the launcher's report
+      if (measured.metrics && res.spawnError?.path === measured.cmd) {
+        metricsUnavailable = true;
+        res = await this.withSlot(() => runProcess(command, program.dir, stdin, this.limits.timeoutMs, signal));
+      }
+    } finally {
+      await release();
+    }
+    const metrics = res.metrics;
+    if (res.cancelled) {
+      return { id, ok: false, status: 'error', error: CANCELLED_ERROR, metrics };
+    }
+    if (res.spawnError) {
+      return { id, ok: false, status: 'error', error: describeSpawnError(command, res.spawnError), metrics };
+    }
+    if (res.timedOut || cpuLimitHit(res.signal, metrics, this.limits.cpuSeconds)) {
+      return {
+        id,
+        ok: false,
+        status: 'timeout',
+        stdout: res.stdout,
+        stderr: res.stderr,
+        error: res.timedOut ? `Time limit exceeded (${this.limits.timeoutMs} ms)` : 'CPU time limit exceeded',
+        metrics
+      };
+    }
+    if (res.signal === 'SIGKILL') {
+      return {
+        id,
+        ok: false,
+        status: 'memory_limit',
+        stdout: res.stdout,
+        stderr: res.stderr,
+        error: 'Killed by the system (most likely out of memory)',
+        metrics
+      };
+    }
+    if (res.code !== 0) {
+      const memory = MEMORY_ERROR_PATTERN.test(res.stderr);
+      return {
+        id,
+        ok: false,
+        status: memory ? 'memory_limit' : 'error',
+        stdout: res.stdout,
+        stderr: res.stderr,
+        error: memory ? 'Memory limit exceeded' : res.stderr || `process exited (code=${res.code}, signal=${res.signal})`,
+        metrics
+      };
+    }
+    return { id, ok: true, status: 'ok', stdout: res.stdout, stderr: res.stderr, metrics };
+  }
+
+  isLoaded(codeId: number): boolean {
+    return this.programs.has(codeId);
+  }
+
+  // Command, work dir and timeout of a loaded program, for callers that drive the process themselves
+  commandFor(codeId?: number): { command: RunnerCommand; cwd: string; timeoutMs: number; cpuSeconds: number } | null {
+    const key = codeId ?? this.currentCodeId;
+    const program = key !== null ? this.programs.get(key) : undefined;
+    if (!program) return null;
+    return {
+      command: this.spec.execute(program.dir, program.file, this.limits),
+      cwd: program.dir,
+      timeoutMs: this.limits.timeoutMs,
+      cpuSeconds: this.limits.cpuSeconds
+    };
+  }
+
+  // Keeps a loaded program from being evicted while the caller runs it; the returned
+  // function gives it back. Null when the program is not loaded.
+  retain(codeId: number): (() => Promise<void>) | null {
+    const program = this.programs.get(codeId);
+    if (!program) return null;
+    program.runs++;
+    let released = false;
+    return async () => {
+      if (released) return;
+      released = true;
+      program.runs--;
+      await this.evictIdle();
+    };
+  }
+
+  async stop(): Promise<void> {
+    const dirs = Array.from(this.programs.values()).map(p => p.dir);
+    this.programs.clear();
+    this.currentCodeId = null;
+    await Promise.all(dirs.map(removeDir));
+  }
+
+  // Oldest first, skipping programs with runs in progress (they go once those finish)
+  private async evictIdle(): Promise<void> {
+    const evicted: string[] = [];
+    for (const [key, program] of this.programs) {
+      if (this.programs.size <= MAX_LOADED_CODES) break;
+      if (program.runs > 0 || key === this.currentCodeId) continue;
+      this.programs.delete(key);
+      evicted.push(program.dir);
+    }
+    await Promise.all(evicted.map(removeDir));
+  }
+
+  private async withSlot<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.poolSize) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      return await task();
+    } finally {
+      // Hand the slot straight to the next waiter, unless the pool has shrunk below the
+      // number of runs in progress: then it is freed, and waiters wait for the count to drop
+      const next = this.active <= this.poolSize ? this.waiting.shift() : undefined;
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
+
+async function removeDir(dir: string): Promise<void> {
+  try {
+    await fs.rm(dir, { recursive: true, force: true });
+  } catch {}
+}
@@ -1,37 +1,72 @@
-import OpenAI from 'openai';
+import { LLMError, LLMProvider } from './providers';
 import { ClassifyAgent } from './agents/classifyAgent';
 import { ExtractAgent, ExtractedProblem } from './agents/extractAgent';
 import { VerifyAgent } from './agents/verifyAgent';
-import { CodeAgent, CodeSolution } from './agents/codeAgent';
+import { CANDIDATE_COUNT, CodeAgent, CodeSolution } from './agents/codeAgent';
+import { StressAgent, StressReport } from './agents/stressAgent';
+import { BenchmarkAgent, BenchmarkReport } from './agents/benchmarkAgent';
+import { EdgeCaseAgent, EdgeCaseResult } from './agents/edgeCaseAgent';
+import { RunMetrics, summarizeMetrics } from '../shared/metrics';
+import { CacheMode } from './responseCache';
+import { SchemaValidationError } from './structuredOutput';
+import { PromptId, promptVersions } from './prompts';
+import { LocalizedError, Message, MessageText, errorText, msg } from '../shared/i18n';
+import { Route, RoutingTable, WorkflowRole, resolveRoute } from '../shared/routing';
+import { isCancelled } from '../shared/cancel';
 
-// Workflow状态和进度类型定义
+// Workflow状态和进度类型定义；步骤和说明以消息键发送，由前端按界面语言显示
 export interface WorkflowState {
-  currentStep: string;
+  currentStep: Message;
   progress: number; // 0-100
-  stepDetails: string;
-  error?: string;
+  stepDetails: Message;
+  error?: MessageText;
   extractedExamples?: number; // 提取到的例子数量
   parallelTasks?: Array<{
     id: number;
     status: 'pending' | 'running' | 'success' | 'failed';
-    model: string;
-    error?: string;
+    model: string; // 实际调用的模型
+    error?: MessageText;
     testsPassed?: number;
     testsTotal?: number;
+    metrics?: RunMetrics; // 各例子运行耗时之和、内存峰值取最大
   }>;
+  repairAttempts?: RepairAttempt[]; // 自动修复的历史记录
   completed?: boolean; // 是否已完成
+  cachedSteps?: string[]; // 命中缓存、没有调用模型的步骤
+  stepModels?: Partial<Record<WorkflowRole, string>>; // 已执行的各步骤实际调用的模型
 }
 
+// 一次自动修复的结果
+export interface RepairAttempt {
+  attempt: number;
+  status: 'running' | 'success' | 'failed';
+  testsPassed?: number;
+  testsTotal?: number;
+  results?: boolean[]; // 每个例子是否通过
+  error?: MessageText;
+}
+
+// 例子未全部通过时最多自动修复的次数
+const MAX_REPAIR_ATTEMPTS = 3;
+
 export interface WorkflowResult {
   success: boolean;
   data?: any;
-  error?: string;
+  error?: MessageText;
   selectedResult?: {
     index: number;
-    reason: string;
+    reason: Message;
   };
 }
 
+// 可选步骤开关
+export interface WorkflowOptions {
+  benchmark?: boolean; // 实测时间复杂度，耗时较长
+  cacheMode?: CacheMode; // 分类和提取是否读写缓存，默认读写
+  routing?: RoutingTable; // 各步骤使用的模型和参数，未配置的用默认值
+  signal?: AbortSignal; // 取消本次运行，传给所有模型调用和程序运行
+}
+
 // Workflow状态更新回调
 type StatusCallback = (state: WorkflowState) => void;
 
@@ -44,40 +79,54 @@ interface Screenshot {
 
 // Agent Workflow主类
 export class AgentWorkflow {
-  private openai: OpenAI;
+  private llm: LLMProvider;
   private language: string;
   private onStatusUpdate: StatusCallback;
   private classifyAgent: ClassifyAgent;
   private extractAgent: ExtractAgent;
   private verifyAgent: VerifyAgent;
   private codeAgent: CodeAgent;
+  private stressAgent: StressAgent;
+  private benchmarkAgent: BenchmarkAgent;
+  private edgeCaseAgent: EdgeCaseAgent;
+  private options: WorkflowOptions;
+  private repairAttempts: RepairAttempt[] = [];
+  private cachedSteps: string[] = [];
+  private stepModels: Partial<Record<WorkflowRole, string>> = {};
 
-  constructor(openai: OpenAI, language: string, onStatusUpdate: StatusCallback) {
-    this.openai = openai;
+  constructor(llm: LLMProvider, language: string, onStatusUpdate: StatusCallback, options: WorkflowOptions = {}) {
+    this.llm = llm;
     this.language = language;
     this.onStatusUpdate = onStatusUpdate;
+    this.options = options;
     
     // 初始化所有agents
-    this.classifyAgent = new ClassifyAgent(openai);
-    this.extractAgent = new ExtractAgent(openai);
-    this.verifyAgent = new VerifyAgent(openai);
-    this.codeAgent = new CodeAgent(openai, language, (tasks) => {
+    const signal = options.signal;
+    this.classifyAgent = new ClassifyAgent(llm, this.route('classify'), signal);
+    this.extractAgent = new ExtractAgent(llm, this.route('extract'), signal);
+    this.verifyAgent = new VerifyAgent(llm, this.route('verify'), signal);
+    this.codeAgent = new CodeAgent(llm, language, (tasks) => {
       // 转发并行任务进度
       this.onStatusUpdate({
-        currentStep: '生成代码解决方案...',
+        currentStep: msg('step.generate'),
         progress: 80,
-        stepDetails: `${tasks.filter((t: any) => t.status === 'success').length}/${tasks.length} 个解决方案已完成`,
-        parallelTasks: tasks
+        stepDetails: msg('detail.generateProgress', { done: tasks.filter((t: any) => t.status === 'success').length, total: tasks.length }),
+        parallelTasks: tasks,
+        stepModels: this.currentStepModels()
       });
-    });
+    }, signal);
+    this.stressAgent = new StressAgent(llm, language, this.route('stress'), signal);
+    this.benchmarkAgent = new BenchmarkAgent(llm, language, this.route('benchmark'), signal);
+    this.edgeCaseAgent = new EdgeCaseAgent(llm, language, this.route('edgeCases'), signal);
   }
 
   // 主入口 - 只在pro模式下调用
   async executeProWorkflow(screenshots: Screenshot[]): Promise<WorkflowResult> {
     try {
-      this.updateStatus('问题分类中...', 10, '正在分析问题类型');
+      this.updateStatus(msg('step.classify'), 10, msg('detail.classify'));
       
       // Step 1: 问题分类
+      this.markServed('classify');
       const questionType = await this.classifyQuestion(screenshots);
       
       if (questionType === 'coding') {
@@ -86,24 +135,40 @@ export class AgentWorkflow {
         return await this.executeGeneralWorkflow(screenshots);
       }
     } catch (error: any) {
+      // 已取消的运行不再更新进度，由调用方处理
+      if (isCancelled(error)) throw error;
+      const message = errorText(error, msg('error.workflow'));
+      // 失败原因（如限流、鉴权）留在进度面板上
+      this.onStatusUpdate({
+        currentStep: msg('step.failed'),
+        progress: 100,
+        stepDetails: msg('detail.error', { message }),
+        error: message,
+        repairAttempts: this.repairAttempts.length > 0 ? this.repairAttempts.map(a => ({ ...a })) : undefined,
+        completed: true,
+        stepModels: this.currentStepModels()
+      });
       return {
         success: false,
-        error: error?.message || '工作流执行失败'
+        error: message
       };
     }
   }
 
   // 编程问题工作流
   private async executeCodingWorkflow(screenshots: Screenshot[]): Promise<WorkflowResult> {
-    this.updateStatus('文本提取中...', 30, '从图片中提取题目文本和例子');
+    this.updateStatus(msg('step.extract'), 30, msg('detail.extract'));
     
     // Step 2: 文本提取 (最多3次尝试)
+    this.markServed('extract');
     let extractedText: ExtractedProblem | null = null;
     for (let attempt = 1; attempt <= 3; attempt++) {
       try {
-        extractedText = await this.extractAgent.extractProblemText(screenshots);
+        // 重试时不再读缓存，否则会拿回同一份结果
+        extractedText = await this.extractAgent.extractProblemText(screenshots, attempt > 1 ? 'refresh' : this.options.cacheMode);
+        if (this.extractAgent.cachedAt) this.cachedSteps.push('extract');
         
-        this.updateStatus('验证提取结果...', 50, `第${attempt}次验证提取的文本内容`);
+        this.updateStatus(msg('step.verify'), 50, msg('detail.verify', { attempt }));
         
         // Step 3: 验证提取结果
         
@@ -112,47 +177,113 @@ export class AgentWorkflow {
         if (isValid) {
           break;
         } else if (attempt === 3) {
-          throw new Error('文本提取验证失败，已达到最大重试次数');
+          throw new LocalizedError(msg('error.extractVerify'));
         }
         
-        this.updateStatus('重新提取文本...', 40 + attempt * 5, `第${attempt}次提取失败，正在重试`);
+        this.updateStatus(msg('step.reextract'), 40 + attempt * 5, msg('detail.reextract', { attempt }));
       } catch (error) {
-        if (attempt === 3) throw error;
+        // 接口错误已经在请求层按退避重试过，格式错误也已经让模型修正过
+        if (attempt === 3 || error instanceof LLMError || error instanceof SchemaValidationError || isCancelled(error)) throw error;
       }
     }
 
     if (!extractedText) {
-      throw new Error('无法提取有效的问题文本');
+      throw new LocalizedError(msg('error.extractInvalid'));
     }
 
     // 显示提取到的examples数量
     const exampleCount = extractedText.examples ? extractedText.examples.length : 0;
-    this.updateStatus('生成代码解决方案...', 70, `提取到${exampleCount}个测试例子，并发调用3个模型生成解决方案`, exampleCount);
+    this.updateStatus(msg('step.generate'), 70, msg('detail.generate', { examples: exampleCount, models: CANDIDATE_COUNT }), exampleCount);
     
-    // Step 4: 并发生成3个解决方案
-    const solutions = await this.codeAgent.generateCodeSolutions(extractedText);
+    // Step 4: 并发生成多个解决方案
+    this.markServed('code');
+    const solutions = await this.codeAgent.generateCodeSolutions(extractedText, this.route('code'));
     
-    this.updateStatus('选择最佳解决方案...', 90, '根据成功率和优先级选择结果');
+    this.updateStatus(msg('step.select'), 90, msg('detail.select'));
     
     // Step 5: 选择最佳解决方案
     const bestSolution = this.selectBestCodeSolution(solutions);
+
+    // Step 6: 例子未全部通过时，把失败信息反馈给模型进行有限次修复
+    const repaired = await this.repairCodeSolution(extractedText, bestSolution.data);
+    if (repaired !== bestSolution.data) {
+      const tests = repaired.tests || [];
+      bestSolution.data = repaired;
+      bestSolution.reason = msg('reason.repaired', {
+        reason: bestSolution.reason,
+        repairs: this.repairAttempts.length,
+        passed: tests.filter((t: any) => t.ok === true).length,
+        total: tests.length
+      });
+    }
     
+    // 交互题只能通过评测程序运行，对拍、边界用例和复杂度实测都依赖固定的标准输入，跳过
+    const interactive = extractedText.compare?.mode === 'interactive';
+
+    // Step 7: 与暴力解对拍，在随机小数据上寻找反例
+    let stress: StressReport | undefined;
+    if (solutions.some(sol => sol.ok) && !interactive) {
+      stress = await this.runStressTest(extractedText, bestSolution.data.code);
+    }
+
+    // Step 8: 根据约束生成边界用例，检查崩溃、超时和超内存
+    let edgeCases: EdgeCaseResult[] | undefined;
+    let edgeCaseError: MessageText | undefined;
+    if (solutions.some(sol => sol.ok) && !interactive) {
+      this.markServed('edgeCases');
+      this.updateStatus(msg('step.edgeCases'), 98, msg('detail.edgeGenerate'));
+      try {
+        const cases = await this.edgeCaseAgent.generateEdgeCases(extractedText);
+        this.updateStatus(msg('step.edgeCases'), 98, msg('detail.edgeRun', { count: cases.length }));
+        edgeCases = await this.edgeCaseAgent.runEdgeCases(extractedText, bestSolution.data.code, cases);
+      } catch (error: any) {
+        if (isCancelled(error)) throw error;
+        edgeCaseError = errorText(error, msg('error.edgeCases'));
+      }
+    }
+
+    // Step 9 (可选): 实测时间复杂度，与模型声称的比较
+    let benchmark: BenchmarkReport | undefined;
+    if (this.options.benchmark && solutions.some(sol => sol.ok) && !interactive) {
+      benchmark = await this.runBenchmark(extractedText, bestSolution.data.code, bestSolution.data.timeComplexity);
+    }
+
     // 获取最终的并行任务状态
     const finalTasks = solutions.map((sol, index) => ({
       id: index,
       status: sol.ok ? 'success' as const : 'failed' as const,
-      model: `模型 ${index + 1}`,
+      model: sol.model,
       error: sol.error,
-      testsPassed: sol.data?.tests ? sol.data.tests.filter((t: any) => t.ok === true).length : 0,
-      testsTotal: extractedText.examples ? extractedText.examples.length : 0
+      testsPassed: sol.data?.tests ? sol.data.tests.filter(t => t.ok === true).length : 0,
+      testsTotal: extractedText.examples ? extractedText.examples.length : 0,
+      metrics: summarizeMetrics((sol.data?.tests || []).map(t => t.metrics))
     }));
 
-    this.updateStatus('完成', 100, `工作流执行完成，选择了${bestSolution.reason}`, exampleCount, finalTasks, true);
+    const stressSummary = !stress ? ''
+      : stress.counterexample ? msg('detail.stressCounterexample', { cases: stress.casesRun })
+      : stress.ok ? msg('detail.stressPassed', { cases: stress.casesRun })
+      : msg('detail.stressNotRun', { error: stress.error || '' });
+    const flagged = (edgeCases || []).filter(c => c.verdict !== 'ok' && c.verdict !== 'skipped').length;
+    const edgeSummary = flagged > 0 ? msg('detail.edgeFlagged', { count: flagged }) : '';
+    this.updateStatus(msg('step.done'), 100, msg('detail.done', { reason: bestSolution.reason, stress: stressSummary, edgeCases: edgeSummary }), exampleCount, finalTasks, true);
     
-    // 确保返回的数据包含responseType字段
+    // 本次用到的提示词，版本记入结果日志
+    const promptIds: PromptId[] = ['classify', 'extract', 'code'];
+    if (stress) promptIds.push('stress');
+    if (edgeCases || edgeCaseError) promptIds.push('edge-cases');
+    if (benchmark) promptIds.push('benchmark');
+
+    // 确保返回的数据包含responseType字段；带上比较方式以便前端重新判定
     const resultData = {
       ...bestSolution.data,
-      responseType: 'code' as const
+      compare: extractedText.compare,
+      signature: extractedText.signature,
+      stress,
+      edgeCases,
+      edgeCaseError,
+      benchmark,
+      responseType: 'code' as const,
+      _log: { promptVersions: promptVersions(promptIds) }
     };
     
     return {
@@ -165,24 +296,89 @@ export class AgentWorkflow {
     };
   }
 
+  // 修复循环：每次基于目前通过最多的版本修复，全部通过或达到上限时停止
+  private async repairCodeSolution(problem: ExtractedProblem, initial: any): Promise<any> {
+    const passedCount = (data: any) => (data?.tests || []).filter((t: any) => t.ok === true).length;
+    const total = initial?.tests ? initial.tests.length : 0;
+    if (total === 0 || passedCount(initial) === total) {
+      return initial;
+    }
+
+    let best = initial;
+    this.markServed('repair');
+    for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS && passedCount(best) < total; attempt++) {
+      const record: RepairAttempt = { attempt, status: 'running', testsTotal: total };
+      this.repairAttempts.push(record);
+      this.updateStatus(msg('step.repair'), 90 + Math.round(attempt * 8 / MAX_REPAIR_ATTEMPTS), msg('detail.repair', { attempt, failing: total - passedCount(best) }));
+
+      try {
+        const fixed = await this.codeAgent.repairSolution(problem, best, this.route('repair'));
+        const passed = passedCount(fixed);
+        record.testsPassed = passed;
+        record.results = (fixed.tests || []).map((t: any) => t.ok === true);
+        record.status = passed === total ? 'success' : 'failed';
+        if (passed > passedCount(best)) {
+          best = fixed;
+        }
+      } catch (error: any) {
+        if (isCancelled(error)) throw error;
+        record.status = 'failed';
+        record.error = errorText(error, msg('error.repair'));
+      }
+      this.updateStatus(msg('step.repair'), 90 + Math.round(attempt * 8 / MAX_REPAIR_ATTEMPTS), msg('detail.repairDone', { attempt, passed: record.testsPassed ?? 0, total }));
+    }
+
+    return best;
+  }
+
+  // 对拍失败不影响结果，只把错误记录在报告里
+  private async runStressTest(problem: ExtractedProblem, code: string): Promise<StressReport> {
+    this.markServed('stress');
+    this.updateStatus(msg('step.stress'), 98, msg('detail.stressGenerate'));
+    try {
+      const kit = await this.stressAgent.generateStressKit(problem, code);
+      this.updateStatus(msg('step.stress'), 98, msg('detail.stressRun'));
+      return await this.stressAgent.stressTest(problem, code, kit);
+    } catch (error: any) {
+      if (isCancelled(error)) throw error;
+      return { ok: false, casesRun: 0, skipped: 0, error: errorText(error, msg('error.stress')) };
+    }
+  }
+
+  private async runBenchmark(problem: ExtractedProblem, code: string, claimed: string): Promise<BenchmarkReport> {
+    this.markServed('benchmark');
+    this.updateStatus(msg('step.benchmark'), 99, msg('detail.benchmarkGenerate'));
+    try {
+      const generator = await this.benchmarkAgent.generateSizedGenerator(problem);
+      this.updateStatus(msg('step.benchmark'), 99, msg('detail.benchmarkRun', { maxSize: generator.maxSize }));
+      return await this.benchmarkAgent.benchmark(problem, code, claimed, generator);
+    } catch (error: any) {
+      if (isCancelled(error)) throw error;
+      return { points: [], claimed, error: errorText(error, msg('error.benchmark')) };
+    }
+  }
+
   // 普通问题工作流 (保持现有行为)
   private async executeGeneralWorkflow(screenshots: Screenshot[]): Promise<WorkflowResult> {
-    this.updateStatus('并发处理中...', 50, '同时调用3个模型处理普通问题');
+    // 使用现有的逻辑，多次并发调用
+    const route = this.route('general');
+    const model = this.markServed('general');
+    this.updateStatus(msg('step.general'), 50, msg('detail.general', { models: CANDIDATE_COUNT }));
     
-    // 使用现有的逻辑，3次并发调用
-    const models = ['openai/gpt-5-chat', 'openai/gpt-5-chat', 'openai/gpt-5-chat'];
-    const results = await Promise.all(models.map(async (model, index) => {
+    const results = await Promise.all(Array.from({ length: CANDIDATE_COUNT }, async (_, index) => {
       try {
         // 动态导入processScreenshots以避免循环依赖
         const { default: openaiService } = await import('./openai');
-        const data = await openaiService.processScreenshots(screenshots, model);
+        // 多次调用是为了得到不同的回答，不走缓存
+        const data = await openaiService.processScreenshots(screenshots, route, undefined, 'off', this.options.signal);
         return { model, ok: true, data, index };
       } catch (e: any) {
+        if (isCancelled(e)) throw e;
         return { model, ok: false, error: e?.message || 'error', index };
       }
     }));
     
-    this.updateStatus('完成', 100, '普通问题处理完成');
+    this.updateStatus(msg('step.done'), 100, msg('detail.generalDone'));
     
     return {
       success: true,
@@ -192,19 +388,25 @@ export class AgentWorkflow {
 
   // 问题分类 - 使用ClassifyAgent
   private async classifyQuestion(screenshots: Screenshot[]): Promise<'coding' | 'general'> {
-    return await this.classifyAgent.classifyQuestion(screenshots);
+    const type = await this.classifyAgent.classifyQuestion(screenshots, this.options.cacheMode);
+    if (this.classifyAgent.cachedAt) this.cachedSteps.push('classify');
+    return type;
   }
 
-  // 选择最佳代码解决方案
-  private selectBestCodeSolution(solutions: CodeSolution[]): { data: any; index: number; reason: string } {
-    // 找到第一个成功的解决方案
-    const successfulSolution = solutions.find(sol => sol.ok);
+  // 选择最佳代码解决方案：通过测试最多者优先，相同时取ID最靠前的
+  private selectBestCodeSolution(solutions: CodeSolution[]): { data: any; index: number; reason: Message } {
+    const successful = solutions.filter(sol => sol.ok && sol.data);
     
-    if (successfulSolution && successfulSolution.data) {
+    if (successful.length > 0) {
+      const passedCount = (sol: CodeSolution) => (sol.data?.tests || []).filter(t => t.ok === true).length;
+      const best = successful.reduce((acc, sol) => passedCount(sol) > passedCount(acc) ? sol : acc);
+      const total = best.data?.tests ? best.data.tests.length : 0;
       return {
-        data: successfulSolution.data,
-        index: successfulSolution.index,
-        reason: `选择第${successfulSolution.index + 1}个解决方案：执行成功且ID最靠前`
+        data: best.data,
+        index: best.index,
+        reason: total > 0
+          ? msg('reason.tests', { n: best.index + 1, passed: passedCount(best), total })
+          : msg('reason.first', { n: best.index + 1 })
       };
     }
     
@@ -212,25 +414,43 @@ export class AgentWorkflow {
     const firstSolution = solutions[0];
     return {
       data: {
-        approach: '代码生成失败',
-        code: `错误: ${firstSolution?.error || '所有解决方案都失败'}`,
+        approach: msg('error.generateFailed', { error: firstSolution?.error || msg('error.allFailed') }),
+        code: '',
         timeComplexity: 'N/A',
         spaceComplexity: 'N/A'
       },
       index: 0,
-      reason: '所有解决方案都失败，返回错误信息'
+      reason: msg('reason.allFailed')
     };
   }
 
+  private route(role: WorkflowRole): Route {
+    return resolveRoute(this.options.routing, role);
+  }
+
+  // 记录该步骤实际调用的模型（部分后端固定使用自己的模型），显示在进度面板上
+  private markServed(role: WorkflowRole): string {
+    const model = this.llm.modelFor({ model: this.route(role).model, messages: [] });
+    this.stepModels[role] = model;
+    return model;
+  }
+
+  private currentStepModels(): WorkflowState['stepModels'] {
+    return Object.keys(this.stepModels).length > 0 ? { ...this.stepModels } : undefined;
+  }
+
   // 状态更新辅助方法
-  private updateStatus(step: string, progress: number, details: string, extractedExamples?: number, parallelTasks?: WorkflowState['parallelTasks'], completed?: boolean) {
+  private updateStatus(step: Message, progress: number, details: Message, extractedExamples?: number, parallelTasks?: WorkflowState['parallelTasks'], completed?: boolean) {
     this.onStatusUpdate({
       currentStep: step,
       progress,
       stepDetails: details,
       extractedExamples,
       parallelTasks,
-      completed
+      repairAttempts: this.repairAttempts.length > 0 ? this.repairAttempts.map(a => ({ ...a })) : undefined,
+      completed,
+      cachedSteps: this.cachedSteps.length > 0 ? [...this.cachedSteps] : undefined,
+      stepModels: this.currentStepModels()
     });
   }
 }
\ No newline at end of file
@@ -0,0 +1,226 @@
+import { LLMProvider } from '../providers';
+import { ExtractedProblem } from './extractAgent';
+import { throwIfCancelled } from '../../shared/cancel';
+import { LocalizedError, MessageText, errorText, msg } from '../../shared/i18n';
+import { DEFAULT_ROUTES, Route } from '../../shared/routing';
+import { renderPrompt } from '../prompts';
+import { problemVariables } from './promptVariables';
+import { LanguageRunner, getRunner } from '../../runners';
+import { loadProgram, runProgram, supportsHarness } from '../../runners/harness';
+
+export interface BenchmarkReport {
+  points: Array<{ size: number; ms: number }>;
+  measured?: string; // 拟合出的时间复杂度，如 "O(n^2)"
+  claimed?: string;
+  warning?: MessageText; // 声称与实测明显不符时的提示
+  error?: MessageText;
+}
+
+interface SizedGenerator {
+  generator: string;
+  maxSize: number;
+}
+
+// 规模点数（最小的规模只作为基准）、每个规模重复次数（取最小值降低抖动）、单次运行超过该耗时就不再加大规模
+const BENCH_POINTS = 8;
+const BENCH_REPEATS = 3;
+const BENCH_MIN_SIZE = 16;
+const BENCH_SLOW_MS = 2000;
+// 最大耗时与最小耗时相差不到这么多毫秒时认为太快，无法区分增长曲线
+const BENCH_MIN_SPREAD_MS = 20;
+
+// 候选复杂度，degree用于比较声称值和实测值的差距
+const CLASSES: Array<{ label: string; degree: number; f: (n: number) => number }> = [
+  { label: 'O(1)', degree: 0, f: () => 0 },
+  { label: 'O(log n)', degree: 0.2, f: (n) => Math.log2(n) },
+  { label: 'O(n)', degree: 1, f: (n) => n },
+  { label: 'O(n log n)', degree: 1.2, f: (n) => n * Math.log2(n) },
+  { label: 'O(n^2)', degree: 2, f: (n) => n * n },
+  { label: 'O(n^3)', degree: 3, f: (n) => n * n * n },
+  { label: 'O(2^n)', degree: 5, f: (n) => Math.pow(2, Math.min(n, 60)) }
+];
+
+// 差距小于该值（如 n 与 n log n）测量上无法可靠区分，不提示
+const MISMATCH_DEGREE = 0.75;
+
+export class BenchmarkAgent {
+  private llm: LLMProvider;
+  private language: string;
+  private route: Route; // 配置的模型和参数
+  private signal?: AbortSignal; // 本次运行的取消信号
+
+  constructor(llm: LLMProvider, language: string, route: Route = DEFAULT_ROUTES.benchmark, signal?: AbortSignal) {
+    this.llm = llm;
+    this.language = language;
+    this.route = route;
+    this.signal = signal;
+  }
+
+  async generateSizedGenerator(problem: ExtractedProblem): Promise<SizedGenerator> {
+    const sig = supportsHarness(this.language) ? problem.signature : undefined;
+    const prompt = renderPrompt('benchmark', problemVariables(problem, sig)).text;
+
+    const response = await this.llm.chat({
+      model: this.route.model,
+      messages: [{ role: 'user', content: prompt }],
+      maxTokens: this.route.maxTokens,
+      temperature: this.route.temperature,
+      json: true,
+      signal: this.signal
+    });
+
+    const content = response.content.trim();
+    if (!content) {
+      throw new LocalizedError(msg('error.benchmarkEmpty'));
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      console.error('数据生成器JSON解析失败，原始内容:', content);
+      throw new LocalizedError(msg('error.benchmarkFormat', { content: content.substring(0, 200) }));
+    }
+    if (typeof parsed.generator !== 'string') {
+      throw new LocalizedError(msg('error.benchmarkFields'));
+    }
+    const maxSize = Math.floor(Number(parsed.maxSize));
+    return {
+      generator: parsed.generator,
+      maxSize: Number.isFinite(maxSize) && maxSize >= BENCH_MIN_SIZE ? maxSize : 100000
+    };
+  }
+
+  // 从小到大依次计时，拟合增长曲线并与声称的复杂度比较
+  async benchmark(problem: ExtractedProblem, code: string, claimed: string, gen: SizedGenerator): Promise<BenchmarkReport> {
+    const python = getRunner('Python');
+    let runner: LanguageRunner;
+    try {
+      runner = getRunner(this.language);
+    } catch (error: any) {
+      return { points: [], claimed, error: errorText(error, msg('error.unsupportedLanguage')) };
+    }
+
+    const generator = await python.load(gen.generator, this.signal);
+    if (!generator.ok) {
+      return { points: [], claimed, error: msg('error.generatorLoad', { error: generator.error || '' }) };
+    }
+    const signature = supportsHarness(this.language) ? problem.signature : undefined;
+    const solution = await loadProgram(runner, code, signature, this.signal);
+    throwIfCancelled(this.signal);
+    if (!solution.ok) {
+      return { points: [], claimed, error: msg('error.solutionLoad', { error: solution.error || '' }) };
+    }
+
+    const sizes: number[] = [];
+    for (let size = gen.maxSize; size >= BENCH_MIN_SIZE && sizes.length < BENCH_POINTS; size = Math.floor(size / 2)) {
+      sizes.unshift(size);
+    }
+
+    // 计时用执行器报告的CPU时间（没有时用墙钟时间），不含进程启动和排队；
+    // 最小规模的耗时作为基准（解释器启动、读入等固定开销），从其余规模中减去
+    const measuredPoints: BenchmarkReport['points'] = [];
+    for (const size of sizes) {
+      const input = await python.run(`${size} ${size}`, generator.codeId, this.signal);
+      throwIfCancelled(this.signal);
+      if (!input.ok) {
+        return { points: measuredPoints, claimed, error: msg('error.generatorRun', { error: input.error || '' }) };
+      }
+      const lines = (input.stdout || '').replace(/\r\n/g, '\n').trim().split('\n');
+
+      // 顺序执行，避免并发运行互相影响计时
+      let best = Infinity;
+      let stop = false;
+      for (let i = 0; i < BENCH_REPEATS; i++) {
+        const res = await runProgram(runner, lines, solution.codeId, this.signal);
+        throwIfCancelled(this.signal);
+        const elapsed = res.metrics?.cpuMs ?? res.metrics?.wallMs;
+        if (!res.ok || elapsed === undefined) {
+          stop = true;
+          break;
+        }
+        best = Math.min(best, elapsed);
+        if (elapsed > BENCH_SLOW_MS) break;
+      }
+      if (Number.isFinite(best)) {
+        measuredPoints.push({ size, ms: best });
+      }
+      if (stop || best > BENCH_SLOW_MS) break;
+    }
+
+    const baseline = measuredPoints.length > 0 ? measuredPoints[0].ms : 0;
+    const points = measuredPoints.slice(1).map(p => ({ size: p.size, ms: Math.round(Math.max(p.ms - baseline, 0) * 10) / 10 }));
+    if (points.length < 3) {
+      return { points, claimed, error: msg('error.benchmarkPoints') };
+    }
+
+    const times = points.map(p => p.ms);
+    if (Math.max(...times) - Math.min(...times) < BENCH_MIN_SPREAD_MS) {
+      return { points, claimed, measured: 'O(1)' };
+    }
+
+    const measured = fitComplexity(points);
+    const report: BenchmarkReport = { points, claimed, measured: measured.label };
+    const claimedClass = parseComplexity(claimed);
+    if (claimedClass && Math.abs(claimedClass.degree - measured.degree) >= MISMATCH_DEGREE) {
+      report.warning = msg('benchmark.warning', { claimed: claimedClass.label, measured: measured.label });
+    }
+    return report;
+  }
+}
+
+// 对每个候选做加权最小二乘 t = a + b·f(n)（权重1/t²，即按相对误差），
+// 残差接近时选择更简单的类别
+function fitComplexity(points: Array<{ size: number; ms: number }>): typeof CLASSES[number] {
+  const fits = CLASSES.map(cls => {
+    const w = points.map(p => 1 / Math.max(p.ms, 1) ** 2);
+    const f = points.map(p => cls.f(p.size));
+    const t = points.map(p => p.ms);
+    const sum = (g: (i: number) => number) => points.reduce((acc, _p, i) => acc + g(i), 0);
+
+    const sw = sum(i => w[i]);
+    const swf = sum(i => w[i] * f[i]);
+    const swff = sum(i => w[i] * f[i] * f[i]);
+    const swt = sum(i => w[i] * t[i]);
+    const swft = sum(i => w[i] * f[i] * t[i]);
+    const det = sw * swff - swf * swf;
+
+    let a = swt / sw;
+    let b = 0;
+    if (Math.abs(det) > 1e-12) {
+      a = (swff * swt - swf * swft) / det;
+      b = (sw * swft - swf * swt) / det;
+    }
+    if (b < 0) {
+      b = 0;
+      a = swt / sw;
+    } else if (a < 0) {
+      a = 0;
+      b = swff > 0 ? swft / swff : 0;
+    }
+    const residual = sum(i => w[i] * (t[i] - a - b * f[i]) ** 2);
+    return { cls, residual };
+  });
+
+  const bestResidual = Math.min(...fits.map(fit => fit.residual));
+  return fits.find(fit => fit.residual <= bestResidual * 1.25 + 1e-9)!.cls;
+}
+
+// 把模型给出的复杂度文字（如 "O(n log n)，因为排序"）归到候选类别
+function parseComplexity(text: string): typeof CLASSES[number] | undefined {
+  const match = (text || '').match(/O\s*\(([^)]*(?:\([^)]*\)[^)]*)*)\)/i);
+  if (!match) return undefined;
+  const body = match[1].toLowerCase().replace(/\s+/g, '').replace(/²/g, '^2').replace(/³/g, '^3');
+  const byLabel = (label: string) => CLASSES.find(cls => cls.label === label);
+
+  if (/\d\^[a-z]|\d\*\*[a-z]|[a-z]!/.test(body)) return byLabel('O(2^n)');
+  // 多个规模变量相乘（如 n*m、m log n）时只放大了主规模，无法比较
+  if (body.split('+').some(term => new Set(term.replace(/log/g, '').match(/[a-z]/g) || []).size > 1)) return undefined;
+  if (/\^3|\*\*3/.test(body)) return byLabel('O(n^3)');
+  if (/\^2|\*\*2|([a-z])\*?\1(?![a-z])/.test(body.replace(/log[a-z]?/g, ''))) return byLabel('O(n^2)');
+  if (/[a-z]\*?log/.test(body)) return byLabel('O(n log n)');
+  if (/^log/.test(body)) return byLabel('O(log n)');
+  if (/^1$/.test(body)) return byLabel('O(1)');
+  if (/^[a-z](\+[a-z])*$/.test(body)) return byLabel('O(n)');
+  return undefined;
+}
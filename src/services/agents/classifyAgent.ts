@@ -1,4 +1,8 @@
-import OpenAI from 'openai';
+import { ChatRequest, LLMError, LLMProvider, imageFromDataUrl } from '../providers';
+import { CacheMode, cached, hashImage } from '../responseCache';
+import { renderPrompt } from '../prompts';
+import { DEFAULT_ROUTES, Route } from '../../shared/routing';
+import { isCancelled } from '../../shared/cancel';
 
 interface Screenshot {
   id: number;
@@ -7,56 +11,53 @@ interface Screenshot {
 }
 
 export class ClassifyAgent {
-  private openai: OpenAI;
+  private llm: LLMProvider;
+  private route: Route; // 配置的模型和参数
+  private signal?: AbortSignal; // 本次运行的取消信号
+  cachedAt?: number; // 上一次分类命中缓存时，缓存写入的时间
 
-  constructor(openai: OpenAI) {
-    this.openai = openai;
+  constructor(llm: LLMProvider, route: Route = DEFAULT_ROUTES.classify, signal?: AbortSignal) {
+    this.llm = llm;
+    this.route = route;
+    this.signal = signal;
   }
 
-  async classifyQuestion(screenshots: Screenshot[]): Promise<'coding' | 'general'> {
+  async classifyQuestion(screenshots: Screenshot[], cacheMode: CacheMode = 'use'): Promise<'coding' | 'general'> {
+    this.cachedAt = undefined;
     try {
       // 准备图片数据
-      const imageContents = screenshots.map(screenshot => ({
-        type: "image_url" as const,
-        image_url: {
-          url: screenshot.preview
-        }
-      }));
+      const imageContents = screenshots.map(screenshot => imageFromDataUrl(screenshot.preview));
+      // 提示词模板的版本计入缓存键，修改模板后不会读到旧提示词的缓存
+      const prompt = renderPrompt('classify');
 
-      const response = await this.openai.chat.completions.create({
-        model: "openai/gpt-4o",
+      const request: ChatRequest = {
+        model: this.route.model,
         messages: [
           {
             role: "user",
             content: [
               {
                 type: "text",
-                text: `请分析这些截图内容，判断这是什么类型的问题。
-
-请只回复以下两个选项之一：
-- "coding" - 如果这是编程/算法题，包含代码实现需求，有输入输出示例，需要写代码解决
-- "general" - 如果这是其他类型的问题，比如概念解释、理论问题、一般性问答等
-
-请仔细观察是否有：
-1. 函数签名/方法定义
-2. 输入输出示例 
-3. 约束条件
-4. 算法或数据结构相关内容
-5. 要求实现某个功能的代码
-
-如果有以上特征，回复 "coding"，否则回复 "general"。
-
-只回复一个单词，不要任何解释。`
+                text: prompt.text
               },
               ...imageContents
             ]
           }
         ],
-        max_tokens: 10,
-        temperature: 0
-      });
+        maxTokens: this.route.maxTokens,
+        temperature: this.route.temperature,
+        signal: this.signal
+      };
+      // 只缓存明确的分类结果
+      const { value: response, cachedAt } = await cached(
+        { kind: 'classify', images: screenshots.map(s => hashImage(s.preview)), model: this.llm.modelFor(request), promptVersion: prompt.version },
+        cacheMode,
+        () => this.llm.chat(request),
+        reply => ['coding', 'general'].includes(reply.content.trim().toLowerCase())
+      );
+      this.cachedAt = cachedAt;
 
-      const result = response.choices[0]?.message?.content?.trim().toLowerCase();
+      const result = response.content.trim().toLowerCase();
       
       if (result === 'coding') {
         return 'coding';
@@ -68,8 +69,12 @@ export class ClassifyAgent {
         return 'coding';
       }
     } catch (error) {
+      // 取消不算失败，原样上抛
+      if (isCancelled(error)) throw error;
       console.error('问题分类失败:', error);
-      // 发生错误时默认按编程题处理，因为编程题的处理流程更完整
+      // 接口错误（鉴权、额度、限流等）直接上报，否则后续步骤会带着同样的错误再失败一次
+      if (error instanceof LLMError) throw error;
+      // 其他错误默认按编程题处理，因为编程题的处理流程更完整
       return 'coding';
     }
   }
@@ -1,5 +1,28 @@
-import OpenAI from 'openai';
+import { ChatRequest, LLMProvider } from '../providers';
 import { ExtractedProblem } from './extractAgent';
+import { RunMetrics, RunStatus, getRunner } from '../../runners';
+import { judgeOutput } from '../../runners/checker';
+import { FunctionSignature, loadProgram, runProgram, supportsHarness } from '../../runners/harness';
+import { TranscriptEntry, formatTranscript, runInteractive } from '../../runners/interactive';
+import { CompareSpec } from '../../shared/comparator';
+import { summarizeMetrics } from '../../shared/metrics';
+import { codeSolutionSchema } from '../outputSchemas';
+import { SchemaValidationError, repairReply } from '../structuredOutput';
+import { PromptVariables, renderPrompt } from '../prompts';
+import { DEFAULT_ROUTES, Route } from '../../shared/routing';
+import { isCancelled, throwIfCancelled } from '../../shared/cancel';
+import { LocalizedError, MessageText, englishText, errorText, msg } from '../../shared/i18n';
+
+export interface TestResult {
+  input: string | string[];
+  expected: string | string[];
+  actual?: string;
+  ok?: boolean;
+  status?: RunStatus;
+  error?: MessageText;
+  metrics?: RunMetrics;
+  transcript?: TranscriptEntry[]; // 交互题：评测程序与解法之间的对话
+}
 
 export interface CodeSolution {
   ok: boolean;
@@ -8,47 +31,50 @@ export interface CodeSolution {
     code: string;
     timeComplexity: string;
     spaceComplexity: string;
-    tests?: Array<{
-      input: string | string[];
-      expected: string | string[];
-      actual?: string;
-      ok?: boolean;
-      error?: string;
-    }>;
+    tests?: TestResult[];
   };
-  error?: string;
+  error?: MessageText;
   index: number;
+  model: string; // 生成该方案的模型
 }
 
+// 每次并发生成的候选方案数
+export const CANDIDATE_COUNT = 3;
+
 export class CodeAgent {
-  private openai: OpenAI;
+  private llm: LLMProvider;
   private language: string;
-  private onProgress?: (tasks: Array<{id: number; status: 'pending' | 'running' | 'success' | 'failed'; model: string; error?: string; testsPassed?: number; testsTotal?: number;}>) => void;
+  private onProgress?: (tasks: Array<{id: number; status: 'pending' | 'running' | 'success' | 'failed'; model: string; error?: MessageText; testsPassed?: number; testsTotal?: number; metrics?: RunMetrics;}>) => void;
+  private signal?: AbortSignal; // 本次运行的取消信号
 
-  constructor(openai: OpenAI, language: string, onProgress?: (tasks: any) => void) {
-    this.openai = openai;
+  constructor(llm: LLMProvider, language: string, onProgress?: (tasks: any) => void, signal?: AbortSignal) {
+    this.llm = llm;
     this.language = language;
     this.onProgress = onProgress;
+    this.signal = signal;
   }
 
-  async generateCodeSolutions(problemText: ExtractedProblem): Promise<CodeSolution[]> {
-    const models = ['openai/gpt-5-chat', 'openai/gpt-5-chat', 'openai/gpt-5-chat'];
+  async generateCodeSolutions(problemText: ExtractedProblem, route: Route = DEFAULT_ROUTES.code): Promise<CodeSolution[]> {
+    // 各候选使用同一路由；记录实际调用的模型（部分后端固定使用自己的模型）
+    const served = this.llm.modelFor({ model: route.model, messages: [] });
+    const models = Array.from({ length: CANDIDATE_COUNT }, () => served);
     
     // 初始化任务状态
     let tasks = models.map((model, index) => ({
       id: index,
       status: 'pending' as 'pending' | 'running' | 'success' | 'failed',
-      model: `模型 ${index + 1}`,
-      error: undefined as string | undefined,
+      model,
+      error: undefined as MessageText | undefined,
       testsPassed: 0,
-      testsTotal: problemText.examples ? problemText.examples.length : 0
+      testsTotal: problemText.examples ? problemText.examples.length : 0,
+      metrics: undefined as RunMetrics | undefined
     }));
     
     if (this.onProgress) {
       this.onProgress(tasks);
     }
 
-    // 并发执行3次代码生成
+    // 并发执行多次代码生成
     const solutions = await Promise.all(
       models.map(async (model, index) => {
         try {
@@ -58,17 +84,18 @@ export class CodeAgent {
             this.onProgress([...tasks]);
           }
 
-          const solution = await this.generateSingleSolution(problemText, model);
+          const solution = await this.generateSingleSolution(problemText, route);
           
-          // 计算测试通过情况
+          // 计算测试通过情况（来自执行器的真实结果）
           let testsPassed = 0;
           if (solution.tests) {
-            testsPassed = solution.tests.filter((t: any) => t.ok === true).length;
+            testsPassed = solution.tests.filter((t: TestResult) => t.ok === true).length;
           }
 
           // 更新状态为成功
           tasks[index].status = 'success';
           tasks[index].testsPassed = testsPassed;
+          tasks[index].metrics = summarizeMetrics((solution.tests || []).map((t: TestResult) => t.metrics));
           if (this.onProgress) {
             this.onProgress([...tasks]);
           }
@@ -76,20 +103,24 @@ export class CodeAgent {
           return {
             ok: true,
             data: solution,
-            index
+            index,
+            model
           };
         } catch (error: any) {
+          // 取消时整个运行作废，不再记为失败的候选
+          if (isCancelled(error)) throw error;
           // 更新状态为失败
           tasks[index].status = 'failed';
-          tasks[index].error = error?.message || '代码生成失败';
+          tasks[index].error = errorText(error, msg('error.generate'));
           if (this.onProgress) {
             this.onProgress([...tasks]);
           }
 
           return {
             ok: false,
-            error: error?.message || '代码生成失败',
-            index
+            error: errorText(error, msg('error.generate')),
+            index,
+            model
           };
         }
       })
@@ -98,82 +129,101 @@ export class CodeAgent {
     return solutions;
   }
 
-  private async generateSingleSolution(problemText: ExtractedProblem, model: string): Promise<any> {
+  private async generateSingleSolution(problemText: ExtractedProblem, route: Route): Promise<any> {
     try {
       // 构建问题描述
       const problemDescription = this.formatProblemForLLM(problemText);
-
-      const response = await this.openai.chat.completions.create({
-        model: model,
-        messages: [
-          {
-            role: "system",
-            content: `You are an expert competitive programmer. You need to solve coding problems step by step.
-
-Please provide:
-1. Clear approach explanation
-2. Clean, efficient code in ${this.language}
-3. Time and space complexity analysis
-4. Test the solution with provided examples if available
-
-Format your response as JSON:
-{
-  "approach": "Step by step explanation of your approach",
-  "code": "Your complete solution code",
-  "timeComplexity": "Time complexity (e.g., O(n))",
-  "spaceComplexity": "Space complexity (e.g., O(1))",
-  "tests": [
-    {
-      "input": "test input",
-      "expected": "expected output", 
-      "actual": "your code output",
-      "ok": true/false
+      return await this.requestSolution(problemText, route, problemDescription);
+    } catch (error: any) {
+      console.error('单次代码生成失败:', error);
+      throw error;
     }
-  ]
-}
-
-Make sure the code is syntactically correct and handles edge cases.`
-          },
-          {
-            role: "user",
-            content: problemDescription
-          }
-        ],
-        max_tokens: 4000,
-        temperature: 0.3,
-        response_format: { type: "json_object" }
-      });
+  }
 
-      const content = response.choices[0]?.message?.content?.trim();
-      
-      if (!content) {
-        throw new Error('未能生成解决方案');
+  // 把未通过的例子（输入、期望输出、实际输出、报错）反馈给模型，生成修复后的解决方案并重新测试
+  async repairSolution(problemText: ExtractedProblem, previous: NonNullable<CodeSolution['data']>, route: Route = DEFAULT_ROUTES.repair): Promise<any> {
+    const failing = (previous.tests || []).filter(t => t.ok !== true);
+    let feedback = this.formatProblemForLLM(problemText);
+    feedback += `\nYour previous solution:\n${previous.code}\n\n`;
+    feedback += `It fails ${failing.length} of ${(previous.tests || []).length} examples when executed:\n`;
+    failing.forEach((test, index) => {
+      feedback += `\nFailing example ${index + 1}:\n`;
+      feedback += `Input:\n${truncate(toText(test.input))}\n`;
+      feedback += `Expected output:\n${truncate(toText(test.expected))}\n`;
+      feedback += `Actual output:\n${truncate(test.actual || '(empty)')}\n`;
+      if (test.status && test.status !== 'ok') {
+        feedback += `Status: ${test.status}\n`;
       }
-
-      try {
-        const parsed = JSON.parse(content);
-        
-        // 验证必要字段
-        if (!parsed.approach || !parsed.code || !parsed.timeComplexity || !parsed.spaceComplexity) {
-          throw new Error('生成的解决方案缺少必要字段');
-        }
-
-        // 如果有examples，尝试运行测试
-        if (problemText.examples && problemText.examples.length > 0) {
-          parsed.tests = await this.runTests(parsed.code, problemText.examples);
-        }
-        
-        return parsed;
-      } catch (parseError) {
-        console.error('代码生成JSON解析失败，原始内容:', content);
-        throw new Error(`生成内容格式错误，无法解析JSON。原始内容: ${content.substring(0, 200)}...`);
+      if (test.error) {
+        feedback += `Error:\n${truncate(englishText(test.error))}\n`;
       }
+    });
+    feedback += '\nFind the bug, fix it and return the complete corrected solution in the same JSON format.';
+
+    try {
+      return await this.requestSolution(problemText, route, feedback);
     } catch (error: any) {
-      console.error('单次代码生成失败:', error);
+      console.error('代码修复失败:', error);
       throw error;
     }
   }
 
+  private async requestSolution(problemText: ExtractedProblem, route: Route, userContent: string): Promise<any> {
+    const request: ChatRequest = {
+      model: route.model,
+      messages: [
+        {
+          role: "system",
+          content: renderPrompt('code', { language: this.language, ...this.executionVariables(problemText.signature, problemText.compare) }).text
+        },
+        {
+          role: "user",
+          content: userContent
+        }
+      ],
+      maxTokens: route.maxTokens,
+      temperature: route.temperature,
+      json: true,
+      signal: this.signal
+    };
+    const first = await this.llm.chat(request);
+
+    if (!first.content.trim()) {
+      throw new LocalizedError(msg('error.noSolution'));
+    }
+
+    // 格式不符时把校验错误发回模型修正，仍不符合才放弃
+    const { response, result } = await repairReply(this.llm, request, first, codeSolutionSchema);
+    if (!result.ok) {
+      console.error('代码生成格式错误，原始内容:', response.content);
+      throw new SchemaValidationError(msg('error.solutionFormat'), result.issues, response.content);
+    }
+    const parsed: any = result.value;
+
+    // 如果有examples，在执行器中实际运行测试（模型自报的结果不可信）
+    delete parsed.tests;
+    if (problemText.examples && problemText.examples.length > 0) {
+      parsed.tests = await this.runTests(parsed.code, problemText.examples, problemText.compare, problemText.signature);
+      // 被取消的运行结果不可信
+      throwIfCancelled(this.signal);
+    }
+
+    return parsed;
+  }
+
+  // 有签名且语言支持harness时只写函数/类，由harness解析输入并调用；否则要求完整的stdin/stdout程序
+  private executionVariables(signature?: FunctionSignature, compare?: CompareSpec): PromptVariables {
+    if (compare?.mode === 'interactive') {
+      return { interactive: true };
+    }
+    if (signature && supportsHarness(this.language)) {
+      return {
+        harnessTarget: signature.kind === 'design' ? `the class ${signature.className}` : `${signature.methodName} (in class ${signature.className || 'Solution'} when the language uses one)`
+      };
+    }
+    return { standalone: true };
+  }
+
   private formatProblemForLLM(problemText: ExtractedProblem): string {
     let formatted = `Problem: ${problemText.title}\n\n`;
     formatted += `Description:\n${problemText.description}\n\n`;
@@ -202,18 +252,94 @@ Make sure the code is syntactically correct and handles edge cases.`
     if (problemText.followUp) {
       formatted += `Follow-up: ${problemText.followUp}\n`;
     }
+
+    if (problemText.signature) {
+      const sig = problemText.signature;
+      const params = sig.params.map(p => `${p.name}: ${p.type}`).join(', ');
+      formatted += sig.kind === 'design'
+        ? `\nSignature: class ${sig.className}\n`
+        : `\nSignature: ${sig.className ? `${sig.className}.` : ''}${sig.methodName}(${params}) -> ${sig.returnType}\n`;
+    }
     
     return formatted;
   }
 
-  private async runTests(code: string, examples: any[]): Promise<any[]> {
-    // 这里可以实现实际的代码执行测试
-    // 目前简单地返回测试格式，实际执行可以后续集成Python daemon
-    return examples.map((example, index) => ({
+  // 加载代码到对应语言的执行器，并发运行所有例子；有签名时套上harness
+  async runTests(code: string, examples: ExtractedProblem['examples'], compare?: CompareSpec, signature?: FunctionSignature): Promise<TestResult[]> {
+    const failAll = (error: MessageText) => examples.map(example => ({
       input: example.input,
       expected: example.output,
-      actual: undefined, // 实际执行结果
-      ok: undefined // 测试是否通过
+      actual: '',
+      ok: false,
+      status: 'error' as const,
+      error
+    }));
+
+    // 交互题：例子的input是交给评测程序的数据，由评测程序给出判定
+    if (compare?.mode === 'interactive' && compare.judge) {
+      const judge = compare.judge;
+      return Promise.all(examples.map(async (example): Promise<TestResult> => {
+        const res = await runInteractive(this.language, code, judge, example.input, this.signal);
+        return {
+          input: example.input,
+          expected: example.output,
+          actual: formatTranscript(res.transcript),
+          ok: res.ok,
+          status: res.status,
+          error: res.ok ? undefined : `${res.verdict}: ${res.message || ''}`,
+          metrics: res.metrics,
+          transcript: res.transcript
+        };
+      }));
+    }
+
+    let runner;
+    try {
+      runner = getRunner(this.language);
+    } catch (error: any) {
+      return failAll(errorText(error, msg('error.unsupportedLanguage')));
+    }
+
+    const loadRes = await loadProgram(runner, code, signature, this.signal);
+    if (!loadRes.ok) {
+      return failAll(loadRes.error || msg('error.codeLoad'));
+    }
+
+    return Promise.all(examples.map(async (example): Promise<TestResult> => {
+      const runRes = await runProgram(runner, example.input, loadRes.codeId, this.signal);
+      if (!runRes.ok) {
+        return {
+          input: example.input,
+          expected: example.output,
+          actual: runRes.stdout ?? '',
+          ok: false,
+          status: runRes.status,
+          error: runRes.error || msg('error.runFailed'),
+          metrics: runRes.metrics
+        };
+      }
+      const actual = (runRes.stdout || '').replace(/\r\n/g, '\n');
+      const verdict = await judgeOutput(actual, example.output, example.input, compare, this.signal);
+      return {
+        input: example.input,
+        expected: example.output,
+        actual,
+        ok: verdict.ok,
+        status: runRes.status,
+        error: verdict.ok ? undefined : verdict.message,
+        metrics: runRes.metrics
+      };
     }));
   }
-}
\ No newline at end of file
+}
+
+// 反馈给模型的输入/输出过长时截断，避免撑爆上下文
+const FEEDBACK_LIMIT = 2000;
+
+function toText(value: string | string[]): string {
+  return Array.isArray(value) ? value.join('\n') : value;
+}
+
+function truncate(text: string): string {
+  return text.length > FEEDBACK_LIMIT ? `${text.substring(0, FEEDBACK_LIMIT)}\n...(truncated)` : text;
+}
@@ -0,0 +1,157 @@
+import { LLMProvider } from '../providers';
+import { ExtractedProblem } from './extractAgent';
+import { throwIfCancelled } from '../../shared/cancel';
+import { LocalizedError, MessageText, errorText, msg } from '../../shared/i18n';
+import { DEFAULT_ROUTES, Route } from '../../shared/routing';
+import { renderPrompt } from '../prompts';
+import { problemVariables } from './promptVariables';
+import { LanguageRunner, RunStatus, getRunner } from '../../runners';
+import { judgeOutput } from '../../runners/checker';
+import { loadProgram, runProgram, supportsHarness } from '../../runners/harness';
+
+// 模型给出的一个边界用例：小数据直接给input，大数据（如n取上限）给Python生成器
+export interface EdgeCase {
+  description: string;
+  input?: string;
+  generator?: string;
+  expected?: string;
+}
+
+export interface EdgeCaseResult {
+  description: string;
+  input: string; // 展示用，过长时截断
+  expected?: string;
+  actual?: string;
+  status?: RunStatus;
+  // crash/timeout/memory_limit/sandbox_violation 不需要期望输出就能判定；wrong 只在给出期望输出时出现
+  verdict: 'ok' | 'crash' | 'timeout' | 'memory_limit' | 'sandbox_violation' | 'wrong' | 'skipped';
+  error?: MessageText;
+}
+
+const DISPLAY_LIMIT = 300;
+const MAX_EDGE_CASES = 12;
+
+export class EdgeCaseAgent {
+  private llm: LLMProvider;
+  private language: string;
+  private route: Route; // 配置的模型和参数
+  private signal?: AbortSignal; // 本次运行的取消信号
+
+  constructor(llm: LLMProvider, language: string, route: Route = DEFAULT_ROUTES.edgeCases, signal?: AbortSignal) {
+    this.llm = llm;
+    this.language = language;
+    this.route = route;
+    this.signal = signal;
+  }
+
+  async generateEdgeCases(problem: ExtractedProblem): Promise<EdgeCase[]> {
+    const sig = supportsHarness(this.language) ? problem.signature : undefined;
+    const prompt = renderPrompt('edge-cases', {
+      ...problemVariables(problem, sig),
+      // 结构化传入，说明文字只放在模板里
+      examples: problem.examples && problem.examples.length > 0
+        ? JSON.stringify(problem.examples.map(e => ({ input: e.input, output: e.output })), null, 2)
+        : undefined,
+      maxCases: MAX_EDGE_CASES
+    }).text;
+
+    const response = await this.llm.chat({
+      model: this.route.model,
+      messages: [{ role: 'user', content: prompt }],
+      maxTokens: this.route.maxTokens,
+      temperature: this.route.temperature,
+      json: true,
+      signal: this.signal
+    });
+
+    const content = response.content.trim();
+    if (!content) {
+      throw new LocalizedError(msg('error.edgeEmpty'));
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      console.error('边界用例JSON解析失败，原始内容:', content);
+      throw new LocalizedError(msg('error.edgeFormat', { content: content.substring(0, 200) }));
+    }
+    if (!Array.isArray(parsed.cases)) {
+      throw new LocalizedError(msg('error.edgeFields'));
+    }
+
+    return parsed.cases
+      .filter((c: any) => c && (typeof c.input === 'string' || Array.isArray(c.input) || typeof c.generator === 'string'))
+      .slice(0, MAX_EDGE_CASES)
+      .map((c: any) => ({
+        description: typeof c.description === 'string' ? c.description : '',
+        input: Array.isArray(c.input) ? c.input.join('\n') : c.input,
+        generator: typeof c.generator === 'string' ? c.generator : undefined,
+        expected: c.expected === undefined || c.expected === null ? undefined
+          : Array.isArray(c.expected) ? c.expected.join('\n') : String(c.expected)
+      }));
+  }
+
+  // 逐个运行边界用例；没有期望输出时只检查是否崩溃、超时或超内存
+  async runEdgeCases(problem: ExtractedProblem, code: string, cases: EdgeCase[]): Promise<EdgeCaseResult[]> {
+    const python = getRunner('Python');
+    let runner: LanguageRunner;
+    try {
+      runner = getRunner(this.language);
+    } catch (error: any) {
+      return cases.map(c => ({ description: c.description, input: display(c.input || ''), verdict: 'skipped' as const, error: errorText(error, msg('error.unsupportedLanguage')) }));
+    }
+
+    // 先依次生成所有输入，再加载解法，避免生成器挤掉执行器里缓存的解法
+    const inputs: Array<{ input?: string; error?: MessageText }> = [];
+    for (const edge of cases) {
+      if (edge.input !== undefined || !edge.generator) {
+        inputs.push({ input: edge.input || '' });
+        continue;
+      }
+      const gen = await python.load(edge.generator, this.signal);
+      const out = gen.ok ? await python.run('', gen.codeId, this.signal) : gen;
+      inputs.push(out.ok
+        ? { input: (out.stdout || '').replace(/\r\n/g, '\n').trim() }
+        : { error: msg('error.generatorRun', { error: out.error || '' }) });
+    }
+
+    const signature = supportsHarness(this.language) ? problem.signature : undefined;
+    throwIfCancelled(this.signal);
+    const solution = await loadProgram(runner, code, signature, this.signal);
+    throwIfCancelled(this.signal);
+    if (!solution.ok) {
+      return cases.map((c, i) => ({ description: c.description, input: display(inputs[i].input || ''), verdict: 'crash' as const, error: solution.error || msg('error.codeLoad') }));
+    }
+
+    const results = await Promise.all(cases.map(async (edge, i): Promise<EdgeCaseResult> => {
+      const { input, error } = inputs[i];
+      if (input === undefined) {
+        return { description: edge.description, input: '(generator)', verdict: 'skipped', error };
+      }
+
+      // 以数组形式传入，避免输入中的JSON字符串被反转义
+      const res = await runProgram(runner, input.split('\n'), solution.codeId, this.signal);
+      const actual = (res.stdout || '').replace(/\r\n/g, '\n');
+      const base = { description: edge.description, input: display(input), expected: edge.expected, actual: display(actual), status: res.status };
+      if (!res.ok) {
+        const verdict = res.status === 'timeout' || res.status === 'memory_limit' || res.status === 'sandbox_violation' ? res.status : 'crash';
+        return { ...base, verdict, error: res.error };
+      }
+      if (edge.expected !== undefined) {
+        const judged = await judgeOutput(actual, edge.expected, input, problem.compare, this.signal);
+        if (!judged.ok) {
+          return { ...base, verdict: 'wrong', error: judged.message };
+        }
+      }
+      return { ...base, verdict: 'ok' };
+    }));
+    // 取消后的运行结果不可信
+    throwIfCancelled(this.signal);
+    return results;
+  }
+}
+
+function display(text: string): string {
+  return text.length > DISPLAY_LIMIT ? `${text.substring(0, DISPLAY_LIMIT)}...(${text.length} chars)` : text;
+}
@@ -1,4 +1,14 @@
-import OpenAI from 'openai';
+import { ChatRequest, LLMError, LLMProvider, imageFromDataUrl } from '../providers';
+import { CompareSpec, normalizeCompareSpec } from '../../shared/comparator';
+import { FunctionSignature, normalizeSignature } from '../../runners/harness';
+import { CacheMode, cached, hashImage } from '../responseCache';
+import { extractedProblemSchema } from '../outputSchemas';
+import { SchemaValidationError, repairReply } from '../structuredOutput';
+import { validateJson } from '../../shared/schema';
+import { renderPrompt } from '../prompts';
+import { DEFAULT_ROUTES, Route } from '../../shared/routing';
+import { isCancelled } from '../../shared/cancel';
+import { LocalizedError, errorText, msg } from '../../shared/i18n';
 
 interface Screenshot {
   id: number;
@@ -16,95 +26,81 @@ export interface ExtractedProblem {
   }>;
   constraints?: string[];
   followUp?: string;
+  compare?: CompareSpec; // 输出比较方式，由题面推断
+  signature?: FunctionSignature; // LeetCode风格题目的函数/类签名，由harness负责调用
 }
 
 export class ExtractAgent {
-  private openai: OpenAI;
+  private llm: LLMProvider;
+  private route: Route; // 配置的模型和参数
+  private signal?: AbortSignal; // 本次运行的取消信号
+  cachedAt?: number; // 上一次提取命中缓存时，缓存写入的时间
 
-  constructor(openai: OpenAI) {
-    this.openai = openai;
+  constructor(llm: LLMProvider, route: Route = DEFAULT_ROUTES.extract, signal?: AbortSignal) {
+    this.llm = llm;
+    this.route = route;
+    this.signal = signal;
   }
 
-  async extractProblemText(screenshots: Screenshot[]): Promise<ExtractedProblem> {
+  async extractProblemText(screenshots: Screenshot[], cacheMode: CacheMode = 'use'): Promise<ExtractedProblem> {
+    this.cachedAt = undefined;
     try {
       // 准备图片数据
-      const imageContents = screenshots.map(screenshot => ({
-        type: "image_url" as const,
-        image_url: {
-          url: screenshot.preview
-        }
-      }));
+      const imageContents = screenshots.map(screenshot => imageFromDataUrl(screenshot.preview));
+      // 提示词模板的版本计入缓存键，修改模板后不会读到旧提示词的缓存
+      const prompt = renderPrompt('extract');
 
-      const response = await this.openai.chat.completions.create({
-        model: "openai/gpt-4o",
+      const request: ChatRequest = {
+        model: this.route.model,
         messages: [
           {
             role: "user",
             content: [
               {
                 type: "text",
-                text: `请仔细分析这些截图中的编程题目，提取以下信息并以JSON格式返回：
-
-{
-  "title": "题目标题",
-  "description": "题目描述的完整文本，保持原文格式和要求",
-  "examples": [
-    {
-      "input": "输入示例的具体内容",
-      "output": "预期输出的具体内容",
-      "explanation": "解释说明（如果有的话）"
-    }
-  ],
-  "constraints": ["约束条件1", "约束条件2"],
-  "followUp": "进阶问题或follow-up问题（如果有的话）"
-}
-
-请注意：
-1. 准确提取所有输入输出示例，保持格式
-2. 完整保留题目描述的所有要求和细节
-3. 提取所有约束条件（时间复杂度、空间复杂度、数据范围等）
-4. 如果有多个example，都要包含
-5. 保持数字、特殊符号的准确性
-6. 如果截图中有代码框架或函数签名，也包含在描述中
-
-只返回JSON，不要任何其他文本。`
+                text: prompt.text
               },
               ...imageContents
             ]
           }
         ],
-        max_tokens: 2000,
-        temperature: 0,
-        response_format: { type: "json_object" }
-      });
+        maxTokens: this.route.maxTokens,
+        temperature: this.route.temperature,
+        signal: this.signal,
+        json: true
+      };
+      // 格式不符时带着校验错误让模型修正，修正后的结果才写入缓存
+      const { value: response, cachedAt } = await cached(
+        { kind: 'extract', images: screenshots.map(s => hashImage(s.preview)), model: this.llm.modelFor(request), promptVersion: prompt.version },
+        cacheMode,
+        async () => (await repairReply(this.llm, request, await this.llm.chat(request), extractedProblemSchema)).response,
+        reply => validateJson(extractedProblemSchema, reply.content).ok
+      );
+      this.cachedAt = cachedAt;
 
-      const content = response.choices[0]?.message?.content?.trim();
+      const content = response.content.trim();
       
       if (!content) {
-        throw new Error('未能提取到题目内容');
+        throw new LocalizedError(msg('error.extractEmpty'));
       }
 
-      try {
-        const extracted = JSON.parse(content);
-        
-        // 验证必要字段
-        if (!extracted.title || !extracted.description) {
-          throw new Error('提取的内容缺少必要字段');
-        }
-        
-        // 确保examples是数组
-        if (!Array.isArray(extracted.examples)) {
-          extracted.examples = [];
-        }
-        
-        return extracted as ExtractedProblem;
-      } catch (parseError) {
-        console.error('JSON解析失败，原始内容:', content);
-        throw new Error(`提取内容格式错误，无法解析JSON。原始内容: ${content.substring(0, 200)}...`);
+      const validated = validateJson(extractedProblemSchema, content);
+      if (!validated.ok) {
+        console.error('提取结果格式错误，原始内容:', content);
+        throw new SchemaValidationError(msg('error.extractFormat'), validated.issues, content);
       }
+      const extracted = validated.value;
+
+      // 非法的比较方式直接丢弃，使用默认的tokens比较
+      extracted.compare = normalizeCompareSpec(extracted.compare);
+      extracted.signature = normalizeSignature(extracted.signature);
+      
+      return extracted;
     } catch (error: any) {
       console.error('文本提取失败:', error);
-      throw new Error(`文本提取失败: ${error.message}`);
+      // 接口错误保留分类和提示信息；格式错误保留具体的字段路径；取消原样上抛
+      if (error instanceof LLMError || error instanceof SchemaValidationError || isCancelled(error)) throw error;
+      throw new LocalizedError(msg('error.extract', { error: errorText(error, String(error)) }));
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { FunctionSignature } from '../../runners/harness';
+import { PromptVariables } from '../prompts';
+import { ExtractedProblem } from './extractAgent';
+
+// 对拍、复杂度实测、边界用例三个提示词共用的题目变量。
+// signature为空表示按stdin/stdout处理（没有签名或语言不支持harness）
+export function problemVariables(problem: ExtractedProblem, signature?: FunctionSignature): PromptVariables {
+  return {
+    title: problem.title,
+    description: problem.description,
+    constraints: (problem.constraints || []).map(c => `- ${c}`).join('\n'),
+    exampleInputs: (problem.examples || []).map(e => e.input).join('\n'),
+    design: signature?.kind === 'design',
+    className: signature?.className,
+    methodName: signature?.methodName,
+    function: !!signature && signature.kind !== 'design',
+    params: signature ? signature.params.map(p => `${p.name}(${p.type})`).join(', ') : '',
+    stdio: !signature
+  };
+}
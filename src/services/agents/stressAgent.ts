@@ -0,0 +1,165 @@
+import { LLMProvider } from '../providers';
+import { ExtractedProblem } from './extractAgent';
+import { throwIfCancelled } from '../../shared/cancel';
+import { LocalizedError, MessageText, errorText, msg } from '../../shared/i18n';
+import { DEFAULT_ROUTES, Route } from '../../shared/routing';
+import { renderPrompt } from '../prompts';
+import { problemVariables } from './promptVariables';
+import { LanguageRunner, getRunner } from '../../runners';
+import { judgeOutput } from '../../runners/checker';
+import { loadProgram, runProgram, supportsHarness } from '../../runners/harness';
+
+// 对拍所需的两段Python程序：暴力解法和随机数据生成器
+export interface StressKit {
+  brute: string;
+  generator: string;
+}
+
+export interface StressReport {
+  ok: boolean;
+  casesRun: number; // 实际比较过的用例数（暴力解超时/出错的用例跳过）
+  skipped: number;
+  counterexample?: {
+    input: string;
+    expected: string; // 暴力解的输出
+    actual: string; // 优化解的输出
+    error?: MessageText;
+  };
+  error?: MessageText;
+}
+
+// 随机用例数量，以及并发执行的批大小
+const STRESS_CASES = 100;
+const STRESS_BATCH = 8;
+
+export class StressAgent {
+  private llm: LLMProvider;
+  private language: string;
+  private route: Route; // 配置的模型和参数
+  private signal?: AbortSignal; // 本次运行的取消信号
+
+  constructor(llm: LLMProvider, language: string, route: Route = DEFAULT_ROUTES.stress, signal?: AbortSignal) {
+    this.llm = llm;
+    this.language = language;
+    this.route = route;
+    this.signal = signal;
+  }
+
+  async generateStressKit(problem: ExtractedProblem, code: string): Promise<StressKit> {
+    // 函数式题目统一走harness，暴力解用Python实现同样的签名；否则两边都是stdin/stdout程序
+    const functionStyle = !!problem.signature && supportsHarness(this.language);
+    const sig = functionStyle ? problem.signature : undefined;
+    const prompt = renderPrompt('stress', {
+      ...problemVariables(problem, sig),
+      paramExample: sig && sig.kind !== 'design' ? sig.params.map(p => `${p.name} = ...`).join(', ') : '',
+      code
+    }).text;
+
+    const response = await this.llm.chat({
+      model: this.route.model,
+      messages: [{ role: 'user', content: prompt }],
+      maxTokens: this.route.maxTokens,
+      temperature: this.route.temperature,
+      json: true,
+      signal: this.signal
+    });
+
+    const content = response.content.trim();
+    if (!content) {
+      throw new LocalizedError(msg('error.stressEmpty'));
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      console.error('对拍程序JSON解析失败，原始内容:', content);
+      throw new LocalizedError(msg('error.stressFormat', { content: content.substring(0, 200) }));
+    }
+    if (typeof parsed.brute !== 'string' || typeof parsed.generator !== 'string') {
+      throw new LocalizedError(msg('error.stressFields'));
+    }
+    return { brute: parsed.brute, generator: parsed.generator };
+  }
+
+  // 在随机小数据上比较优化解和暴力解，返回第一个反例
+  async stressTest(problem: ExtractedProblem, code: string, kit: StressKit, cases: number = STRESS_CASES): Promise<StressReport> {
+    const python = getRunner('Python');
+    let runner: LanguageRunner;
+    try {
+      runner = getRunner(this.language);
+    } catch (error: any) {
+      return { ok: false, casesRun: 0, skipped: 0, error: errorText(error, msg('error.unsupportedLanguage')) };
+    }
+
+    const generator = await python.load(kit.generator, this.signal);
+    if (!generator.ok) {
+      return { ok: false, casesRun: 0, skipped: 0, error: msg('error.generatorLoad', { error: generator.error || '' }) };
+    }
+    const signature = supportsHarness(this.language) ? problem.signature : undefined;
+    const brute = await loadProgram(python, kit.brute, signature, this.signal);
+    if (!brute.ok) {
+      return { ok: false, casesRun: 0, skipped: 0, error: msg('error.bruteLoad', { error: brute.error || '' }) };
+    }
+    const solution = await loadProgram(runner, code, signature, this.signal);
+    throwIfCancelled(this.signal);
+    if (!solution.ok) {
+      return { ok: false, casesRun: 0, skipped: 0, error: msg('error.solutionLoad', { error: solution.error || '' }) };
+    }
+
+    let casesRun = 0;
+    let skipped = 0;
+    for (let start = 1; start <= cases; start += STRESS_BATCH) {
+      const seeds = Array.from({ length: Math.min(STRESS_BATCH, cases - start + 1) }, (_, i) => start + i);
+      const outcomes = await Promise.all(seeds.map(async (seed) => {
+        const gen = await python.run(String(seed), generator.codeId, this.signal);
+        if (!gen.ok) {
+          return { kind: 'generator-error' as const, error: gen.error || msg('error.runFailed') };
+        }
+        // 以数组形式传入，避免输入中的JSON字符串被反转义
+        const input = (gen.stdout || '').replace(/\r\n/g, '\n').trim();
+        const [expected, actual] = await Promise.all([
+          runProgram(python, input.split('\n'), brute.codeId, this.signal),
+          runProgram(runner, input.split('\n'), solution.codeId, this.signal)
+        ]);
+        if (!expected.ok) {
+          return { kind: 'skipped' as const };
+        }
+        const expectedOut = (expected.stdout || '').replace(/\r\n/g, '\n');
+        const actualOut = (actual.stdout || '').replace(/\r\n/g, '\n');
+        if (!actual.ok) {
+          return { kind: 'mismatch' as const, input, expected: expectedOut, actual: actualOut, error: actual.error || msg('error.runFailed') };
+        }
+        const verdict = await judgeOutput(actualOut, expectedOut, input, problem.compare, this.signal);
+        return verdict.ok
+          ? { kind: 'pass' as const }
+          : { kind: 'mismatch' as const, input, expected: expectedOut, actual: actualOut, error: verdict.message };
+      }));
+
+      // 取消后的运行结果不可信，不能当作反例
+      throwIfCancelled(this.signal);
+
+      // 按种子顺序处理，保证报告的是最小种子的反例
+      for (const outcome of outcomes) {
+        if (outcome.kind === 'generator-error') {
+          return { ok: false, casesRun, skipped, error: msg('error.generatorRun', { error: outcome.error }) };
+        }
+        if (outcome.kind === 'skipped') {
+          skipped++;
+          continue;
+        }
+        casesRun++;
+        if (outcome.kind === 'mismatch') {
+          return {
+            ok: false,
+            casesRun,
+            skipped,
+            counterexample: { input: outcome.input, expected: outcome.expected, actual: outcome.actual, error: outcome.error }
+          };
+        }
+      }
+    }
+
+    return { ok: true, casesRun, skipped };
+  }
+}
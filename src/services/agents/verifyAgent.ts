@@ -1,5 +1,8 @@
-import OpenAI from 'openai';
+import { LLMError, LLMProvider, imageFromDataUrl } from '../providers';
 import { ExtractedProblem } from './extractAgent';
+import { renderPrompt } from '../prompts';
+import { DEFAULT_ROUTES, Route } from '../../shared/routing';
+import { isCancelled } from '../../shared/cancel';
 
 interface Screenshot {
   id: number;
@@ -8,60 +11,44 @@ interface Screenshot {
 }
 
 export class VerifyAgent {
-  private openai: OpenAI;
+  private llm: LLMProvider;
+  private route: Route; // 配置的模型和参数
+  private signal?: AbortSignal; // 本次运行的取消信号
 
-  constructor(openai: OpenAI) {
-    this.openai = openai;
+  constructor(llm: LLMProvider, route: Route = DEFAULT_ROUTES.verify, signal?: AbortSignal) {
+    this.llm = llm;
+    this.route = route;
+    this.signal = signal;
   }
 
   async verifyExtractedText(screenshots: Screenshot[], extractedText: ExtractedProblem): Promise<boolean> {
     try {
       // 准备图片数据
-      const imageContents = screenshots.map(screenshot => ({
-        type: "image_url" as const,
-        image_url: {
-          url: screenshot.preview
-        }
-      }));
+      const imageContents = screenshots.map(screenshot => imageFromDataUrl(screenshot.preview));
 
       // 格式化提取的内容用于比较
       const formattedExtraction = this.formatExtractionForComparison(extractedText);
 
-      const response = await this.openai.chat.completions.create({
-        model: "openai/gpt-4o",
+      const response = await this.llm.chat({
+        model: this.route.model,
         messages: [
           {
             role: "user",
             content: [
               {
                 type: "text",
-                text: `请验证以下提取的题目信息是否与截图中的内容一致。
-
-提取的内容：
-${formattedExtraction}
-
-请仔细对比截图和提取的内容，检查：
-1. 题目标题是否正确
-2. 题目描述是否完整准确
-3. 输入输出示例是否一致
-4. 数字、符号是否准确
-5. 约束条件是否正确
-6. 是否遗漏了重要信息
-
-如果提取的内容与截图完全一致且完整，请回复 "true"
-如果有任何不一致、遗漏或错误，请回复 "false"
-
-只回复 true 或 false，不要任何解释。`
+                text: renderPrompt('verify', { extraction: formattedExtraction }).text
               },
               ...imageContents
             ]
           }
         ],
-        max_tokens: 10,
-        temperature: 0
+        maxTokens: this.route.maxTokens,
+        temperature: this.route.temperature,
+        signal: this.signal
       });
 
-      const result = response.choices[0]?.message?.content?.trim().toLowerCase();
+      const result = response.content.trim().toLowerCase();
       
       if (result === 'true') {
         return true;
@@ -74,7 +61,9 @@ ${formattedExtraction}
       }
     } catch (error) {
       console.error('验证失败:', error);
-      // 发生错误时保守起见返回false，会触发重新提取
+      // 接口错误重新提取也无济于事，直接上报；取消同样上抛
+      if (error instanceof LLMError || isCancelled(error)) throw error;
+      // 其他错误保守起见返回false，会触发重新提取
       return false;
     }
   }
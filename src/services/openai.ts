@@ -1,107 +1,94 @@
-import OpenAI from 'openai';
 import dotenv from 'dotenv';
 import fs from 'fs/promises';
 import { AgentWorkflow, WorkflowState } from './agentWorkflow';
+import { CompareSpec, normalizeCompareSpec } from '../shared/comparator';
+import { FunctionSignature, normalizeSignature, supportsHarness } from '../runners/harness';
+import { ProviderKind, PROVIDER_DEFAULTS, normalizeProviderKind } from '../shared/providers';
+import { ChatMessage, ChatRequest, LLMError, LLMProvider, createProvider, textPart } from './providers';
+import { CacheMode, cached, hashImage } from './responseCache';
+import { recordUsage } from './usageTracker';
+import { buggyVariantSchema, screenshotResponseSchema } from './outputSchemas';
+import { repairReply } from './structuredOutput';
+import { formatIssues, validateJson } from '../shared/schema';
+import { renderPrompt, setPromptVariables } from './prompts';
+import { DEFAULT_EXPLANATION_LANGUAGE } from '../shared/prompts';
+import { DEFAULT_MODELS, ModelInfo } from '../shared/models';
+import { Route, RoutingTable } from '../shared/routing';
+import { isCancelled } from '../shared/cancel';
 
 dotenv.config();
 
-let openai: OpenAI | null = null;
+let provider: LLMProvider | null = null;
 let language = process.env.LANGUAGE || "Python";
-let modelName = process.env.OPENROUTER_MODEL || process.env.MODEL || "openai/gpt-5-chat";
+const DEFAULT_MODEL = process.env.OPENROUTER_MODEL || process.env.MODEL || "openai/gpt-5-chat";
+let modelName = DEFAULT_MODEL;
+let providerKind: ProviderKind = 'openai';
 let baseUrl = process.env.OPENAI_BASE_URL || 'https://openrouter.ai/api/v1';
+let benchmarkEnabled = false;
+let explanationLanguage = DEFAULT_EXPLANATION_LANGUAGE;
+let routing: RoutingTable | undefined;
 
 interface Config {
   apiKey: string;
   language: string;
   model?: string;
   baseURL?: string;
+  provider?: ProviderKind;
+  benchmark?: boolean;
+  explanationLanguage?: string;
+  models?: ModelInfo[];
+  routing?: RoutingTable;
 }
 
-const promptFewShots = `
-You need to add comment in your code to explain the logics, seperate your code to different blocks like below:
-
-function reverseKGroup(head: ListNode | null, k: number): ListNode | null {
-  let vhead = new ListNode(-1,head) // 虚拟头节点，简化边界条件处理
-
-  let reverseK = (head, prev)=>{ // 核心算法部分
-      if (head===null) return
-      let pre = prev
-      let start = head
-      let i = 1
-      
-      // Step 1： 找到当前组的结束位置
-      let end = start
-      while (i<k) {
-          if (end.next===null) return // 不够7个节点，直接返回
-          end = end.next
-          i++
-      }
-      
-    // Step 2：分离当前组
-      let succ = end.next // 保存后续链表
-      end.next = null // 切断连接，形成独立的K个节点组
-      
-  // Step 3： 反转当前组，之后首尾接入大链表
-      reverse(start)
-      pre.next = end // 将前一组连接到当前组的新头部
-      start.next = succ // 将当前组的新尾部连接到后续链表
-      
-      // Step 4： 递归处理之后的部分
-      reverseK(succ, start)
-  }
-  reverseK(head,vhead)
-  return vhead.next
-};
-
-// 用于反转单独一段链表
-function reverse(head: ListNode | null){ 
-  if (head===null) return null
-  let prev = null
-  let curr = head
-  while(curr!=null){
-      let n = curr.next
-      curr.next = prev
-      prev = curr
-      curr = n
-  }
-}
-`
-
 function updateConfig(config: Config) {
-  if (!config.apiKey) {
-    throw new Error('OpenAI API key is required');
+  const kind = normalizeProviderKind(config.provider);
+  if (PROVIDER_DEFAULTS[kind].requiresApiKey && !config.apiKey) {
+    throw new Error('API key is required');
   }
   
   try {
-    openai = new OpenAI({
-      apiKey: config.apiKey.trim(),
-      baseURL: config.baseURL?.trim() || baseUrl
-    });
+    provider = createProvider({
+      kind,
+      apiKey: config.apiKey,
+      // The env/OpenRouter default only applies to OpenAI-compatible endpoints
+      baseURL: config.baseURL?.trim() || (kind === 'openai' ? baseUrl : undefined),
+      model: config.model,
+      models: config.models || DEFAULT_MODELS
+    }, recordUsage);
     language = config.language || 'Python';
+    benchmarkEnabled = config.benchmark === true;
+    explanationLanguage = config.explanationLanguage || DEFAULT_EXPLANATION_LANGUAGE;
+    routing = config.routing;
+    setPromptVariables({ explanationLanguage });
     if (config.model && config.model.trim()) {
       modelName = config.model.trim();
+    } else if (kind !== providerKind) {
+      // Model ids do not carry over between backends
+      modelName = PROVIDER_DEFAULTS[kind].model || DEFAULT_MODEL;
     }
-    if (config.baseURL && config.baseURL.trim()) {
+    providerKind = kind;
+    if (kind === 'openai' && config.baseURL && config.baseURL.trim()) {
       baseUrl = config.baseURL.trim();
     }
-    // console.log('OpenAI client initialized with new config');
+    // console.log('LLM provider initialized with new config');
   } catch (error) {
-    console.error('Error initializing OpenAI client:', error);
+    console.error('Error initializing LLM provider:', error);
     throw error;
   }
 }
 
 // Initialize with environment variables if available
-if (process.env.OPENAI_API_KEY) {
+if (process.env.OPENAI_API_KEY || process.env.LLM_PROVIDER) {
   try {
     updateConfig({
       apiKey: (process.env.OPENAI_API_KEY || '').trim(),
       language: process.env.LANGUAGE || 'Python',
       model: process.env.OPENROUTER_MODEL || process.env.MODEL,
-      baseURL: process.env.OPENAI_BASE_URL
+      baseURL: process.env.OPENAI_BASE_URL,
+      provider: normalizeProviderKind(process.env.LLM_PROVIDER)
     });
   } catch (error) {
-    console.error('Error initializing OpenAI with environment variables:', error);
+    console.error('Error initializing LLM provider with environment variables:', error);
   }
 }
 
@@ -114,6 +101,8 @@ export interface CodeResponse {
   timeComplexity: string;
   spaceComplexity: string;
   examples?: { input: string | string[]; output: string | string[] }[];
+  compare?: CompareSpec;
+  signature?: FunctionSignature;
 }
 
 export interface AnswerResponse {
@@ -125,156 +114,141 @@ export interface AnswerResponse {
 export interface RawResponse {
   responseType: 'raw';
   raw: string;
+  // Why the reply could not be used, one "path: problem" per line
+  issues?: string;
 }
 
 export type AIResponse = CodeResponse | AnswerResponse | RawResponse;
 
-type MessageContent = 
-  | { type: "text"; text: string }
-  | { type: "image_url"; image_url: { url: string } };
-
-export async function processScreenshots(screenshots: { path: string }[], overrideModel?: string): Promise<AIResponse & { _log?: any }> {
-  if (!openai) {
-    throw new Error('OpenAI client not initialized. Please configure API key first. Click CTRL/CMD + P to open settings and set the API key.');
+// With a route, its model and parameters replace the current model and the normal-mode defaults.
+// With onDelta the reply is streamed: every piece of text is passed on as it arrives.
+// A reply cached for the same screenshots, model, prompt and language is returned without a call (and without deltas).
+// Aborting the signal stops the call with a CancelledError, which is thrown as is.
+export async function processScreenshots(
+  screenshots: { path: string }[],
+  route?: Partial<Route>,
+  onDelta?: (delta: string) => void,
+  cacheMode: CacheMode = 'use',
+  signal?: AbortSignal
+): Promise<AIResponse & { cachedAt?: number; _log?: any }> {
+  if (!provider) {
+    throw new Error('LLM provider not initialized. Please configure API key first. Click CTRL/CMD + P to open settings and set the API key.');
   }
 
   const startTime = Date.now();
-  const model = (overrideModel && overrideModel.trim()) || modelName;
+  const model = route?.model?.trim() || modelName;
   const logId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   
+  // LeetCode-style answers are wrapped by the function harness when the language has one;
+  // otherwise the model has to bolt an entry point onto the function itself
+  const system = renderPrompt('screenshots', { language, harness: supportsHarness(language) });
+  const user = renderPrompt('screenshots-user');
+  const promptVersion = `${system.version},${user.version}`;
+
   try {
-    const messages = [
-      {
-        role: "system" as const,
-        content: `You are an expert technical interview assistant.
-                  You will receive one or more screenshots that contain either a coding question or a non-coding question.
-                  You MUST always answer in valid JSON and ONLY JSON with no extra text.
-                  ${promptFewShots}
-                  The first field MUST be "responseType" with value either "code" or "answer".
-                  If multiple questions are shown, answer first question only.
-                  - If the question requires writing code, return responseType:"code" with fields: {
-                      "responseType": "code",
-                      "approach": "Explain the full solving process in Chinese, first with a concise summary, then with a detailed step-by-step explanation with explaination to technical terms used, e.g. some specific data structure like trie",
-                      "code": "Complete, runnable solution code",
-                      "timeComplexity": "Big-O with reasoning",
-                      "spaceComplexity": "Big-O with reasoning",
-                      "examples": [{"input": "...", "output": "..."}]  // Include ONLY IF explicit example input AND output are provided in the question; otherwise omit this field entirely.
-                    }
-                  - If the question does NOT require writing code, return responseType:"answer" with fields: {
-                      "responseType": "answer",
-                      "approach": "Explain the solving process in Chinese",
-                      "result": "A concise final answer in the SAME language as the question; for multiple choice, output only the correct option"
-                    }
-                  Hard requirements:
-                  - Always output ONLY a single JSON object, no markdown, no backticks.
-                  - "approach" MUST always be in Chinese.
-                  - For responseType:"answer", "result" MUST be the same language as the question.
-                  - For responseType:"code": If the problem statement includes explicit example input AND output, extract them into an array field named "examples" with specific format:
-                    Examples of proper format extraction:
-                    * Single-line: {"input": "5", "output": "120"} (for factorial calculation)
-                    * Multi-line input: {"input": ["4", "1 2 3 4", "1 2", "2 3", "3 4"], "output": "10"} (array queries)
-                    * Multi-line output: {"input": "3", "output": ["1", "1 1", "1 2 1"]} (Pascal's triangle)
-                    * Both multi-line: {"input": ["2", "hello", "world"], "output": ["HELLO", "WORLD"]} (string processing)
-                    * Matrix format: {"input": ["2 3", "1 2 3", "4 5 6"], "output": ["6", "15"]} (matrix operations)
-                    Critical rules:
-                    - Use string arrays ["line1", "line2"] for multi-line content, NOT escaped strings "line1\\nline2"
-                    - Each line is a separate array element
-                    - Preserve exact spacing and formatting from the problem
-                    - Single values remain as strings, not single-element arrays
-                  - If no explicit example input/output are present, DO NOT include the "examples" field at all (do not include null/empty).
-                  - Make sure your code is ACM style - which means you need to handle input/output manually in the main function. If the question is leetcode style (write a function only), add a main function(if name == main in python) in the end of code.
-                  - Your code output will be runned directly in a python daemon. so Do not just give a function as no one will call it.`
-                  
-      },
-      {
-        role: "user" as const,
-        content: [
-          { type: "text", text: "Here is a coding interview question. Please analyze and provide a solution." } as MessageContent
-        ]
-      }
+    const messages: ChatMessage[] = [
+      { role: "system", content: system.text },
+      { role: "user", content: [textPart(user.text)] }
     ];
 
-    // Add screenshots as image URLs
+    // Add screenshots as images
+    const imageHashes: string[] = [];
     for (const screenshot of screenshots) {
       const base64Image = await fs.readFile(screenshot.path, { encoding: 'base64' });
+      imageHashes.push(hashImage(base64Image));
       messages.push({
-        role: "user" as const,
-        content: [
-          {
-            type: "image_url",
-            image_url: {
-              url: `data:image/png;base64,${base64Image}`
-            }
-          } as MessageContent
-        ]
+        role: "user",
+        content: [{ type: 'image', mediaType: 'image/png', data: base64Image }]
       });
     }
 
-    // Get response from OpenAI-compatible API (via OpenRouter)
-    const response = await openai.chat.completions.create({
+    // Get response from the configured provider
+    const request = {
       model: model,
-      messages: messages as any,
-      max_tokens: 2000,
-      temperature: 0.7,
-      response_format: { type: "json_object" }
-    });
+      messages,
+      maxTokens: route?.maxTokens ?? 2000,
+      temperature: route?.temperature ?? 0.7,
+      json: true,
+      signal
+    };
+    const llm = provider;
+    let repairs = 0;
+    // Off-shape replies are repaired before they are cached, so a hit is always usable
+    const { value: response, cachedAt } = await cached(
+      { kind: 'screenshots', images: imageHashes, model: llm.modelFor(request), promptVersion, language, explanationLanguage },
+      cacheMode,
+      async () => {
+        const first = onDelta ? await llm.chatStream(request, onDelta) : await llm.chat(request);
+        const reply = await repairReply(llm, request, first, screenshotResponseSchema);
+        repairs = reply.repairs;
+        return reply.response;
+      },
+      reply => validateJson(screenshotResponseSchema, reply.content).ok
+    );
 
     const duration = Date.now() - startTime;
-    const content = response.choices[0].message.content || '';
-    
-    try {
-      const parsed = JSON.parse(content);
-      if (parsed && (parsed.responseType === 'code' || parsed.responseType === 'answer')) {
-        const result = parsed as AIResponse;
-        // Add log information
-        (result as any)._log = {
-          id: logId,
-          timestamp: new Date().toLocaleTimeString(),
-          model: model,
-          status: 'success',
-          responseType: result.responseType,
-          approach: result.responseType === 'code' ? (result as any).approach : 
-                   result.responseType === 'answer' ? (result as any).approach : undefined,
-          timeComplexity: result.responseType === 'code' ? (result as any).timeComplexity : undefined,
-          spaceComplexity: result.responseType === 'code' ? (result as any).spaceComplexity : undefined,
-          examplesCount: result.responseType === 'code' && (result as any).examples ? 
-                        (result as any).examples.length : undefined,
-          duration: duration
-        };
-        return result;
+    const content = response.content;
+    const validated = validateJson(screenshotResponseSchema, content);
+
+    if (validated.ok) {
+      const result = validated.value as AIResponse & { cachedAt?: number };
+      if (result.responseType === 'code') {
+        result.compare = normalizeCompareSpec(result.compare);
+        result.signature = normalizeSignature(result.signature);
       }
-      const rawResult = { responseType: 'raw', raw: content } as RawResponse;
-      (rawResult as any)._log = {
-        id: logId,
-        timestamp: new Date().toLocaleTimeString(),
-        model: model,
-        status: 'success',
-        responseType: 'raw',
-        duration: duration
-      };
-      return rawResult;
-    } catch {
-      const rawResult = { responseType: 'raw', raw: content } as RawResponse;
-      (rawResult as any)._log = {
+      if (cachedAt) {
+        result.cachedAt = cachedAt;
+      }
+      // Add log information
+      (result as any)._log = {
         id: logId,
         timestamp: new Date().toLocaleTimeString(),
         model: model,
         status: 'success',
-        responseType: 'raw',
+        promptVersion,
+        cached: !!cachedAt,
+        usage: cachedAt ? undefined : response.usage,
+        repairs,
+        responseType: result.responseType,
+        approach: result.responseType === 'code' ? (result as any).approach : 
+                 result.responseType === 'answer' ? (result as any).approach : undefined,
+        timeComplexity: result.responseType === 'code' ? (result as any).timeComplexity : undefined,
+        spaceComplexity: result.responseType === 'code' ? (result as any).spaceComplexity : undefined,
+        examplesCount: result.responseType === 'code' && (result as any).examples ? 
+                      (result as any).examples.length : undefined,
         duration: duration
       };
-      return rawResult;
+      return result;
     }
+    const rawResult: RawResponse = { responseType: 'raw', raw: content, issues: formatIssues(validated.issues) };
+    (rawResult as any)._log = {
+      id: logId,
+      timestamp: new Date().toLocaleTimeString(),
+      model: model,
+      status: 'success',
+      promptVersion,
+      responseType: 'raw',
+      usage: response.usage,
+      repairs,
+      issues: validated.issues,
+      duration: duration
+    };
+    return rawResult;
   } catch (error) {
+    if (isCancelled(error)) throw error;
     console.error('Error processing screenshots:', error);
+    // message/kind let callers show the classified error (rate limit, auth, ...) instead of a generic one
     const errorResult = {
       responseType: 'raw' as const,
       raw: `Error: ${error instanceof Error ? error.message : String(error)}`,
+      message: error instanceof Error ? error.message : String(error),
+      kind: error instanceof LLMError ? error.kind : undefined,
       _log: {
         id: logId,
         timestamp: new Date().toLocaleTimeString(),
         model: model,
         status: 'error',
+        promptVersion,
         error: error instanceof Error ? error.message : String(error),
         duration: Date.now() - startTime
       }
@@ -292,72 +266,37 @@ export interface BuggyVariantResponse {
 }
 
 export async function generateBuggyVariant(params: { code: string; approach?: string; language?: string; modelOverride?: string }): Promise<BuggyVariantResponse> {
-  if (!openai) {
-    throw new Error('OpenAI client not initialized. Please configure API key first.');
+  if (!provider) {
+    throw new Error('LLM provider not initialized. Please configure API key first.');
   }
   const { code, approach, language: langOverride, modelOverride } = params;
   const lang = langOverride || language || 'Python';
 
-  const system = [
-    'You will receive a correct solution code. Your task is to intentionally introduce exactly two subtle mistakes to create a buggy version.',
-    '- These mistakes should be realistic careless mistakes: missing an edge case, wrong boundary condition, off-by-one, or mishandled input.',
-    '- The buggy version MUST remain largely similar to the original (same structure and algorithm spirit). with only two slight mistake that clearly marked with a comment in same line in your output buggy version. the comment must mention the correct version',
-    '- Return STRICT JSON only with the following fields:',
-    '  {',
-    '    "responseType": "buggyVariant",',
-    '    "intent": "introduce_mistakes",',
-    '    "mistakeSummary": "<In Chinese: summarize what you changed and why it causes errors>",',
-    '    "edits": [',
-    '      { "description": "<In Chinese: what changed>", "rationale": "<In Chinese: why this leads to wrong output>" },',
-    '      { "description": "<In Chinese>", "rationale": "<In Chinese>" }',
-    '    ],',
-    '    "buggyCode": "<complete code with the two mistakes>"',
-    '  }',
-    '- Do NOT include any extra fields. Do NOT include markdown or backticks.',
-    '- Keep the programming language as: ' + lang
-  ].join('\n');
+  const system = renderPrompt('buggy-variant', { language: lang });
+  const user = renderPrompt('buggy-variant-user', { approach: approach || '', code });
 
-  const user = [
-    'Original approach (may be empty):',
-    approach ? approach : '(none)',
-    '',
-    'Original correct code:',
-    code
-  ].join('\n');
-
-  const response = await openai.chat.completions.create({
+  const request: ChatRequest = {
     model: (modelOverride && modelOverride.trim()) || modelName,
     messages: [
-      { role: 'system', content: system },
-      { role: 'user', content: user }
+      { role: 'system', content: system.text },
+      { role: 'user', content: user.text }
     ],
     temperature: 0.7,
-    max_tokens: 1600,
-    response_format: { type: 'json_object' }
-  });
+    maxTokens: 1600,
+    json: true
+  };
+  const { response, result } = await repairReply(provider, request, await provider.chat(request), buggyVariantSchema);
 
-  const content = response.choices[0].message.content || '';
-  try {
-    const parsed = JSON.parse(content);
-    if (parsed && parsed.responseType === 'buggyVariant') {
-      return parsed as BuggyVariantResponse;
-    }
-    return {
-      responseType: 'buggyVariant',
-      intent: 'introduce_mistakes',
-      mistakeSummary: 'Raw content returned (unexpected shape).',
-      edits: [{ description: 'N/A', rationale: content }],
-      buggyCode: code
-    };
-  } catch {
-    return {
-      responseType: 'buggyVariant',
-      intent: 'introduce_mistakes',
-      mistakeSummary: 'Non-JSON content returned.',
-      edits: [{ description: 'N/A', rationale: content }],
-      buggyCode: code
-    };
+  if (result.ok) {
+    return result.value;
   }
+  return {
+    responseType: 'buggyVariant',
+    intent: 'introduce_mistakes',
+    mistakeSummary: `Unexpected reply shape:\n${formatIssues(result.issues)}`,
+    edits: [{ description: 'N/A', rationale: response.content }],
+    buggyCode: code
+  };
 }
 
 export function setModel(model: string) {
@@ -366,16 +305,28 @@ export function setModel(model: string) {
   }
 }
 
+// The model that serves normal mode (backends with their own model names pin it)
+export function currentModel(): string {
+  return provider ? provider.modelFor({ model: modelName, messages: [] }) : modelName;
+}
+
+// Whether switching to `model` takes effect: backends that pin their own model only switch between registry models of theirs
+export function canServe(model: string): boolean {
+  return !provider || provider.modelFor({ model, messages: [] }) === model;
+}
+
 // Pro模式下的Agent Workflow处理
 export async function processScreenshotsWithWorkflow(
   screenshots: any[], 
-  onStatusUpdate: (state: WorkflowState) => void
+  onStatusUpdate: (state: WorkflowState) => void,
+  cacheMode: CacheMode = 'use',
+  signal?: AbortSignal
 ) {
-  if (!openai) {
-    throw new Error('OpenAI client is not initialized');
+  if (!provider) {
+    throw new Error('LLM provider is not initialized');
   }
 
-  const workflow = new AgentWorkflow(openai, language, onStatusUpdate);
+  const workflow = new AgentWorkflow(provider, language, onStatusUpdate, { benchmark: benchmarkEnabled, cacheMode, routing, signal });
   return await workflow.executeProWorkflow(screenshots);
 }
 
@@ -383,6 +334,8 @@ export default {
   processScreenshots,
   updateConfig,
   setModel,
+  currentModel,
+  canServe,
   generateBuggyVariant,
   processScreenshotsWithWorkflow
 };
@@ -0,0 +1,70 @@
+import { COMPARE_MODES } from '../shared/comparator';
+import { Schema, array, either, literal, object, oneOf, optional, string, tagged } from '../shared/schema';
+import type { ExtractedProblem } from './agents/extractAgent';
+import type { AnswerResponse, BuggyVariantResponse, CodeResponse } from './openai';
+
+// Shapes the model replies must have. compare and signature are only checked as far as the
+// rest of the app depends on them; normalizeCompareSpec / normalizeSignature clean up the details.
+
+const compareSchema = object({
+  mode: oneOf(COMPARE_MODES)
+});
+
+const signatureSchema = object({
+  kind: oneOf(['function', 'design'] as const),
+  params: array(object({ name: string(), type: string() })),
+  returnType: string()
+});
+
+const lines = either(string(), array(string()));
+
+const codeFields = {
+  approach: string({ nonEmpty: true }),
+  code: string({ nonEmpty: true }),
+  timeComplexity: string({ nonEmpty: true }),
+  spaceComplexity: string({ nonEmpty: true })
+};
+
+export const codeResponseSchema: Schema<CodeResponse> = object({
+  responseType: literal('code'),
+  ...codeFields,
+  examples: optional(array(object({ input: lines, output: lines }))),
+  compare: optional(compareSchema),
+  signature: optional(signatureSchema)
+});
+
+export const answerResponseSchema: Schema<AnswerResponse> = object({
+  responseType: literal('answer'),
+  approach: string({ nonEmpty: true }),
+  result: string({ nonEmpty: true })
+});
+
+export const screenshotResponseSchema: Schema<CodeResponse | AnswerResponse> = tagged('responseType', {
+  code: codeResponseSchema,
+  answer: answerResponseSchema
+});
+
+// A CodeAgent candidate: the code fields without responseType
+export const codeSolutionSchema = object(codeFields);
+
+export const extractedProblemSchema: Schema<ExtractedProblem> = object({
+  title: string({ nonEmpty: true }),
+  description: string({ nonEmpty: true }),
+  examples: array(object({
+    input: string(),
+    output: string(),
+    explanation: optional(string())
+  })),
+  constraints: optional(array(string())),
+  followUp: optional(string()),
+  compare: optional(compareSchema),
+  signature: optional(signatureSchema)
+});
+
+export const buggyVariantSchema: Schema<BuggyVariantResponse> = object({
+  responseType: literal('buggyVariant'),
+  intent: literal('introduce_mistakes'),
+  mistakeSummary: string({ nonEmpty: true }),
+  edits: array(object({ description: string(), rationale: string() }), { min: 1 }),
+  buggyCode: string({ nonEmpty: true })
+});
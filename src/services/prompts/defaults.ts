@@ -0,0 +1,338 @@
+// Prompts shipped with the app. Each one is installed as <id>.md in the prompt directory and
+// can be edited there. Bump version whenever the text changes: installed copies with a lower
+// version are replaced, and the version is part of the response cache key.
+//
+// Syntax: {{name}} inserts a variable, {{#name}}...{{/name}} keeps its body only when the
+// variable is set (non-empty, not false), {{^name}}...{{/name}} only when it is not.
+
+export type PromptId =
+  | 'screenshots'
+  | 'screenshots-user'
+  | 'buggy-variant'
+  | 'buggy-variant-user'
+  | 'classify'
+  | 'extract'
+  | 'verify'
+  | 'code'
+  | 'stress'
+  | 'benchmark'
+  | 'edge-cases';
+
+export interface PromptTemplate {
+  id: PromptId;
+  version: number;
+  description: string;
+  text: string;
+}
+
+const screenshots = `You are an expert technical interview assistant.
+You will receive one or more screenshots that contain either a coding question or a non-coding question.
+You MUST always answer in valid JSON and ONLY JSON with no extra text.
+
+You need to add comment in your code to explain the logics, seperate your code to different blocks like below:
+
+function reverseKGroup(head: ListNode | null, k: number): ListNode | null {
+  let vhead = new ListNode(-1,head) // 虚拟头节点，简化边界条件处理
+
+  let reverseK = (head, prev)=>{ // 核心算法部分
+      if (head===null) return
+      let pre = prev
+      let start = head
+      let i = 1
+
+      // Step 1： 找到当前组的结束位置
+      let end = start
+      while (i<k) {
+          if (end.next===null) return // 不够7个节点，直接返回
+          end = end.next
+          i++
+      }
+
+    // Step 2：分离当前组
+      let succ = end.next // 保存后续链表
+      end.next = null // 切断连接，形成独立的K个节点组
+
+  // Step 3： 反转当前组，之后首尾接入大链表
+      reverse(start)
+      pre.next = end // 将前一组连接到当前组的新头部
+      start.next = succ // 将当前组的新尾部连接到后续链表
+
+      // Step 4： 递归处理之后的部分
+      reverseK(succ, start)
+  }
+  reverseK(head,vhead)
+  return vhead.next
+};
+
+// 用于反转单独一段链表
+function reverse(head: ListNode | null){
+  if (head===null) return null
+  let prev = null
+  let curr = head
+  while(curr!=null){
+      let n = curr.next
+      curr.next = prev
+      prev = curr
+      curr = n
+  }
+}
+
+The first field MUST be "responseType" with value either "code" or "answer".
+If multiple questions are shown, answer first question only.
+- If the question requires writing code, return responseType:"code" with fields: {
+    "responseType": "code",
+    "approach": "Explain the full solving process in {{explanationLanguage}}, first with a concise summary, then with a detailed step-by-step explanation with explaination to technical terms used, e.g. some specific data structure like trie",
+    "code": "Complete, runnable solution code",
+    "timeComplexity": "Big-O with reasoning",
+    "spaceComplexity": "Big-O with reasoning",
+    "examples": [{"input": "...", "output": "..."}],  // Include ONLY IF explicit example input AND output are provided in the question; otherwise omit this field entirely.
+    "compare": {"mode": "tokens"}  // How to compare program output with the examples, inferred from the statement (see below)
+  }
+- If the question does NOT require writing code, return responseType:"answer" with fields: {
+    "responseType": "answer",
+    "approach": "Explain the solving process in {{explanationLanguage}}",
+    "result": "A concise final answer in the SAME language as the question; for multiple choice, output only the correct option"
+  }
+Hard requirements:
+- Always output ONLY a single JSON object, no markdown, no backticks.
+- "approach" MUST always be in {{explanationLanguage}}.
+- For responseType:"answer", "result" MUST be the same language as the question.
+- For responseType:"code": If the problem statement includes explicit example input AND output, extract them into an array field named "examples" with specific format:
+  Examples of proper format extraction:
+  * Single-line: {"input": "5", "output": "120"} (for factorial calculation)
+  * Multi-line input: {"input": ["4", "1 2 3 4", "1 2", "2 3", "3 4"], "output": "10"} (array queries)
+  * Multi-line output: {"input": "3", "output": ["1", "1 1", "1 2 1"]} (Pascal's triangle)
+  * Both multi-line: {"input": ["2", "hello", "world"], "output": ["HELLO", "WORLD"]} (string processing)
+  * Matrix format: {"input": ["2 3", "1 2 3", "4 5 6"], "output": ["6", "15"]} (matrix operations)
+  Critical rules:
+  - Use string arrays ["line1", "line2"] for multi-line content, NOT escaped strings "line1\\nline2"
+  - Each line is a separate array element
+  - Preserve exact spacing and formatting from the problem
+  - Single values remain as strings, not single-element arrays
+- If no explicit example input/output are present, DO NOT include the "examples" field at all (do not include null/empty).
+- "compare.mode" is one of: "tokens" (default, whitespace-insensitive), "float" (add "epsilon", e.g. 1e-6, when answers within an error are accepted), "unordered" (lines may be in any order), "caseInsensitive" (e.g. YES/yes both accepted), "exact" (must match character by character), "special" (any valid answer is accepted; add "checker": a Python program that reads JSON {"input","expected","actual"} from stdin and prints "AC" on the first line when "actual" is valid, otherwise "WA" and a reason), "interactive" (the program converses with a judge, e.g. guess the number with limited queries; add "judge": a Python program that reads the hidden test data from the file named by sys.argv[1], talks to the solution through stdout/stdin flushing after every line, and prints "AC" or "WA <reason>" as the last line of stderr; each example "input" is then the judge's hidden data).
+- Write the solution in {{language}}. For interactive problems flush stdout after every printed line and only read what the judge has sent.
+{{#harness}}- If the question is ACM style (reads input, prints output), handle input/output manually in the main function; the code is run as a standalone {{language}} program reading stdin and writing stdout.
+- If the question is leetcode style (implement a function or a class), write ONLY the function/class exactly as the given signature, with no main and no I/O, and add a field "signature": {"kind": "function" | "design", "className": "Solution", "methodName": "twoSum", "params": [{"name": "nums", "type": "int[]"}, {"name": "target", "type": "int"}], "returnType": "int[]"}. Types are int, long, double, bool, string, char, ListNode, TreeNode, Node (graph as adjacency list), void, with [] suffixes for arrays (e.g. int[][]). Use "design" with "className" for class design problems whose input is an operation list and an argument list. Keep example inputs exactly as written, e.g. "nums = [2,7,11,15], target = 9".{{/harness}}{{^harness}}- Make sure your code is ACM style - which means you need to handle input/output manually in the main function. If the question is leetcode style (write a function only), add a {{language}} entry point in the end of code (e.g. if __name__ == "__main__" in Python, public static void main in a public class Main in Java, int main in C/C++, func main in Go, fn main in Rust).
+- Your code output will be compiled/run directly as a standalone {{language}} program reading stdin and writing stdout. so Do not just give a function as no one will call it.{{/harness}}`;
+
+const buggyVariant = `You will receive a correct solution code. Your task is to intentionally introduce exactly two subtle mistakes to create a buggy version.
+- These mistakes should be realistic careless mistakes: missing an edge case, wrong boundary condition, off-by-one, or mishandled input.
+- The buggy version MUST remain largely similar to the original (same structure and algorithm spirit). with only two slight mistake that clearly marked with a comment in same line in your output buggy version. the comment must mention the correct version
+- Return STRICT JSON only with the following fields:
+  {
+    "responseType": "buggyVariant",
+    "intent": "introduce_mistakes",
+    "mistakeSummary": "<In {{explanationLanguage}}: summarize what you changed and why it causes errors>",
+    "edits": [
+      { "description": "<In {{explanationLanguage}}: what changed>", "rationale": "<In {{explanationLanguage}}: why this leads to wrong output>" },
+      { "description": "<In {{explanationLanguage}}>", "rationale": "<In {{explanationLanguage}}>" }
+    ],
+    "buggyCode": "<complete code with the two mistakes>"
+  }
+- Do NOT include any extra fields. Do NOT include markdown or backticks.
+- Keep the programming language as: {{language}}`;
+
+const buggyVariantUser = `Original approach (may be empty):
+{{#approach}}{{approach}}{{/approach}}{{^approach}}(none){{/approach}}
+
+Original correct code:
+{{code}}`;
+
+const classify = `请分析这些截图内容，判断这是什么类型的问题。
+
+请只回复以下两个选项之一：
+- "coding" - 如果这是编程/算法题，包含代码实现需求，有输入输出示例，需要写代码解决
+- "general" - 如果这是其他类型的问题，比如概念解释、理论问题、一般性问答等
+
+请仔细观察是否有：
+1. 函数签名/方法定义
+2. 输入输出示例
+3. 约束条件
+4. 算法或数据结构相关内容
+5. 要求实现某个功能的代码
+
+如果有以上特征，回复 "coding"，否则回复 "general"。
+
+只回复一个单词，不要任何解释。`;
+
+const extract = `请仔细分析这些截图中的编程题目，提取以下信息并以JSON格式返回：
+
+{
+  "title": "题目标题",
+  "description": "题目描述的完整文本，保持原文格式和要求",
+  "examples": [
+    {
+      "input": "输入示例的具体内容",
+      "output": "预期输出的具体内容",
+      "explanation": "解释说明（如果有的话）"
+    }
+  ],
+  "constraints": ["约束条件1", "约束条件2"],
+  "followUp": "进阶问题或follow-up问题（如果有的话）",
+  "compare": {
+    "mode": "exact | tokens | float | unordered | caseInsensitive | special | interactive",
+    "epsilon": 0.000001,
+    "checker": "仅当mode为special时提供的Python校验程序",
+    "judge": "仅当mode为interactive时提供的Python交互评测程序"
+  },
+  "signature": {
+    "kind": "function | design",
+    "className": "Solution",
+    "methodName": "twoSum",
+    "params": [{"name": "nums", "type": "int[]"}, {"name": "target", "type": "int"}],
+    "returnType": "int[]"
+  }
+}
+
+请注意：
+1. 准确提取所有输入输出示例，保持格式
+2. 完整保留题目描述的所有要求和细节
+3. 提取所有约束条件（时间复杂度、空间复杂度、数据范围等）
+4. 如果有多个example，都要包含
+5. 保持数字、特殊符号的准确性
+6. 如果截图中有代码框架或函数签名，也包含在描述中
+7. 根据题面推断输出的比较方式 compare.mode：
+   - "tokens"：默认，按空白分隔逐个比较
+   - "float"：输出浮点数且允许误差（epsilon填题面给出的精度，如1e-6）
+   - "unordered"：输出多行且顺序任意（如"以任意顺序返回"）
+   - "caseInsensitive"：大小写不敏感（如输出YES/yes均可）
+   - "exact"：需要严格逐字符一致
+   - "special"：存在多个正确答案（如"输出任意一个合法解"），此时在checker中给出Python校验程序：从stdin读取JSON {"input","expected","actual"}，合法时第一行打印"AC"，否则打印"WA"及原因
+   - "interactive"：交互题（程序需要向评测方提问并根据回答继续，如猜数字、限制询问次数），此时在judge中给出Python交互评测程序：从 sys.argv[1] 指定的文件读取测试数据（即例子的input），通过stdout向解法发送信息（每次print后flush），从stdin读取解法的询问和答案，按题面规则回答并检查询问次数；结束时在stderr最后一行打印"AC"或"WA 原因"。交互题例子的input填写评测方持有的隐藏数据（如被猜的数），output填写题面给出的交互示例
+8. 如果是LeetCode风格的题目（要求实现函数或类，而不是读写标准输入输出），填写signature，否则省略该字段：
+   - 实现函数时kind为"function"，methodName为函数名，params按顺序列出参数名和类型
+   - 设计类题目（输入形如["LRUCache","put","get"]和[[2],[1,1],[2]]）kind为"design"，className为类名
+   - 类型使用：int, long, double, bool, string, char, ListNode, TreeNode, Node（图，邻接表表示），void，数组在后面加[]（如int[][]、ListNode[]）
+   - 示例的input保持题面原样，如"nums = [2,7,11,15], target = 9"
+
+只返回JSON，不要任何其他文本。`;
+
+const verify = `请验证以下提取的题目信息是否与截图中的内容一致。
+
+提取的内容：
+{{extraction}}
+
+请仔细对比截图和提取的内容，检查：
+1. 题目标题是否正确
+2. 题目描述是否完整准确
+3. 输入输出示例是否一致
+4. 数字、符号是否准确
+5. 约束条件是否正确
+6. 是否遗漏了重要信息
+
+如果提取的内容与截图完全一致且完整，请回复 "true"
+如果有任何不一致、遗漏或错误，请回复 "false"
+
+只回复 true 或 false，不要任何解释。`;
+
+const code = `You are an expert competitive programmer. You need to solve coding problems step by step.
+
+Please provide:
+1. Clear approach explanation, written in {{explanationLanguage}}
+2. Clean, efficient code in {{language}}
+3. Time and space complexity analysis
+
+Format your response as JSON:
+{
+  "approach": "Step by step explanation of your approach",
+  "code": "Your complete solution code",
+  "timeComplexity": "Time complexity (e.g., O(n))",
+  "spaceComplexity": "Space complexity (e.g., O(1))"
+}
+
+Make sure the code is syntactically correct and handles edge cases.
+{{#interactive}}This is an interactive problem: the program talks to a judge program through stdin/stdout. Print each query or answer on its own line and flush stdout right after it (e.g. flush=True, fflush(stdout), std::endl, System.out.flush()), then read the judge's reply. Never read ahead beyond what the judge has sent.{{/interactive}}{{#harnessTarget}}Write only {{harnessTarget}} exactly as the given signature, LeetCode style: no main, no stdin parsing and no printing. A test harness builds the arguments (including ListNode/TreeNode from their array form), calls it and compares the returned value.{{/harnessTarget}}{{#standalone}}The code will be executed as a standalone {{language}} program against the examples: it must read the example Input from stdin exactly as written and print the expected Output to stdout. If the problem asks for a function only, also add an entry point that parses stdin, calls it and prints the result.{{/standalone}}`;
+
+// Shared by the stress, benchmark and edge-case prompts: the generated inputs must match what the runner feeds the solution
+const inputFormat = `{{#design}}两行：操作名列表和参数列表，例如 ["LRUCache","put","get"] 换行 [[2],[1,1],[2]]{{/design}}{{#function}}一行 name = value 形式，参数依次为 {{params}}{{#paramExample}}，例如 {{paramExample}}{{/paramExample}}；数组、ListNode、TreeNode 均用JSON数组表示{{/function}}{{#stdio}}与题目例子的输入格式完全一致{{/stdio}}`;
+
+const problem = `题目：{{title}}
+
+{{description}}
+{{#constraints}}
+约束条件：
+{{constraints}}
+{{/constraints}}`;
+
+const stress = `为下面的编程题编写对拍用的两段Python 3程序，以JSON格式返回：
+
+{
+  "brute": "暴力解法",
+  "generator": "随机数据生成器"
+}
+
+要求：
+1. brute：最直接、最容易验证正确的暴力解法，不追求效率，只需在小数据上正确。{{#design}}实现类 {{className}}，不要写main，不要读写标准输入输出。{{/design}}{{#function}}实现 class Solution 的方法 {{methodName}}，参数与题目签名一致，不要写main，不要读写标准输入输出。{{/function}}{{#stdio}}从标准输入读取数据，向标准输出打印答案，格式与题目一致。{{/stdio}}
+2. generator：从标准输入读取一个整数种子，用 random.seed(种子) 后生成一组随机输入并打印。输入格式：${inputFormat}。
+3. 生成的数据必须满足题目约束，但规模要小（例如长度不超过8、数值绝对值不超过10），保证暴力解很快结束并容易覆盖边界情况。
+4. 只返回JSON，不要任何其他文本。
+
+${problem}{{#exampleInputs}}
+例子输入：
+{{exampleInputs}}
+{{/exampleInputs}}
+待验证的解法（仅供理解题意，暴力解不要照抄）：
+{{code}}
+`;
+
+const benchmark = `为下面的编程题编写一个用于性能测试的Python 3数据生成器，以JSON格式返回：
+
+{
+  "generator": "数据生成器",
+  "maxSize": 100000
+}
+
+要求：
+1. generator从标准输入读取一行两个整数 seed n，用 random.seed(seed) 后生成一组"规模为n"的随机输入并打印。n 是决定复杂度的主要规模（如数组长度、字符串长度、节点数）。
+2. 输入格式：${inputFormat}。
+3. 其余参数按约束取典型或较大的值，数据要能体现一般情况而不是特别简单的情况。
+4. maxSize 是约束条件允许的主规模上限（没有给出时取 100000）。
+5. 只返回JSON，不要任何其他文本。
+
+${problem}{{#exampleInputs}}
+例子输入：
+{{exampleInputs}}
+{{/exampleInputs}}`;
+
+const edgeCases = `根据下面编程题的约束条件，设计有针对性的边界测试用例，以JSON格式返回：
+
+{
+  "cases": [
+    {
+      "description": "用例说明，如：n=1 的最小输入",
+      "input": "完整的输入（小数据时提供）",
+      "generator": "打印完整输入的Python 3程序（数据太大无法直接写出时提供，与input二选一）",
+      "expected": "期望输出（只有能确定时才提供，否则省略）"
+    }
+  ]
+}
+
+要求：
+1. 覆盖约束允许的极端情况：空输入或最小规模（n=0/n=1）、最大规模、最大/最小数值、全部相同或大量重复的元素、负数和零、可能导致整数溢出的边界、已排序/逆序等退化情况。
+2. 所有用例必须满足题目约束，不要构造非法输入。
+3. 输入格式：${inputFormat}。
+4. 最多{{maxCases}}个用例；最大规模的用例使用generator。
+5. 只返回JSON，不要任何其他文本。
+
+${problem}{{#examples}}
+例子（JSON数组，input为输入，output为期望输出）：
+{{examples}}
+{{/examples}}`;
+
+export const DEFAULT_PROMPTS: Record<PromptId, PromptTemplate> = {
+  'screenshots': { id: 'screenshots', version: 1, description: 'System prompt for solving screenshots in one call (normal mode, general questions in pro mode)', text: screenshots },
+  'screenshots-user': { id: 'screenshots-user', version: 1, description: 'User message sent with the screenshots', text: 'Here is a coding interview question. Please analyze and provide a solution.' },
+  'buggy-variant': { id: 'buggy-variant', version: 1, description: 'System prompt for the practice copy with two planted mistakes', text: buggyVariant },
+  'buggy-variant-user': { id: 'buggy-variant-user', version: 1, description: 'User message carrying the solution to break', text: buggyVariantUser },
+  'classify': { id: 'classify', version: 1, description: 'Pro mode: coding question or general question', text: classify },
+  'extract': { id: 'extract', version: 1, description: 'Pro mode: problem statement, examples and signature as JSON', text: extract },
+  'verify': { id: 'verify', version: 1, description: 'Pro mode: check the extracted problem against the screenshots', text: verify },
+  'code': { id: 'code', version: 1, description: 'Pro mode: system prompt for the solution candidates and repairs', text: code },
+  'stress': { id: 'stress', version: 1, description: 'Pro mode: brute force and random generator for stress testing', text: stress },
+  'benchmark': { id: 'benchmark', version: 1, description: 'Pro mode: sized input generator for timing the solution', text: benchmark },
+  'edge-cases': { id: 'edge-cases', version: 2, description: 'Pro mode: boundary test cases derived from the constraints', text: edgeCases }
+};
+
+export const PROMPT_IDS = Object.keys(DEFAULT_PROMPTS) as PromptId[];
+
@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { DEFAULT_PROMPTS, PROMPT_IDS, PromptId, PromptTemplate } from './defaults';
+import { DEFAULT_EXPLANATION_LANGUAGE } from '../../shared/prompts';
+
+// Prompt templates live as editable files in the prompt directory, one <id>.md per prompt:
+//
+//   ---
+//   id: screenshots
+//   version: 2
+//   checksum: 1a2b3c4d
+//   description: ...
+//   ---
+//   <template text>
+//
+// checksum is the hash of the text as shipped, so an edited copy can be told apart. A copy older
+// than the shipped version is replaced; if it was edited it is kept next to it as <id>.v<N>.md.bak.
+// Every rendered prompt carries a version label ("screenshots@2", or "screenshots@2+9f8e7d6c" once
+// edited) that goes into result logs and response cache keys.
+
+export type { PromptId } from './defaults';
+
+export type PromptVariables = Record<string, string | number | boolean | undefined>;
+
+export interface RenderedPrompt {
+  text: string;
+  version: string;
+}
+
+interface LoadedPrompt extends PromptTemplate {
+  edited: boolean;
+  hash: string;
+}
+
+let promptDir: string | null = null;
+let prompts: Record<PromptId, LoadedPrompt> = Object.fromEntries(
+  PROMPT_IDS.map(id => [id, { ...DEFAULT_PROMPTS[id], edited: false, hash: hashText(DEFAULT_PROMPTS[id].text) }])
+) as Record<PromptId, LoadedPrompt>;
+
+// Variables every prompt can use unless the caller passes its own value, e.g. explanationLanguage
+let sharedVariables: PromptVariables = { explanationLanguage: DEFAULT_EXPLANATION_LANGUAGE };
+
+function hashText(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex').slice(0, 8);
+}
+
+function serialize(template: PromptTemplate): string {
+  return [
+    '---',
+    `id: ${template.id}`,
+    `version: ${template.version}`,
+    `checksum: ${hashText(template.text)}`,
+    `description: ${template.description}`,
+    '---',
+    template.text
+  ].join('\n');
+}
+
+function parse(content: string): { version: number; checksum: string; text: string } | null {
+  const match = content.replace(/\r\n/g, '\n').match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
+  if (!match) return null;
+  const fields: Record<string, string> = {};
+  for (const line of match[1].split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon > 0) fields[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+  }
+  const version = parseInt(fields.version, 10);
+  if (!Number.isFinite(version)) return null;
+  return { version, checksum: fields.checksum || '', text: match[2] };
+}
+
+function filePath(id: PromptId): string {
+  return path.join(promptDir!, `${id}.md`);
+}
+
+// Writes shipped prompts that are missing or outdated, then loads every file
+export async function installPromptLibrary(dir: string): Promise<void> {
+  promptDir = dir;
+  await fs.mkdir(dir, { recursive: true });
+  for (const id of PROMPT_IDS) {
+    const shipped = DEFAULT_PROMPTS[id];
+    const file = filePath(id);
+    const installed = parse(await fs.readFile(file, 'utf-8').catch(() => ''));
+    if (installed && installed.version >= shipped.version) continue;
+    if (installed && hashText(installed.text) !== installed.checksum) {
+      const backup = path.join(dir, `${id}.v${installed.version}.md.bak`);
+      await fs.copyFile(file, backup);
+      console.warn(`[Prompts] ${id} v${installed.version} was edited; replaced by v${shipped.version}, your copy is kept as ${backup}`);
+    }
+    await fs.writeFile(file, serialize(shipped));
+  }
+  await reloadPromptLibrary();
+}
+
+// Picks up edits made while the app is running; unreadable files fall back to the shipped text
+export async function reloadPromptLibrary(): Promise<void> {
+  if (!promptDir) return;
+  const loaded = await Promise.all(PROMPT_IDS.map(async (id): Promise<LoadedPrompt> => {
+    const shipped = DEFAULT_PROMPTS[id];
+    const parsed = parse(await fs.readFile(filePath(id), 'utf-8').catch(() => ''));
+    if (!parsed) {
+      console.warn(`[Prompts] ${filePath(id)} is missing or has no front matter, using the built-in text`);
+      return { ...shipped, edited: false, hash: hashText(shipped.text) };
+    }
+    const hash = hashText(parsed.text);
+    return { ...shipped, version: parsed.version, text: parsed.text, edited: hash !== parsed.checksum, hash };
+  }));
+  prompts = Object.fromEntries(loaded.map(p => [p.id, p])) as Record<PromptId, LoadedPrompt>;
+}
+
+export function setPromptVariables(variables: PromptVariables): void {
+  sharedVariables = { ...sharedVariables, ...variables };
+}
+
+export function promptVersion(id: PromptId): string {
+  const prompt = prompts[id];
+  return prompt.edited ? `${id}@${prompt.version}+${prompt.hash}` : `${id}@${prompt.version}`;
+}
+
+// Version labels of several prompts, for result logs
+export function promptVersions(ids: PromptId[]): Record<string, string> {
+  return Object.fromEntries(ids.map(id => [id, promptVersion(id)]));
+}
+
+function isSet(value: PromptVariables[string]): boolean {
+  return value !== undefined && value !== false && value !== '' && value !== 0;
+}
+
+const SECTION = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const VARIABLE = /\{\{(\w+)\}\}/g;
+
+export function renderTemplate(text: string, variables: PromptVariables): string {
+  // Outer sections are resolved first, nested ones on the next pass
+  let previous: string;
+  let result = text;
+  do {
+    previous = result;
+    result = result.replace(SECTION, (_, kind: string, name: string, body: string) => isSet(variables[name]) === (kind === '#') ? body : '');
+  } while (result !== previous);
+  // Values are inserted last so text inside them (a problem statement, code) is never read as a tag
+  return result.replace(VARIABLE, (tag, name: string) => {
+    const value = variables[name];
+    if (value === undefined) {
+      console.warn(`[Prompts] Unknown variable ${tag}`);
+      return '';
+    }
+    return String(value);
+  });
+}
+
+export function renderPrompt(id: PromptId, variables: PromptVariables = {}): RenderedPrompt {
+  return {
+    text: renderTemplate(prompts[id].text, { ...sharedVariables, ...variables }),
+    version: promptVersion(id)
+  };
+}
@@ -0,0 +1,131 @@
+import type { ModelInfo } from '../../shared/models';
+import { classifyError } from './errors';
+import { ChatMessage, ChatRequest, ChatResponse, JSON_INSTRUCTION, LLMProvider, extractJsonObject, pinnedModel, readLines, responseError, trimBaseURL } from './llmProvider';
+
+const API_VERSION = '2023-06-01';
+// The Messages API has no default for max_tokens
+const DEFAULT_MAX_TOKENS = 4096;
+
+type AnthropicBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicBlock[];
+}
+
+// Anthropic Messages API
+export class AnthropicProvider implements LLMProvider {
+  readonly kind = 'anthropic' as const;
+  private apiKey: string;
+  private baseURL: string;
+  private model: string;
+  private models?: ModelInfo[];
+
+  constructor(apiKey: string, baseURL: string, model: string, models?: ModelInfo[]) {
+    this.apiKey = apiKey;
+    this.baseURL = trimBaseURL(baseURL, '/v1');
+    this.model = model;
+    this.models = models;
+  }
+
+  modelFor(request: ChatRequest): string {
+    return pinnedModel(this.kind, this.models, this.model, request);
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const res = await this.post(request, false);
+    const data: any = await res.json();
+    const text = (Array.isArray(data?.content) ? data.content : [])
+      .filter((block: any) => block?.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+    return {
+      content: request.json ? extractJsonObject(text) : text,
+      model: data?.model || this.modelFor(request),
+      usage: data?.usage ? { inputTokens: data.usage.input_tokens || 0, outputTokens: data.usage.output_tokens || 0 } : undefined
+    };
+  }
+
+  // Server-sent events: text arrives in content_block_delta, token counts in message_start/message_delta
+  async chatStream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResponse> {
+    const res = await this.post(request, true);
+    let text = '';
+    let model = this.modelFor(request);
+    let inputTokens = 0;
+    let outputTokens = 0;
+    await readLines(res, (line) => {
+      if (!line.startsWith('data:')) return;
+      let event: any;
+      try {
+        event = JSON.parse(line.slice(5));
+      } catch {
+        return;
+      }
+      if (event?.type === 'message_start') {
+        model = event.message?.model || model;
+        inputTokens = event.message?.usage?.input_tokens || 0;
+      } else if (event?.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        text += event.delta.text;
+        onDelta(event.delta.text);
+      } else if (event?.type === 'message_delta') {
+        outputTokens = event.usage?.output_tokens || outputTokens;
+      } else if (event?.type === 'error') {
+        throw classifyError(new Error(event.error?.message || 'stream failed'), this.kind);
+      }
+    });
+    return {
+      content: request.json ? extractJsonObject(text) : text,
+      model,
+      usage: { inputTokens, outputTokens }
+    };
+  }
+
+  private async post(request: ChatRequest, stream: boolean): Promise<Response> {
+    const system = request.messages.filter(m => m.role === 'system').map(m => toBlocks(m).map(b => b.type === 'text' ? b.text : '').join('\n'));
+    if (request.json) system.push(JSON_INSTRUCTION);
+
+    const res = await fetch(`${this.baseURL}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': API_VERSION
+      },
+      body: JSON.stringify({
+        model: this.modelFor(request),
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(system.length > 0 ? { system: system.join('\n\n') } : {}),
+        ...(stream ? { stream: true } : {}),
+        messages: toAnthropicMessages(request.messages)
+      }),
+      signal: request.signal
+    });
+    if (!res.ok) throw await responseError(this.kind, res);
+    return res;
+  }
+}
+
+function toBlocks(message: ChatMessage): AnthropicBlock[] {
+  if (typeof message.content === 'string') return [{ type: 'text', text: message.content }];
+  return message.content.map(part => part.type === 'text'
+    ? { type: 'text' as const, text: part.text }
+    : { type: 'image' as const, source: { type: 'base64' as const, media_type: part.mediaType, data: part.data } });
+}
+
+// Consecutive turns of the same role (text, then one message per screenshot) become one turn
+function toAnthropicMessages(messages: ChatMessage[]): AnthropicMessage[] {
+  const merged: AnthropicMessage[] = [];
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+    const last = merged[merged.length - 1];
+    if (last && last.role === message.role) {
+      last.content.push(...toBlocks(message));
+    } else {
+      merged.push({ role: message.role, content: toBlocks(message) });
+    }
+  }
+  return merged;
+}
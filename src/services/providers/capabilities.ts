@@ -0,0 +1,54 @@
+import { ModelInfo, findModel } from '../../shared/models';
+import { LLMError } from './errors';
+import { ChatRequest, ChatResponse, JSON_INSTRUCTION, LLMProvider, extractJsonObject } from './llmProvider';
+
+// Holds every request to what the model registry says the serving model can take: images never
+// reach a model without vision (the call fails before anything is sent), and JSON replies from a
+// model without a JSON mode are asked for in the system prompt instead.
+export class CapabilityGuard implements LLMProvider {
+  readonly kind: LLMProvider['kind'];
+  private inner: LLMProvider;
+  private models: ModelInfo[];
+
+  constructor(inner: LLMProvider, models: ModelInfo[]) {
+    this.kind = inner.kind;
+    this.inner = inner;
+    this.models = models;
+  }
+
+  modelFor(request: ChatRequest): string {
+    return this.inner.modelFor(request);
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const adapted = this.adapt(request);
+    return this.unwrap(request, adapted, await this.inner.chat(adapted));
+  }
+
+  async chatStream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResponse> {
+    const adapted = this.adapt(request);
+    return this.unwrap(request, adapted, await this.inner.chatStream(adapted, onDelta));
+  }
+
+  private adapt(request: ChatRequest): ChatRequest {
+    const model = this.modelFor(request);
+    const info = findModel(this.models, model, this.kind);
+    if (!info) return request;
+    const hasImages = request.messages.some(m => typeof m.content !== 'string' && m.content.some(part => part.type === 'image'));
+    if (hasImages && !info.vision) {
+      throw new LLMError('no_vision', this.kind, '').annotate(model, 1);
+    }
+    if (request.json && !info.jsonMode) {
+      return {
+        ...request,
+        json: false,
+        messages: [{ role: 'system', content: JSON_INSTRUCTION }, ...request.messages]
+      };
+    }
+    return request;
+  }
+
+  private unwrap(request: ChatRequest, adapted: ChatRequest, response: ChatResponse): ChatResponse {
+    return request.json && !adapted.json ? { ...response, content: extractJsonObject(response.content) } : response;
+  }
+}
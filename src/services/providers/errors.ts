@@ -0,0 +1,138 @@
+import { PROVIDER_DEFAULTS, ProviderKind } from '../../shared/providers';
+
+// What went wrong with an LLM call, in terms of what the user can do about it
+export type LLMErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'rate_limit'
+  | 'context_length'
+  | 'model_not_found'
+  | 'no_vision'
+  | 'server'
+  | 'network'
+  | 'timeout'
+  | 'bad_request'
+  | 'unknown';
+
+const RETRYABLE: LLMErrorKind[] = ['rate_limit', 'server', 'network', 'timeout'];
+
+// The message is meant for the user: the category, then what to change. The backend's own text is kept in `detail`.
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+  readonly provider: ProviderKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly detail: string;
+  model?: string;
+  attempts = 1;
+
+  constructor(kind: LLMErrorKind, provider: ProviderKind, detail: string, status?: number, retryAfterMs?: number) {
+    super(detail);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.provider = provider;
+    this.detail = detail;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    this.message = describe(this);
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.kind);
+  }
+
+  // Called once the retry wrapper knows the model and how often it tried
+  annotate(model: string, attempts: number): this {
+    this.model = model;
+    this.attempts = attempts;
+    this.message = describe(this);
+    return this;
+  }
+}
+
+function describe(err: LLMError): string {
+  const name = PROVIDER_DEFAULTS[err.provider].name;
+  // Mid-sentence form: "on the API" rather than "on The API"
+  const inner = name.replace(/^The /, 'the ');
+  const code = err.status ? ` (${err.status})` : '';
+  const tries = err.attempts > 1 ? ` after ${err.attempts} attempts` : '';
+  const detail = err.detail ? ` — ${err.detail}` : '';
+  switch (err.kind) {
+    case 'auth':
+      return `${name} rejected the API key${code}. Check the key in Settings (⌘/Ctrl + P).${detail}`;
+    case 'quota':
+      return `Out of credits or quota on ${inner}${code}. Top up the account, or switch provider or model in Settings.${detail}`;
+    case 'rate_limit':
+      return `${name} is rate limiting requests${code}${tries}. Wait a minute before retrying, or pick a less busy model.${detail}`;
+    case 'context_length':
+      return `The request is too long for the model's context window${code}. Use fewer or smaller screenshots, or a model with a larger context.${detail}`;
+    case 'model_not_found':
+      return `Model ${err.model ? `"${err.model}" ` : ''}is not available on ${inner}${code}. Check the model name in Settings${err.provider === 'ollama' ? ' or pull it with `ollama pull`' : ''}.${detail}`;
+    case 'no_vision':
+      return `Model ${err.model ? `"${err.model}" ` : ''}cannot read images, so the screenshots were not sent. Switch to a vision model (fn + 1/2/3/4), or mark it as supporting vision in the model list in Settings.${detail}`;
+    case 'server':
+      return `${name} had a server error${code}${tries}. Try again shortly.${detail}`;
+    case 'network':
+      return `Could not reach ${inner}${tries}. Check the network, the base URL in Settings, or that the local server is running.${detail}`;
+    case 'timeout':
+      return `${name} did not answer in time${tries}. Try again, or use a faster model.${detail}`;
+    case 'bad_request':
+      return `${name} rejected the request${code}.${detail}`;
+    default:
+      return `${name} request failed${code}.${detail}`;
+  }
+}
+
+const QUOTA_PATTERN = /quota|credit|billing|insufficient|payment/i;
+const CONTEXT_PATTERN = /context (length|window)|too long|too many tokens|maximum.*tokens|token limit|prompt is too long/i;
+const MODEL_PATTERN = /model.*(not found|not exist|does not exist|invalid|unknown|not available|no endpoints)|(unknown|invalid|not a valid) model|no such model/i;
+
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// HTTP status plus the error text decide the category; providers disagree on codes (quota is 429 at OpenAI, 402 at OpenRouter)
+export function classifyHttp(provider: ProviderKind, status: number, detail: string, retryAfter?: string | null): LLMError {
+  const retryAfterMs = parseRetryAfter(retryAfter);
+  let kind: LLMErrorKind;
+  if (status === 401 || status === 403) kind = 'auth';
+  else if (status === 402) kind = 'quota';
+  else if (status === 429) kind = QUOTA_PATTERN.test(detail) ? 'quota' : 'rate_limit';
+  else if (status === 408) kind = 'timeout';
+  else if (status === 413 || CONTEXT_PATTERN.test(detail)) kind = 'context_length';
+  else if (status === 404 || MODEL_PATTERN.test(detail)) kind = 'model_not_found';
+  else if (status >= 500) kind = 'server';
+  else if (status >= 400) kind = 'bad_request';
+  else kind = 'unknown';
+  return new LLMError(kind, provider, detail, status, retryAfterMs);
+}
+
+// Anything thrown by an adapter: our own HTTP errors, OpenAI SDK errors, or fetch failures
+export function classifyError(error: unknown, provider: ProviderKind): LLMError {
+  if (error instanceof LLMError) return error;
+  const err = error as any;
+  const message = String(err?.error?.message || err?.message || err || 'unknown error');
+
+  if (typeof err?.status === 'number') {
+    const headers = err.headers;
+    const retryAfter = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+    return classifyHttp(provider, err.status, message, retryAfter);
+  }
+  const name = String(err?.name || err?.constructor?.name || '');
+  if (/Timeout/i.test(name) || err?.code === 'ETIMEDOUT' || err?.cause?.code === 'UND_ERR_HEADERS_TIMEOUT') {
+    return new LLMError('timeout', provider, message);
+  }
+  const code = err?.cause?.code || err?.code;
+  if (/Connection/i.test(name) || (err instanceof TypeError && /fetch failed/i.test(message)) || /^E(CONNREFUSED|CONNRESET|NOTFOUND|AI_AGAIN|HOSTUNREACH)$/.test(String(code))) {
+    const cause = err?.cause?.message;
+    return new LLMError('network', provider, cause && cause !== message ? `${message}: ${cause}` : message);
+  }
+  // Errors reported inside a stream carry no status
+  if (CONTEXT_PATTERN.test(message)) return new LLMError('context_length', provider, message);
+  if (/overloaded|rate limit/i.test(message)) return new LLMError(/overloaded/i.test(message) ? 'server' : 'rate_limit', provider, message);
+  return new LLMError('unknown', provider, message);
+}
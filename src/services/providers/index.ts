@@ -0,0 +1,50 @@
+import { PROVIDER_DEFAULTS } from '../../shared/providers';
+import { AnthropicProvider } from './anthropicProvider';
+import { CapabilityGuard } from './capabilities';
+import { LLMProvider, ProviderConfig } from './llmProvider';
+import { MeteredProvider, UsageListener } from './metered';
+import { OllamaProvider } from './ollamaProvider';
+import { OpenAIProvider } from './openaiProvider';
+import { RetryingProvider } from './retry';
+
+export type { ChatMessage, ChatPart, ChatRequest, ChatResponse, ChatUsage, LLMProvider, ProviderConfig } from './llmProvider';
+export { imageFromDataUrl, textPart } from './llmProvider';
+export type { LLMErrorKind } from './errors';
+export { LLMError } from './errors';
+export { fetchModels } from './modelList';
+export type { UsageListener } from './metered';
+
+// Every provider comes wrapped in retries, so callers only ever see classified LLMErrors.
+// With a model registry, requests are checked against the serving model's capabilities first.
+// With onUsage, the tokens of every successful call are reported as well.
+export function createProvider(config: ProviderConfig, onUsage?: UsageListener): LLMProvider {
+  const adapter = createAdapter(config);
+  const provider = new RetryingProvider(config.models ? new CapabilityGuard(adapter, config.models) : adapter);
+  return onUsage ? new MeteredProvider(provider, onUsage) : provider;
+}
+
+function createAdapter(config: ProviderConfig): LLMProvider {
+  const defaults = PROVIDER_DEFAULTS[config.kind];
+  if (!defaults) {
+    throw new Error(`Unknown LLM provider: ${config.kind}`);
+  }
+  const apiKey = (config.apiKey || '').trim();
+  if (defaults.requiresApiKey && !apiKey) {
+    throw new Error(`${defaults.label} requires an API key`);
+  }
+  const baseURL = config.baseURL?.trim() || defaults.baseURL;
+  const model = config.model?.trim() || defaults.model;
+
+  switch (config.kind) {
+    case 'anthropic':
+      return new AnthropicProvider(apiKey, baseURL, model, config.models);
+    case 'ollama':
+      return new OllamaProvider(baseURL, model, config.models);
+    case 'llamacpp':
+      // llama-server ignores the key unless started with --api-key, but the SDK insists on one
+      return new OpenAIProvider('llamacpp', apiKey || 'no-key', baseURL, model || undefined, config.models);
+    default:
+      // OpenRouter ids in the agents pass straight through
+      return new OpenAIProvider('openai', apiKey, baseURL);
+  }
+}
@@ -0,0 +1,140 @@
+import { ModelInfo, findModel } from '../../shared/models';
+import type { ProviderKind } from '../../shared/providers';
+import { LLMError, classifyHttp } from './errors';
+
+// Backend-neutral chat shapes. Each adapter translates them into its API's wire format,
+// including how images are attached and how a JSON-only reply is requested.
+
+export type ChatPart =
+  | { type: 'text'; text: string }
+  // Base64 image data, without the data: URL prefix
+  | { type: 'image'; mediaType: string; data: string };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatPart[];
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Reply with a single JSON object: native JSON mode where the backend has one, instructions otherwise
+  json?: boolean;
+  // Aborting stops the request (and any retry) with a CancelledError
+  signal?: AbortSignal;
+}
+
+export interface ChatUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ChatResponse {
+  content: string;
+  model: string;
+  usage?: ChatUsage;
+}
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  apiKey?: string;
+  baseURL?: string;
+  // Backends with their own model names serve requests with this model unless they name another of theirs
+  model?: string;
+  // Capabilities from the model registry; models missing from it are assumed to take images and JSON mode
+  models?: ModelInfo[];
+}
+
+export interface LLMProvider {
+  readonly kind: ProviderKind;
+  // The model that actually serves the request (some backends pin their own)
+  modelFor(request: ChatRequest): string;
+  chat(request: ChatRequest): Promise<ChatResponse>;
+  // Same result as chat(), with the reply text handed to onDelta as it arrives
+  chatStream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResponse>;
+}
+
+// For backends with their own model names: a request naming one of their registry models (a
+// model switch) gets it, anything else (the OpenRouter ids in the agents) the configured model
+export function pinnedModel(kind: ProviderKind, models: ModelInfo[] | undefined, configured: string, request: ChatRequest): string {
+  const info = request.model ? findModel(models || [], request.model, kind) : undefined;
+  return info ? info.id : configured;
+}
+
+// For backends or models without a JSON mode, appended to the system prompt
+export const JSON_INSTRUCTION = 'Respond with a single JSON object only, without markdown fences or any text before or after it.';
+
+export function textPart(text: string): ChatPart {
+  return { type: 'text', text };
+}
+
+// Screenshots reach the agents as data URLs (the renderer previews)
+export function imageFromDataUrl(url: string): ChatPart {
+  const match = url.match(/^data:([^;,]+);base64,(.*)$/s);
+  if (!match) {
+    throw new Error('Only base64 data URLs can be sent as images');
+  }
+  return { type: 'image', mediaType: match[1], data: match[2] };
+}
+
+export function textOf(content: ChatMessage['content']): string {
+  if (typeof content === 'string') return content;
+  return content.filter((part): part is Extract<ChatPart, { type: 'text' }> => part.type === 'text').map(part => part.text).join('\n');
+}
+
+// For backends without a JSON mode: drop markdown fences and any chatter around the object
+export function extractJsonObject(text: string): string {
+  const unfenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  return start >= 0 && end > start ? unfenced.slice(start, end + 1) : unfenced;
+}
+
+// Error bodies differ per backend; keep whatever message is there
+export async function responseError(kind: ProviderKind, res: Response): Promise<LLMError> {
+  let detail = '';
+  try {
+    const body = await res.text();
+    try {
+      const parsed = JSON.parse(body);
+      detail = parsed?.error?.message || parsed?.error || body;
+    } catch {
+      detail = body;
+    }
+  } catch {}
+  return classifyHttp(kind, res.status, String(detail).slice(0, 500), res.headers.get('retry-after'));
+}
+
+// Streaming bodies (SSE, NDJSON) one line at a time
+export async function readLines(res: Response, onLine: (line: string) => void): Promise<void> {
+  if (!res.body) return;
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop()!;
+      for (const line of lines) {
+        if (line.trim()) onLine(line.replace(/\r$/, ''));
+      }
+      if (done) return;
+    }
+  } catch (error) {
+    // An error event from the server: stop the download as well
+    reader.cancel().catch(() => {});
+    throw error;
+  }
+}
+
+export function trimBaseURL(url: string, ...suffixes: string[]): string {
+  let trimmed = url.trim().replace(/\/+$/, '');
+  for (const suffix of suffixes) {
+    if (trimmed.endsWith(suffix)) trimmed = trimmed.slice(0, -suffix.length);
+  }
+  return trimmed;
+}
@@ -0,0 +1,39 @@
+import { ChatRequest, ChatResponse, ChatUsage, LLMProvider } from './llmProvider';
+
+// Called once per successful call; usage is missing when the backend did not report it
+export type UsageListener = (model: string, provider: LLMProvider['kind'], usage: ChatUsage | undefined) => void;
+
+// Reports the token usage of every call, so accounting does not depend on each caller remembering it
+export class MeteredProvider implements LLMProvider {
+  readonly kind: LLMProvider['kind'];
+  private inner: LLMProvider;
+  private onUsage: UsageListener;
+
+  constructor(inner: LLMProvider, onUsage: UsageListener) {
+    this.kind = inner.kind;
+    this.inner = inner;
+    this.onUsage = onUsage;
+  }
+
+  modelFor(request: ChatRequest): string {
+    return this.inner.modelFor(request);
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    return this.report(request, await this.inner.chat(request));
+  }
+
+  async chatStream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResponse> {
+    return this.report(request, await this.inner.chatStream(request, onDelta));
+  }
+
+  // Priced by the requested model id, which is what the price table is keyed by
+  private report(request: ChatRequest, response: ChatResponse): ChatResponse {
+    try {
+      this.onUsage(this.modelFor(request), this.kind, response.usage);
+    } catch (error) {
+      console.error('Error recording usage:', error);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,90 @@
+import { PROVIDER_DEFAULTS } from '../../shared/providers';
+import { ModelInfo } from '../../shared/models';
+import { classifyError } from './errors';
+import { ProviderConfig, responseError, trimBaseURL } from './llmProvider';
+
+// The models an endpoint offers, as registry entries. Only OpenRouter describes capabilities and
+// prices in its listing and Ollama per model; elsewhere the flags default to capable and can be
+// corrected in the config.
+export async function fetchModels(config: ProviderConfig): Promise<ModelInfo[]> {
+  const defaults = PROVIDER_DEFAULTS[config.kind];
+  const baseURL = config.baseURL?.trim() || defaults.baseURL;
+  const apiKey = (config.apiKey || '').trim();
+  try {
+    switch (config.kind) {
+      case 'anthropic':
+        return await listAnthropic(trimBaseURL(baseURL, '/v1'), apiKey);
+      case 'ollama':
+        return await listOllama(trimBaseURL(baseURL, '/v1', '/api'));
+      default:
+        return await listOpenAICompatible(config.kind, trimBaseURL(baseURL), apiKey);
+    }
+  } catch (error) {
+    throw classifyError(error, config.kind);
+  }
+}
+
+async function getJson(kind: ProviderConfig['kind'], url: string, headers: Record<string, string> = {}, init: RequestInit = {}): Promise<any> {
+  const res = await fetch(url, { ...init, headers: { ...headers, ...(init.headers as Record<string, string> | undefined) } });
+  if (!res.ok) throw await responseError(kind, res);
+  return res.json();
+}
+
+// OpenRouter prices are USD per token, as strings
+function perMillion(value: unknown): number | undefined {
+  const n = parseFloat(String(value));
+  return Number.isFinite(n) && n >= 0 ? Math.round(n * 1_000_000 * 1000) / 1000 : undefined;
+}
+
+async function listOpenAICompatible(kind: ProviderConfig['kind'], baseURL: string, apiKey: string): Promise<ModelInfo[]> {
+  const data = await getJson(kind, `${baseURL}/models`, apiKey ? { authorization: `Bearer ${apiKey}` } : {});
+  const items: any[] = Array.isArray(data?.data) ? data.data : [];
+  return items.filter(item => typeof item?.id === 'string').map(item => {
+    const modalities: unknown = item.architecture?.input_modalities;
+    const parameters: unknown = item.supported_parameters;
+    const input = perMillion(item.pricing?.prompt);
+    const output = perMillion(item.pricing?.completion);
+    return {
+      id: item.id,
+      provider: kind,
+      vision: Array.isArray(modalities) ? modalities.includes('image') : true,
+      jsonMode: Array.isArray(parameters) ? parameters.includes('response_format') : true,
+      contextTokens: Number(item.context_length) > 0 ? Number(item.context_length) : undefined,
+      price: input !== undefined && output !== undefined ? { input, output } : undefined
+    };
+  });
+}
+
+// Every current Claude model reads images; none has a JSON mode
+async function listAnthropic(baseURL: string, apiKey: string): Promise<ModelInfo[]> {
+  const data = await getJson('anthropic', `${baseURL}/v1/models?limit=100`, { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' });
+  const items: any[] = Array.isArray(data?.data) ? data.data : [];
+  return items.filter(item => typeof item?.id === 'string').map(item => ({
+    id: item.id,
+    provider: 'anthropic' as const,
+    vision: true,
+    jsonMode: false
+  }));
+}
+
+// The tag list has names only; /api/show tells whether a model has vision and its context length
+async function listOllama(baseURL: string): Promise<ModelInfo[]> {
+  const data = await getJson('ollama', `${baseURL}/api/tags`);
+  const names: string[] = (Array.isArray(data?.models) ? data.models : []).map((m: any) => m?.name).filter((n: unknown) => typeof n === 'string');
+  return Promise.all(names.map(async (name): Promise<ModelInfo> => {
+    try {
+      const info = await getJson('ollama', `${baseURL}/api/show`, { 'content-type': 'application/json' }, { method: 'POST', body: JSON.stringify({ model: name }) });
+      const capabilities: unknown = info?.capabilities;
+      const contextKey = Object.keys(info?.model_info || {}).find(key => key.endsWith('.context_length'));
+      return {
+        id: name,
+        provider: 'ollama',
+        vision: Array.isArray(capabilities) ? capabilities.includes('vision') : true,
+        jsonMode: true,
+        contextTokens: contextKey ? Number(info.model_info[contextKey]) || undefined : undefined
+      };
+    } catch {
+      return { id: name, provider: 'ollama', vision: true, jsonMode: true };
+    }
+  }));
+}
@@ -0,0 +1,90 @@
+import type { ModelInfo } from '../../shared/models';
+import { classifyError } from './errors';
+import { ChatRequest, ChatResponse, LLMProvider, pinnedModel, readLines, responseError, textOf, trimBaseURL } from './llmProvider';
+
+// Ollama's native chat API: images ride along as a base64 list per message and
+// `format: "json"` constrains the reply to JSON
+export class OllamaProvider implements LLMProvider {
+  readonly kind = 'ollama' as const;
+  private baseURL: string;
+  private model: string;
+  private models?: ModelInfo[];
+
+  constructor(baseURL: string, model: string, models?: ModelInfo[]) {
+    // Accept the OpenAI-compatible URL as well, the native API lives next to it
+    this.baseURL = trimBaseURL(baseURL, '/v1', '/api');
+    this.model = model;
+    this.models = models;
+  }
+
+  modelFor(request: ChatRequest): string {
+    return pinnedModel(this.kind, this.models, this.model, request);
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const res = await this.post(request, false);
+    const data: any = await res.json();
+    return {
+      content: data?.message?.content || '',
+      model: data?.model || this.modelFor(request),
+      usage: usageOf(data)
+    };
+  }
+
+  // Newline-delimited JSON: one object per piece of text, token counts on the last ("done") one
+  async chatStream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResponse> {
+    const res = await this.post(request, true);
+    let content = '';
+    let model = this.modelFor(request);
+    let usage: ChatResponse['usage'];
+    await readLines(res, (line) => {
+      let data: any;
+      try {
+        data = JSON.parse(line);
+      } catch {
+        return;
+      }
+      if (data?.error) throw classifyError(new Error(String(data.error)), this.kind);
+      const delta = data?.message?.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+      if (data?.model) model = data.model;
+      if (data?.done) usage = usageOf(data);
+    });
+    return { content, model, usage };
+  }
+
+  private async post(request: ChatRequest, stream: boolean): Promise<Response> {
+    const options: Record<string, number> = {};
+    if (request.temperature !== undefined) options.temperature = request.temperature;
+    if (request.maxTokens !== undefined) options.num_predict = request.maxTokens;
+
+    const res = await fetch(`${this.baseURL}/api/chat`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        model: this.modelFor(request),
+        stream,
+        ...(request.json ? { format: 'json' } : {}),
+        options,
+        messages: request.messages.map(message => {
+          const images = typeof message.content === 'string'
+            ? []
+            : message.content.flatMap(part => part.type === 'image' ? [part.data] : []);
+          return { role: message.role, content: textOf(message.content), ...(images.length > 0 ? { images } : {}) };
+        })
+      }),
+      signal: request.signal
+    });
+    if (!res.ok) throw await responseError(this.kind, res);
+    return res;
+  }
+}
+
+function usageOf(data: any): ChatResponse['usage'] {
+  return typeof data?.prompt_eval_count === 'number' || typeof data?.eval_count === 'number'
+    ? { inputTokens: data.prompt_eval_count || 0, outputTokens: data.eval_count || 0 }
+    : undefined;
+}
@@ -0,0 +1,82 @@
+import OpenAI from 'openai';
+import type { ModelInfo } from '../../shared/models';
+import type { ProviderKind } from '../../shared/providers';
+import { ChatMessage, ChatRequest, ChatResponse, LLMProvider, pinnedModel, textOf } from './llmProvider';
+
+// Chat Completions API: OpenRouter, OpenAI, and local servers that mimic it (llama.cpp's llama-server)
+export class OpenAIProvider implements LLMProvider {
+  readonly kind: ProviderKind;
+  private client: OpenAI;
+  private model?: string;
+  private models?: ModelInfo[];
+
+  constructor(kind: ProviderKind, apiKey: string, baseURL: string, model?: string, models?: ModelInfo[]) {
+    this.kind = kind;
+    // Retries are handled by the shared wrapper, so the SDK's own would only multiply them
+    this.client = new OpenAI({ apiKey, baseURL, maxRetries: 0 });
+    this.model = model;
+    this.models = models;
+  }
+
+  modelFor(request: ChatRequest): string {
+    return this.model ? pinnedModel(this.kind, this.models, this.model, request) : request.model;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const params = this.params(request);
+    const response = await this.client.chat.completions.create(params, { signal: request.signal });
+
+    return {
+      content: response.choices[0]?.message?.content || '',
+      model: response.model || params.model,
+      usage: response.usage ? { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens } : undefined
+    };
+  }
+
+  async chatStream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResponse> {
+    const params = this.params(request);
+    const stream = await this.client.chat.completions.create({
+      ...params,
+      stream: true,
+      // Usage only comes with the final chunk when asked for
+      stream_options: { include_usage: true }
+    }, { signal: request.signal });
+
+    let content = '';
+    let model = params.model;
+    let usage: ChatResponse['usage'];
+    for await (const chunk of stream) {
+      if (chunk.model) model = chunk.model;
+      if (chunk.usage) usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+    }
+    return { content, model, usage };
+  }
+
+  private params(request: ChatRequest): OpenAI.Chat.ChatCompletionCreateParamsNonStreaming {
+    return {
+      model: this.modelFor(request),
+      messages: request.messages.map(toOpenAIMessage),
+      ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.json ? { response_format: { type: 'json_object' as const } } : {})
+    };
+  }
+}
+
+// Images travel as data URLs; only user turns may carry them
+function toOpenAIMessage(message: ChatMessage): OpenAI.Chat.ChatCompletionMessageParam {
+  if (message.role !== 'user' || typeof message.content === 'string') {
+    return { role: message.role, content: textOf(message.content) };
+  }
+  return {
+    role: 'user',
+    content: message.content.map(part => part.type === 'text'
+      ? { type: 'text' as const, text: part.text }
+      : { type: 'image_url' as const, image_url: { url: `data:${part.mediaType};base64,${part.data}` } })
+  };
+}
@@ -0,0 +1,113 @@
+import { CancelledError, throwIfCancelled } from '../../shared/cancel';
+import { LLMError, classifyError } from './errors';
+import { ChatRequest, ChatResponse, LLMProvider } from './llmProvider';
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  // Longer waits (including a server's Retry-After) are not worth blocking the UI for
+  maxDelayMs: number;
+  // Retries allowed per window across all calls through one provider
+  budget: number;
+  budgetWindowMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 20000,
+  budget: 12,
+  budgetWindowMs: 60000
+};
+
+// Pro mode fires several calls at once; when all of them hit the same rate limit
+// their retries should not add up to a storm
+class RetryBudget {
+  private spent: number[] = [];
+
+  constructor(private size: number, private windowMs: number) {}
+
+  take(): boolean {
+    const now = Date.now();
+    this.spent = this.spent.filter(t => now - t < this.windowMs);
+    if (this.spent.length >= this.size) return false;
+    this.spent.push(now);
+    return true;
+  }
+}
+
+// Cut short by the request's signal, so a cancelled run does not sit out its backoff
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Exponential backoff with jitter for rate limits, server errors and network failures.
+// Every error leaving this wrapper is an LLMError with a user-facing message, or a CancelledError
+// once the request's signal is aborted (whatever the aborted call threw).
+export class RetryingProvider implements LLMProvider {
+  readonly kind: LLMProvider['kind'];
+  private inner: LLMProvider;
+  private options: RetryOptions;
+  private budget: RetryBudget;
+
+  constructor(inner: LLMProvider, options: RetryOptions = DEFAULT_RETRY_OPTIONS) {
+    this.kind = inner.kind;
+    this.inner = inner;
+    this.options = options;
+    this.budget = new RetryBudget(options.budget, options.budgetWindowMs);
+  }
+
+  modelFor(request: ChatRequest): string {
+    return this.inner.modelFor(request);
+  }
+
+  chat(request: ChatRequest): Promise<ChatResponse> {
+    return this.run(request, () => this.inner.chat(request));
+  }
+
+  // Once text has been shown a retry would repeat it, so only failures before the first delta are retried
+  chatStream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResponse> {
+    let started = false;
+    return this.run(request, () => this.inner.chatStream(request, (delta) => {
+      started = true;
+      onDelta(delta);
+    }), () => !started);
+  }
+
+  private async run(request: ChatRequest, call: () => Promise<ChatResponse>, canRetry: () => boolean = () => true): Promise<ChatResponse> {
+    for (let attempt = 1; ; attempt++) {
+      throwIfCancelled(request.signal);
+      try {
+        return await call();
+      } catch (error) {
+        throwIfCancelled(request.signal);
+        const err = classifyError(error, this.kind);
+        const delay = this.delayFor(err, attempt);
+        if (!err.retryable || attempt >= this.options.maxAttempts || delay === null || !canRetry() || !this.budget.take()) {
+          throw err.annotate(this.modelFor(request), attempt);
+        }
+        console.warn(`[LLM] ${err.kind}${err.status ? ` (${err.status})` : ''}: retrying in ${delay} ms (attempt ${attempt + 1}/${this.options.maxAttempts})`);
+        await sleep(delay, request.signal);
+      }
+    }
+  }
+
+  private delayFor(err: LLMError, attempt: number): number | null {
+    const { baseDelayMs, maxDelayMs } = this.options;
+    if (err.retryAfterMs !== undefined) {
+      return err.retryAfterMs > maxDelayMs ? null : err.retryAfterMs;
+    }
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+  }
+}
@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+// Local cache of model results for screenshots that were already processed. Entries are keyed by
+// the image bytes, the model, the prompt version and (where the prompt uses them) the languages, so
+// a changed prompt or a different model never serves a stale answer.
+
+export type CacheKind = 'screenshots' | 'extract' | 'classify';
+
+// use: read and write; refresh: skip the read but store the new result; off: neither
+export type CacheMode = 'use' | 'refresh' | 'off';
+
+export interface CacheKeyParts {
+  kind: CacheKind;
+  images: string[]; // hashImage() of every screenshot, in order
+  model: string;
+  promptVersion: string;
+  language?: string;
+  explanationLanguage?: string;
+}
+
+export interface ResponseCacheOptions {
+  enabled: boolean;
+  ttlMs: number;
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export const DEFAULT_RESPONSE_CACHE_OPTIONS: ResponseCacheOptions = {
+  enabled: true,
+  ttlMs: 7 * 24 * 60 * 60 * 1000,
+  maxEntries: 500,
+  maxBytes: 50 * 1024 * 1024
+};
+
+interface CacheEntry<T> {
+  createdAt: number;
+  key: CacheKeyParts;
+  value: T;
+}
+
+let cacheDir: string | null = null;
+let options: ResponseCacheOptions = DEFAULT_RESPONSE_CACHE_OPTIONS;
+
+export function configureResponseCache(dir: string, overrides: Partial<ResponseCacheOptions> = {}): void {
+  cacheDir = dir;
+  options = { ...DEFAULT_RESPONSE_CACHE_OPTIONS, ...overrides };
+}
+
+// Screenshots are hashed by their bytes: a file buffer, or the base64 / data URL preview of the same PNG
+export function hashImage(image: Buffer | string): string {
+  const bytes = typeof image === 'string' ? Buffer.from(image.replace(/^data:[^,]*,/, ''), 'base64') : image;
+  return crypto.createHash('sha256').update(bytes).digest('hex');
+}
+
+function keyOf(parts: CacheKeyParts): string {
+  return crypto.createHash('sha256').update(JSON.stringify([parts.kind, parts.images, parts.model, parts.promptVersion, parts.language || '', parts.explanationLanguage || ''])).digest('hex');
+}
+
+function entryPath(key: string): string {
+  return path.join(cacheDir!, `${key}.json`);
+}
+
+async function read<T>(key: string): Promise<CacheEntry<T> | null> {
+  try {
+    const entry = JSON.parse(await fs.readFile(entryPath(key), 'utf-8')) as CacheEntry<T>;
+    if (Date.now() - entry.createdAt > options.ttlMs) {
+      await fs.rm(entryPath(key), { force: true });
+      return null;
+    }
+    // Touch on hit so eviction drops the least recently used entries first
+    const now = new Date();
+    await fs.utimes(entryPath(key), now, now).catch(() => {});
+    return entry;
+  } catch {
+    return null;
+  }
+}
+
+async function write<T>(key: string, parts: CacheKeyParts, value: T): Promise<void> {
+  const entry: CacheEntry<T> = { createdAt: Date.now(), key: parts, value };
+  await fs.mkdir(cacheDir!, { recursive: true });
+  await fs.writeFile(entryPath(key), JSON.stringify(entry));
+  await evict();
+}
+
+// Expired entries go first, then the least recently used until both limits hold
+async function evict(): Promise<void> {
+  const names = (await fs.readdir(cacheDir!)).filter(name => name.endsWith('.json'));
+  const files = (await Promise.all(names.map(async name => {
+    try {
+      const stat = await fs.stat(path.join(cacheDir!, name));
+      return { name, size: stat.size, mtime: stat.mtimeMs, birth: stat.birthtimeMs || stat.ctimeMs };
+    } catch {
+      return null;
+    }
+  }))).filter((f): f is NonNullable<typeof f> => !!f);
+
+  const now = Date.now();
+  const keep = files.filter(f => now - f.birth <= options.ttlMs).sort((a, b) => b.mtime - a.mtime);
+  const drop = files.filter(f => now - f.birth > options.ttlMs);
+  let bytes = 0;
+  keep.forEach((f, index) => {
+    bytes += f.size;
+    if (index >= options.maxEntries || bytes > options.maxBytes) drop.push(f);
+  });
+  await Promise.all(drop.map(f => fs.rm(path.join(cacheDir!, f.name), { force: true })));
+}
+
+export async function clearResponseCache(): Promise<number> {
+  if (!cacheDir) return 0;
+  try {
+    const names = (await fs.readdir(cacheDir)).filter(name => name.endsWith('.json'));
+    await Promise.all(names.map(name => fs.rm(path.join(cacheDir!, name), { force: true })));
+    return names.length;
+  } catch {
+    return 0;
+  }
+}
+
+// Returns the cached value when there is one, otherwise computes and stores it.
+// Only values accepted by `storable` are written, so raw replies and fallbacks are never cached.
+export async function cached<T>(
+  parts: CacheKeyParts,
+  mode: CacheMode,
+  compute: () => Promise<T>,
+  storable: (value: T) => boolean = () => true
+): Promise<{ value: T; cachedAt?: number }> {
+  if (!cacheDir || !options.enabled || mode === 'off') {
+    return { value: await compute() };
+  }
+  const key = keyOf(parts);
+  if (mode === 'use') {
+    const hit = await read<T>(key);
+    if (hit) return { value: hit.value, cachedAt: hit.createdAt };
+  }
+  const value = await compute();
+  if (storable(value)) {
+    await write(key, parts, value).catch(error => console.error('Error writing response cache:', error));
+  }
+  return { value };
+}
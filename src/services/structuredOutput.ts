@@ -0,0 +1,68 @@
+import { Schema, SchemaIssue, SchemaResult, formatIssues, validateJson } from '../shared/schema';
+import { isCancelled } from '../shared/cancel';
+import { LocalizedError, Message, msg } from '../shared/i18n';
+import { ChatRequest, ChatResponse, LLMProvider } from './providers';
+
+// Replies that do not match their schema are sent back to the model together with the
+// validation errors, a bounded number of times, before the caller falls back or gives up.
+
+export const MAX_REPAIR_ROUNDS = 2;
+
+export interface StructuredReply<T> {
+  response: ChatResponse; // the last reply, repaired or not
+  result: SchemaResult<T>;
+  repairs: number; // repair requests made
+}
+
+// Thrown by callers that cannot use an invalid reply at all
+export class SchemaValidationError extends LocalizedError {
+  readonly issues: SchemaIssue[];
+  readonly content: string;
+
+  constructor(what: Message, issues: SchemaIssue[], content: string) {
+    super(msg('error.schema', { what, issues: formatIssues(issues) }));
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+    this.content = content;
+  }
+}
+
+function repairPrompt(issues: SchemaIssue[]): string {
+  return [
+    'Your reply does not match the required JSON format. Problems found (JSON paths start at $):',
+    formatIssues(issues),
+    '',
+    'Reply again with the complete corrected JSON object only. Keep everything that was already right; no markdown, no extra text.'
+  ].join('\n');
+}
+
+export async function repairReply<T>(
+  llm: LLMProvider,
+  request: ChatRequest,
+  response: ChatResponse,
+  schema: Schema<T>,
+  rounds: number = MAX_REPAIR_ROUNDS
+): Promise<StructuredReply<T>> {
+  let result = validateJson(schema, response.content);
+  let repairs = 0;
+  let messages = request.messages;
+  while (!result.ok && repairs < rounds) {
+    messages = [
+      ...messages,
+      { role: 'assistant', content: response.content },
+      { role: 'user', content: repairPrompt(result.issues) }
+    ];
+    repairs += 1;
+    console.warn(`[Schema] Reply for ${request.model} is off-shape, repair ${repairs}/${rounds}:\n${formatIssues(result.issues)}`);
+    try {
+      response = await llm.chat({ ...request, messages, temperature: 0 });
+    } catch (error) {
+      if (isCancelled(error)) throw error;
+      // The original reply is still worth showing; the caller decides what to do with it
+      console.error('[Schema] Repair request failed:', error);
+      break;
+    }
+    result = validateJson(schema, response.content);
+  }
+  return { response, result, repairs };
+}
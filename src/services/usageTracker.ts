@@ -0,0 +1,136 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { PROVIDER_DEFAULTS, ProviderKind } from '../shared/providers';
+import {
+  DEFAULT_PRICES,
+  DailyUsage,
+  PriceTable,
+  RunUsage,
+  UsageHistory,
+  UsageTotals,
+  UsageUpdate,
+  costOf,
+  emptyTotals,
+  findPrice
+} from '../shared/usage';
+import type { ChatUsage } from './providers';
+
+// Token and cost accounting for every model call. Calls made while a run is open (one press of
+// process) are added to that run; all calls count towards the day. History is kept in a JSON file.
+
+const MAX_DAYS = 90;
+const MAX_RUNS = 100;
+
+let historyFile: string | null = null;
+let prices: PriceTable = DEFAULT_PRICES;
+let history: UsageHistory = { days: [], runs: [] };
+let currentRun: RunUsage | null = null;
+let listener: ((update: UsageUpdate) => void) | null = null;
+let saving: Promise<void> = Promise.resolve();
+
+export async function configureUsageTracker(file: string, onUpdate: (update: UsageUpdate) => void): Promise<void> {
+  historyFile = file;
+  listener = onUpdate;
+  try {
+    const loaded = JSON.parse(await fs.readFile(file, 'utf-8'));
+    history = {
+      days: Array.isArray(loaded?.days) ? loaded.days : [],
+      runs: Array.isArray(loaded?.runs) ? loaded.runs : []
+    };
+  } catch {
+    history = { days: [], runs: [] };
+  }
+}
+
+// Configured prices override the defaults model by model
+export function setPriceTable(overrides: PriceTable = {}): void {
+  prices = { ...DEFAULT_PRICES, ...overrides };
+}
+
+function localDate(time: number): string {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function today(): DailyUsage {
+  const date = localDate(Date.now());
+  let day = history.days.find(d => d.date === date);
+  if (!day) {
+    day = { date, runs: 0, ...emptyTotals() };
+    history.days.unshift(day);
+    history.days = history.days.slice(0, MAX_DAYS);
+  }
+  return day;
+}
+
+function add(totals: UsageTotals, inputTokens: number, outputTokens: number, cost: number | undefined) {
+  totals.calls += 1;
+  totals.inputTokens += inputTokens;
+  totals.outputTokens += outputTokens;
+  if (cost === undefined) totals.unpricedCalls += 1;
+  else totals.cost += cost;
+}
+
+function save() {
+  if (!historyFile) return;
+  const file = historyFile;
+  const data = JSON.stringify(history);
+  // Chained so an older snapshot never overwrites a newer one
+  saving = saving
+    .then(() => fs.mkdir(path.dirname(file), { recursive: true }))
+    .then(() => fs.writeFile(file, data))
+    .catch(error => console.error('Error saving usage history:', error));
+}
+
+function notify(run: RunUsage | null = currentRun || history.runs[0] || null) {
+  listener?.({ run, today: history.days.find(d => d.date === localDate(Date.now())) || null });
+}
+
+// Local backends cost nothing; hosted calls without a price or without reported usage are counted as unpriced
+export function recordUsage(model: string, provider: ProviderKind, usage: ChatUsage | undefined): void {
+  const inputTokens = usage?.inputTokens || 0;
+  const outputTokens = usage?.outputTokens || 0;
+  const local = !PROVIDER_DEFAULTS[provider].requiresApiKey;
+  const price = local ? { input: 0, output: 0 } : usage ? findPrice(prices, model) : undefined;
+  const cost = price ? costOf(price, inputTokens, outputTokens) : undefined;
+
+  add(today(), inputTokens, outputTokens, cost);
+  if (currentRun) {
+    add(currentRun, inputTokens, outputTokens, cost);
+    const perModel = currentRun.byModel[model] || (currentRun.byModel[model] = emptyTotals());
+    add(perModel, inputTokens, outputTokens, cost);
+  }
+  save();
+  notify();
+}
+
+export function beginRun(mode: RunUsage['mode']): void {
+  currentRun = {
+    id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    mode,
+    startedAt: Date.now(),
+    byModel: {},
+    ...emptyTotals()
+  };
+  notify();
+}
+
+// Runs that made no call (e.g. every answer came from the cache) are not kept in the history
+export function endRun(): RunUsage | null {
+  const run = currentRun;
+  currentRun = null;
+  if (!run) return null;
+  run.finishedAt = Date.now();
+  if (run.calls > 0) {
+    today().runs += 1;
+    history.runs.unshift(run);
+    history.runs = history.runs.slice(0, MAX_RUNS);
+    save();
+  }
+  notify(run);
+  return run;
+}
+
+export function getUsageHistory(): UsageHistory {
+  return history;
+}
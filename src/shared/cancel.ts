@@ -0,0 +1,17 @@
+// Cancelling a run: one AbortSignal is passed to every model call and program run it makes.
+// Work stopped that way ends in a CancelledError, which callers pass on rather than report.
+
+export class CancelledError extends Error {
+  constructor(message: string = 'Cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+export function isCancelled(error: unknown): error is CancelledError {
+  return error instanceof CancelledError;
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new CancelledError();
+}
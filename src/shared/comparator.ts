@@ -0,0 +1,125 @@
+// Output comparison used for example verdicts, both in the renderer and in CodeAgent.
+
+export type CompareMode = 'exact' | 'tokens' | 'float' | 'unordered' | 'caseInsensitive' | 'special' | 'interactive';
+
+export interface CompareSpec {
+  mode: CompareMode;
+  // Absolute/relative tolerance for 'float'
+  epsilon?: number;
+  // Python checker for 'special' ("any valid answer"); reads {"input","expected","actual"} JSON
+  // from stdin and prints "AC" on the first line to accept
+  checker?: string;
+  // Python interactor for 'interactive': reads the test data from the file named by argv[1],
+  // talks to the solution over stdin/stdout and prints "AC" or "WA <reason>" as the last
+  // line of stderr (runners/interactive)
+  judge?: string;
+}
+
+export const COMPARE_MODES: CompareMode[] = ['exact', 'tokens', 'float', 'unordered', 'caseInsensitive', 'special', 'interactive'];
+
+export const DEFAULT_COMPARE: CompareSpec = { mode: 'tokens' };
+
+const DEFAULT_EPSILON = 1e-6;
+
+function toText(value: string | string[] | undefined): string {
+  const text = Array.isArray(value) ? value.join('\n') : (value || '');
+  return text.replace(/\r\n/g, '\n');
+}
+
+function tokens(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+function lines(text: string): string[] {
+  return text.split('\n').map(line => tokens(line).join(' ')).filter(Boolean);
+}
+
+function sameArray(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((v, i) => v === b[i]);
+}
+
+function floatEqual(a: string, b: string, epsilon: number): boolean {
+  if (a === b) return true;
+  const x = Number(a);
+  const y = Number(b);
+  if (!Number.isFinite(x) || !Number.isFinite(y)) return false;
+  const diff = Math.abs(x - y);
+  return diff <= epsilon || diff <= epsilon * Math.max(Math.abs(x), Math.abs(y));
+}
+
+// Harness output is JSON ("[0,1]") while statements often write "[0, 1]"; when both
+// sides parse as JSON they are compared structurally instead of textually
+function parseJson(text: string): { value: any } | null {
+  const t = text.trim();
+  if (!/^[\[{"]/.test(t)) return null;
+  try {
+    return { value: JSON.parse(t) };
+  } catch {
+    return null;
+  }
+}
+
+function deepEqual(a: any, b: any, leaf: (x: any, y: any) => boolean): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((v, i) => deepEqual(v, b[i], leaf));
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(k => k in b && deepEqual(a[k], b[k], leaf));
+  }
+  return leaf(a, b);
+}
+
+function jsonEqual(a: string, e: string, leaf: (x: any, y: any) => boolean = (x, y) => x === y): boolean {
+  const pa = parseJson(a);
+  const pe = parseJson(e);
+  return !!pa && !!pe && deepEqual(pa.value, pe.value, leaf);
+}
+
+// Validate a spec coming from model JSON or the UI; unknown modes are dropped
+export function normalizeCompareSpec(raw: any): CompareSpec | undefined {
+  if (!raw || typeof raw !== 'object' || !COMPARE_MODES.includes(raw.mode)) return undefined;
+  const spec: CompareSpec = { mode: raw.mode };
+  const epsilon = Number(raw.epsilon);
+  if (Number.isFinite(epsilon) && epsilon > 0) spec.epsilon = epsilon;
+  if (typeof raw.checker === 'string' && raw.checker.trim()) spec.checker = raw.checker;
+  if (typeof raw.judge === 'string' && raw.judge.trim()) spec.judge = raw.judge;
+  return spec;
+}
+
+// Synchronous verdict. 'special' needs the checker to run, so callers that can
+// execute it use judgeOutput (runners/checker); without a checker it falls back to tokens.
+// 'interactive' verdicts come from the judge (runners/interactive), never from here.
+export function compareOutput(actual: string | undefined, expected: string | string[] | undefined, spec: CompareSpec = DEFAULT_COMPARE): boolean {
+  const a = toText(actual);
+  const e = toText(expected);
+
+  switch (spec.mode) {
+    case 'exact':
+      return a.trim() === e.trim();
+    case 'float': {
+      const at = tokens(a);
+      const et = tokens(e);
+      const epsilon = spec.epsilon ?? DEFAULT_EPSILON;
+      if (at.length === et.length && at.every((t, i) => floatEqual(t, et[i], epsilon))) return true;
+      return jsonEqual(a, e, (x, y) => typeof x === 'number' && typeof y === 'number' ? floatEqual(String(x), String(y), epsilon) : x === y);
+    }
+    case 'unordered': {
+      const al = lines(a).sort();
+      const el = lines(e).sort();
+      if (sameArray(al, el)) return true;
+      // "Return the answer in any order": top-level array elements may be permuted
+      const pa = parseJson(a);
+      const pe = parseJson(e);
+      if (!pa || !pe || !Array.isArray(pa.value) || !Array.isArray(pe.value)) return false;
+      return sameArray(pa.value.map(v => JSON.stringify(v)).sort(), pe.value.map(v => JSON.stringify(v)).sort());
+    }
+    case 'caseInsensitive':
+      return sameArray(tokens(a.toLowerCase()), tokens(e.toLowerCase())) || jsonEqual(a.toLowerCase(), e.toLowerCase());
+    case 'tokens':
+    case 'special':
+    case 'interactive':
+    default:
+      return sameArray(tokens(a), tokens(e)) || jsonEqual(a, e);
+  }
+}
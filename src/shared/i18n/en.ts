@@ -0,0 +1,255 @@
+// English UI messages. Every other catalog must have the same keys (checked by the type).
+// {name} inserts a parameter; {count|one|other} picks a word by whether the parameter is 1.
+
+export const en = {
+  // Shortcut row
+  'shortcuts.model': 'Model:',
+  'shortcuts.pro': 'Pro:',
+  'shortcuts.on': 'On',
+  'shortcuts.off': 'Off',
+  'shortcuts.screenshot': 'Screenshot',
+  'shortcuts.solution': 'Solution',
+  'shortcuts.reset': 'Reset',
+  'shortcuts.switchModel': 'Switch Model',
+  'shortcuts.togglePro': 'Toggle Pro Mode',
+  'shortcuts.settings': 'Settings',
+  'shortcuts.quit': 'Quit',
+  'shortcuts.move': 'Move Around',
+  'shortcuts.page': 'Page',
+  'shortcuts.showHide': 'Show/Hide',
+
+  // Status row
+  'app.screenshotPreview': 'Screenshot preview',
+  'app.usage.thisRun': 'This run: {usage}',
+  'app.usage.lastRun': 'Last run: {usage}',
+  'app.usage.today': 'Today: {cost}',
+  'app.streaming': 'Streaming... ({count} {count|screenshot|screenshots})',
+  'app.processing': 'Processing... ({count} {count|screenshot|screenshots})',
+  'app.workflowRunning': 'Agent Workflow running...',
+  'app.cacheHit': 'Cached answer from {time} · no request sent · /process?fresh=1 asks again',
+  'app.pressProcess': 'Press ⌘/Ctrl + ↵ to process {count} {count|screenshot|screenshots}',
+  'app.pressScreenshot': 'Press ⌘/Ctrl + H to take a screenshot',
+  'app.saveFailed': 'Failed to save configuration',
+  'app.saveError': 'Error saving configuration',
+
+  // Results
+  'result.answer': 'Answer',
+  'result.approach': 'Approach',
+  'result.solution': 'Solution',
+  'result.streaming': ' (streaming...)',
+  'result.complexity': 'Complexity',
+  'result.time': 'Time: {value}',
+  'result.space': 'Space: {value}',
+  'result.raw': 'Raw Response',
+  'result.rawIssues': 'The reply did not match the expected format:',
+  'result.retryHint': '(Press fn + ↵ to retry)',
+  'result.none': '(none)',
+  'result.empty': '(empty)',
+  'result.pending': '(pending...)',
+  'result.noExchange': '(no exchange)',
+  'result.notRun': 'Not run: {error}',
+  'result.error': 'Error: {error}',
+  'tests.examples': 'Examples Test',
+  'tests.noChecker': ' (no checker, comparing tokens)',
+  'tests.noJudge': ' (no judge yet)',
+  'tests.custom': 'Custom Tests',
+  'tests.remove': 'remove',
+  'tests.inputPlaceholder': 'input',
+  'tests.expectedPlaceholder': 'expected output (optional)',
+  'tests.add': 'Add test',
+  'tests.loadFile': 'Load file',
+  'tests.fileEmpty': 'No test cases found in {file}',
+  'tests.fileError': 'Could not read {file}: {error}',
+  'tests.judgePlaceholder': 'Python judge: read the test data from sys.argv[1], talk to the solution over stdin/stdout (flush!), print "AC" or "WA <reason>" as the last line of stderr',
+  'tests.runWithJudge': 'Run with judge',
+  'stress.title': 'Stress Test',
+  'stress.after': ' after {count} random {count|case|cases}',
+  'stress.matched': ' - matched the brute force on {count} random cases',
+  'stress.skipped': ' ({count} skipped: brute force failed)',
+  'edgeCases.title': 'Edge Cases',
+  'buggy.title': 'Buggy Variant',
+  'buggy.pending': 'Generating buggy variant... (pending)',
+  'buggy.change': 'Change:',
+  'buggy.why': 'Why:',
+  'benchmark.unavailable': 'Benchmark not available: {error}',
+  'benchmark.measured': 'Measured: ~{value}',
+  'benchmark.warning': 'Claimed {claimed}, measured ~{measured}',
+
+  // Usage history
+  'usage.title': 'Usage',
+  'usage.empty': 'No model calls recorded yet',
+  'usage.day': 'Day',
+  'usage.runs': 'Runs',
+  'usage.calls': 'Calls',
+  'usage.input': 'Input',
+  'usage.output': 'Output',
+  'usage.cost': 'Cost',
+  'usage.recentRuns': 'Recent runs:',
+  'usage.callCount': '{count} {count|call|calls}',
+  'usage.unpriced': '+ some calls used models without a price; add them under prices in the configuration',
+
+  // Pro mode progress panel
+  'workflow.title': 'Agent Workflow Progress',
+  'workflow.currentStep': 'Current step:',
+  'workflow.cached': 'From cache:',
+  'workflow.cached.classify': 'classification',
+  'workflow.cached.extract': 'extraction',
+  'workflow.listSeparator': ', ',
+  'workflow.examples': 'Extracted examples:',
+  'workflow.exampleCount': '{count}',
+  'workflow.tasks': 'Parallel tasks:',
+  'workflow.candidate': 'Candidate {n}',
+  'workflow.task.pending': 'Waiting',
+  'workflow.task.running': 'Running',
+  'workflow.task.success': 'Done',
+  'workflow.task.failed': 'Failed',
+  'workflow.tests': 'Tests: {passed}/{total}',
+  'workflow.repairs': 'Automatic repairs:',
+  'workflow.repairAttempt': 'Repair {n}',
+  'workflow.repair.running': 'Repairing',
+  'workflow.repair.success': 'All passed',
+  'workflow.repair.failed': 'Not all passed',
+  'workflow.exampleN': 'Example {n}',
+  'workflow.error': 'Error: {message}',
+  'workflow.models': 'Models used:',
+
+  // Workflow roles, for the routing settings and the progress panel
+  'role.classify': 'Classify',
+  'role.extract': 'Extract',
+  'role.verify': 'Verify',
+  'role.code': 'Code',
+  'role.general': 'General',
+  'role.repair': 'Repair',
+  'role.stress': 'Stress test',
+  'role.edgeCases': 'Edge cases',
+  'role.benchmark': 'Benchmark',
+
+  // Pro mode steps, sent by the workflow as keys
+  'step.classify': 'Classifying the question...',
+  'step.extract': 'Extracting the problem...',
+  'step.verify': 'Verifying the extraction...',
+  'step.reextract': 'Extracting again...',
+  'step.generate': 'Generating solutions...',
+  'step.select': 'Choosing the best solution...',
+  'step.repair': 'Repairing the code...',
+  'step.stress': 'Stress testing...',
+  'step.edgeCases': 'Testing edge cases...',
+  'step.benchmark': 'Measuring complexity...',
+  'step.general': 'Processing in parallel...',
+  'step.done': 'Done',
+  'step.failed': 'Failed',
+  'detail.classify': 'Working out the question type',
+  'detail.extract': 'Extracting the problem text and examples from the screenshots',
+  'detail.verify': 'Verifying the extracted text (attempt {attempt})',
+  'detail.reextract': 'Attempt {attempt} failed, retrying',
+  'detail.generate': 'Found {examples} {examples|example|examples}, asking {models} models for solutions',
+  'detail.generateProgress': '{done}/{total} solutions finished',
+  'detail.select': 'Ranking by tests passed, then by order',
+  'detail.repair': 'Repair {attempt}: {failing} {failing|test|tests} failing',
+  'detail.repairDone': 'Repair {attempt} finished: {passed}/{total} tests passed',
+  'detail.stressGenerate': 'Generating a brute force solution and a random input generator',
+  'detail.stressRun': 'Comparing the solution with the brute force on small random inputs',
+  'detail.edgeGenerate': 'Generating edge cases from the constraints',
+  'detail.edgeRun': 'Running {count} edge {count|case|cases}',
+  'detail.benchmarkGenerate': 'Generating inputs of growing size',
+  'detail.benchmarkRun': 'Timing on inputs up to size {maxSize}',
+  'detail.general': 'Asking {models} models at once',
+  'detail.generalDone': 'General question processed',
+  'detail.done': 'Workflow finished, picked {reason}{stress}{edgeCases}',
+  'detail.stressCounterexample': '; stress test found a counterexample (case {cases})',
+  'detail.stressPassed': '; stress test passed {cases} random cases',
+  'detail.stressNotRun': '; stress test not finished: {error}',
+  'detail.edgeFlagged': '; {count} edge {count|case|cases} failed',
+  'detail.error': '{message}',
+  'reason.tests': 'solution {n}: {passed}/{total} tests passed',
+  'reason.first': 'solution {n}: ran successfully and came first',
+  'reason.repaired': '{reason}, {passed}/{total} tests passed after {repairs} {repairs|repair|repairs}',
+  'reason.allFailed': 'every solution failed, showing the error',
+
+  // Failures, sent by the workflow and the agents as keys
+  'error.workflow': 'The agent workflow failed',
+  'error.generate': 'Code generation failed',
+  'error.generateFailed': 'Code generation failed: {error}',
+  'error.allFailed': 'every solution failed',
+  'error.noSolution': 'The model returned no solution',
+  'error.solutionFormat': 'The solution is not in the expected format',
+  'error.repair': 'Repair failed',
+  'error.schema': '{what}:\n{issues}',
+  'error.extractEmpty': 'Nothing was extracted from the screenshots',
+  'error.extractFormat': 'The extracted problem is not in the expected format',
+  'error.extract': 'Extraction failed: {error}',
+  'error.extractVerify': 'The extracted text failed verification too many times',
+  'error.extractInvalid': 'No valid problem text could be extracted',
+  'error.unsupportedLanguage': 'Unsupported language',
+  'error.codeLoad': 'The code failed to load',
+  'error.runFailed': 'Run failed',
+  'error.solutionLoad': 'The solution failed to load: {error}',
+  'error.generatorLoad': 'The generator failed to load: {error}',
+  'error.generatorRun': 'The generator failed: {error}',
+  'error.bruteLoad': 'The brute force failed to load: {error}',
+  'error.stress': 'Stress test failed',
+  'error.stressEmpty': 'The model returned no stress test programs',
+  'error.stressFormat': 'The stress test programs are not valid JSON. Reply: {content}...',
+  'error.stressFields': 'The stress test programs lack the brute or generator field',
+  'error.edgeCases': 'Edge case test failed',
+  'error.edgeEmpty': 'The model returned no edge cases',
+  'error.edgeFormat': 'The edge cases are not valid JSON. Reply: {content}...',
+  'error.edgeFields': 'The edge cases lack the cases field',
+  'error.benchmark': 'Benchmark failed',
+  'error.benchmarkEmpty': 'The model returned no input generator',
+  'error.benchmarkFormat': 'The input generator is not valid JSON. Reply: {content}...',
+  'error.benchmarkFields': 'The input generator lacks the generator field',
+  'error.benchmarkPoints': 'Too few valid timings to fit a curve',
+
+  // Configuration
+  'config.title': 'Configuration',
+  'config.provider': 'Provider',
+  'config.apiKey': 'API Key',
+  'config.optional': ' (optional)',
+  'config.show': 'Show',
+  'config.hide': 'Hide',
+  'config.baseURL': 'Base URL',
+  'config.model': 'Model',
+  'config.modelDefault': 'default',
+  'config.language': 'Preferred Language',
+  'config.explanationLanguage': 'Explanation Language',
+  'config.uiLanguage': 'Interface Language',
+  'config.uiLanguageSystem': 'System default',
+  'config.timeout': 'Run Timeout (s)',
+  'config.cpu': 'CPU Limit (s)',
+  'config.memory': 'Memory Limit (MB)',
+  'config.poolSize': 'Parallel Runs',
+  'config.poolSizeAuto': 'auto',
+  'config.benchmark': 'Benchmark complexity in pro mode (slower)',
+  'config.models': 'Models',
+  'config.models.hint': 'fn + 1/2/3/4 switch between these models in this order. Screenshots are never sent to a model without vision. Prices are USD per 1M tokens.',
+  'config.models.id': 'Model',
+  'config.models.vision': 'Vision',
+  'config.models.json': 'JSON',
+  'config.models.context': 'Context',
+  'config.models.input': '$ in',
+  'config.models.output': '$ out',
+  'config.models.remove': 'Remove',
+  'config.models.add': 'Add model',
+  'config.models.fetch': 'Fetch from endpoint',
+  'config.models.fetching': 'Fetching...',
+  'config.models.pick': 'Add a listed model ({count})',
+  'config.models.fetchError': 'Could not list models: {error}',
+  'config.routing': 'Pro Mode Models',
+  'config.routing.model': 'Model',
+  'config.routing.temperature': 'Temp.',
+  'config.routing.maxTokens': 'Max tokens',
+  'config.routing.hint': 'The model and parameters for each step of pro mode; empty fields use the default shown. Code and General ask for three candidates each. Anthropic and local backends use their configured model for steps set to a model that is not theirs.',
+  'config.cache': 'Reuse answers for screenshots already processed',
+  'config.cacheTtl': 'Keep For (h)',
+  'config.cacheSize': 'Cache Size (MB)',
+  'config.sandbox': 'Sandbox Python runs',
+  'config.allowNetwork': 'Allow network',
+  'config.allowSubprocess': 'Allow subprocesses',
+  'config.allowFilesystem': 'Allow files outside the run directory',
+  'config.wrapper': 'Isolation wrapper (Linux)',
+  'config.wrapper.none': 'None',
+  'config.wrapper.unshare': 'unshare (network namespace)',
+  'config.wrapper.bwrap': 'bubblewrap (read-only root)',
+  'config.save': 'Save Configuration'
+};
@@ -0,0 +1,99 @@
+import { en } from './en';
+import { zhCN } from './zh-CN';
+
+// UI messages for the renderer. The main process never formats UI text itself: it sends
+// Message objects (a key plus parameters) that the renderer translates in the current locale.
+
+export type Locale = 'en' | 'zh-CN';
+
+export const LOCALES: Locale[] = ['en', 'zh-CN'];
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  'en': 'English',
+  'zh-CN': '简体中文'
+};
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export type MessageKey = keyof typeof en;
+
+// A parameter can itself be a message, e.g. the reason inside "Workflow finished, picked {reason}"
+export type MessageParam = string | number | Message;
+export type MessageParams = Record<string, MessageParam>;
+
+export interface Message {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = {
+  'en': en,
+  'zh-CN': zhCN
+};
+
+export function msg(key: MessageKey, params?: MessageParams): Message {
+  return params ? { key, params } : { key };
+}
+
+// The configured locale, or the system one when unset ("zh-TW" and other Chinese variants get zh-CN)
+export function resolveLocale(setting?: string, system?: string): Locale {
+  if (setting && (LOCALES as string[]).includes(setting)) return setting as Locale;
+  return system && system.toLowerCase().startsWith('zh') ? 'zh-CN' : DEFAULT_LOCALE;
+}
+
+// Shown text that is either free (program output, provider errors) or a message to translate
+export type MessageText = string | Message;
+
+export function isMessage(value: unknown): value is Message {
+  return !!value && typeof value === 'object' && typeof (value as Message).key === 'string';
+}
+
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  // Unknown keys (e.g. from a newer main process) show as themselves rather than blank
+  const template = CATALOGS[locale][key] ?? en[key] ?? key;
+  const value = (name: string) => {
+    const param = params[name];
+    return isMessage(param) ? translate(locale, param.key, param.params) : param;
+  };
+  return template
+    .replace(/\{(\w+)\|([^|}]*)\|([^}]*)\}/g, (_, name: string, one: string, other: string) => Number(value(name)) === 1 ? one : other)
+    .replace(/\{(\w+)\}/g, (tag, name: string) => name in params ? String(value(name)) : tag);
+}
+
+export type Translator = {
+  (key: MessageKey, params?: MessageParams): string;
+  (message: Message): string;
+};
+
+export function createTranslator(locale: Locale): Translator {
+  return ((keyOrMessage: MessageKey | Message, params?: MessageParams) => isMessage(keyOrMessage)
+    ? translate(locale, keyOrMessage.key, keyOrMessage.params)
+    : translate(locale, keyOrMessage, params)) as Translator;
+}
+
+// Free text is shown as it is
+export function displayText(t: Translator, text: MessageText): string {
+  return typeof text === 'string' ? text : t(text);
+}
+
+// For logs and model prompts, which are in English whatever the UI language
+export function englishText(text: MessageText): string {
+  return typeof text === 'string' ? text : translate(DEFAULT_LOCALE, text.key, text.params);
+}
+
+// A failure whose text is a message; `message` carries the English text for logs
+export class LocalizedError extends Error {
+  readonly text: Message;
+
+  constructor(text: Message) {
+    super(englishText(text));
+    this.name = 'LocalizedError';
+    this.text = text;
+  }
+}
+
+// What to show for a caught error: its own text, or the fallback when it has none
+export function errorText(error: any, fallback: MessageText): MessageText {
+  if (isMessage(error?.text)) return error.text;
+  return error?.message || fallback;
+}
@@ -0,0 +1,256 @@
+import type { MessageKey } from './index';
+
+// 简体中文界面文案，键与英文目录一致
+
+export const zhCN: Record<MessageKey, string> = {
+  // 快捷键栏
+  'shortcuts.model': '模型:',
+  'shortcuts.pro': 'Pro:',
+  'shortcuts.on': '开',
+  'shortcuts.off': '关',
+  'shortcuts.screenshot': '截图',
+  'shortcuts.solution': '解题',
+  'shortcuts.reset': '重置',
+  'shortcuts.switchModel': '切换模型',
+  'shortcuts.togglePro': '切换 Pro 模式',
+  'shortcuts.settings': '设置',
+  'shortcuts.quit': '退出',
+  'shortcuts.move': '移动窗口',
+  'shortcuts.page': '翻页',
+  'shortcuts.showHide': '显示/隐藏',
+
+  // 状态栏
+  'app.screenshotPreview': '截图预览',
+  'app.usage.thisRun': '本次: {usage}',
+  'app.usage.lastRun': '上次: {usage}',
+  'app.usage.today': '今日: {cost}',
+  'app.streaming': '接收中...（{count} 张截图）',
+  'app.processing': '处理中...（{count} 张截图）',
+  'app.workflowRunning': 'Agent Workflow 运行中...',
+  'app.cacheHit': '缓存的答案，生成于 {time} · 未发送请求 · /process?fresh=1 可重新请求',
+  'app.pressProcess': '按 ⌘/Ctrl + ↵ 处理 {count} 张截图',
+  'app.pressScreenshot': '按 ⌘/Ctrl + H 截图',
+  'app.saveFailed': '保存配置失败',
+  'app.saveError': '保存配置出错',
+
+  // 结果
+  'result.answer': '答案',
+  'result.approach': '思路',
+  'result.solution': '代码',
+  'result.streaming': '（接收中...）',
+  'result.complexity': '复杂度',
+  'result.time': '时间: {value}',
+  'result.space': '空间: {value}',
+  'result.raw': '原始回复',
+  'result.rawIssues': '回复不符合预期格式:',
+  'result.retryHint': '（按 fn + ↵ 重试）',
+  'result.none': '（无）',
+  'result.empty': '（空）',
+  'result.pending': '（等待中...）',
+  'result.noExchange': '（没有交互）',
+  'result.notRun': '未运行: {error}',
+  'result.error': '错误: {error}',
+  'tests.examples': '例子测试',
+  'tests.noChecker': '（没有校验程序，按词比较）',
+  'tests.noJudge': '（还没有评测程序）',
+  'tests.custom': '自定义测试',
+  'tests.remove': '删除',
+  'tests.inputPlaceholder': '输入',
+  'tests.expectedPlaceholder': '期望输出（可选）',
+  'tests.add': '添加测试',
+  'tests.loadFile': '从文件加载',
+  'tests.fileEmpty': '{file} 中没有测试用例',
+  'tests.fileError': '无法读取 {file}: {error}',
+  'tests.judgePlaceholder': 'Python 评测程序：从 sys.argv[1] 读取测试数据，通过 stdin/stdout 与解法交互（记得 flush），在 stderr 最后一行打印 "AC" 或 "WA 原因"',
+  'tests.runWithJudge': '用评测程序运行',
+  'stress.title': '对拍',
+  'stress.after': '（第 {count} 组随机数据）',
+  'stress.matched': ' - 在 {count} 组随机数据上与暴力解一致',
+  'stress.skipped': '（跳过 {count} 组：暴力解失败）',
+  'edgeCases.title': '边界用例',
+  'buggy.title': '错误版本',
+  'buggy.pending': '正在生成错误版本...',
+  'buggy.change': '改动:',
+  'buggy.why': '原因:',
+  'benchmark.unavailable': '无法实测复杂度: {error}',
+  'benchmark.measured': '实测: ~{value}',
+  'benchmark.warning': '声称 {claimed}，实测约 {measured}',
+
+  // 用量记录
+  'usage.title': '用量',
+  'usage.empty': '还没有模型调用记录',
+  'usage.day': '日期',
+  'usage.runs': '运行',
+  'usage.calls': '调用',
+  'usage.input': '输入',
+  'usage.output': '输出',
+  'usage.cost': '费用',
+  'usage.recentRuns': '最近的运行:',
+  'usage.callCount': '{count} 次调用',
+  'usage.unpriced': '+ 部分调用的模型没有价格，可在配置的模型价格中添加',
+
+  // Pro模式进度面板
+  'workflow.title': 'Agent Workflow 进度',
+  'workflow.currentStep': '当前步骤:',
+  'workflow.cached': '使用缓存:',
+  'workflow.cached.classify': '问题分类',
+  'workflow.cached.extract': '文本提取',
+  'workflow.listSeparator': '、',
+  'workflow.examples': '提取的测试例子:',
+  'workflow.exampleCount': '{count} 个',
+  'workflow.tasks': '并行任务状态:',
+  'workflow.candidate': '模型 {n}',
+  'workflow.task.pending': '等待中',
+  'workflow.task.running': '运行中',
+  'workflow.task.success': '成功',
+  'workflow.task.failed': '失败',
+  'workflow.tests': '测试: {passed}/{total}',
+  'workflow.repairs': '自动修复记录:',
+  'workflow.repairAttempt': '第 {n} 次修复',
+  'workflow.repair.running': '修复中',
+  'workflow.repair.success': '全部通过',
+  'workflow.repair.failed': '未全部通过',
+  'workflow.exampleN': '例子 {n}',
+  'workflow.error': '错误: {message}',
+  'workflow.models': '使用的模型:',
+
+  // 工作流角色，用于路由配置和进度面板
+  'role.classify': '分类',
+  'role.extract': '提取',
+  'role.verify': '验证',
+  'role.code': '代码',
+  'role.general': '普通问题',
+  'role.repair': '修复',
+  'role.stress': '对拍',
+  'role.edgeCases': '边界用例',
+  'role.benchmark': '复杂度实测',
+
+  // Pro模式步骤
+  'step.classify': '问题分类中...',
+  'step.extract': '文本提取中...',
+  'step.verify': '验证提取结果...',
+  'step.reextract': '重新提取文本...',
+  'step.generate': '生成代码解决方案...',
+  'step.select': '选择最佳解决方案...',
+  'step.repair': '修复代码中...',
+  'step.stress': '对拍测试中...',
+  'step.edgeCases': '边界用例测试中...',
+  'step.benchmark': '复杂度实测中...',
+  'step.general': '并发处理中...',
+  'step.done': '完成',
+  'step.failed': '失败',
+  'detail.classify': '正在分析问题类型',
+  'detail.extract': '从图片中提取题目文本和例子',
+  'detail.verify': '第{attempt}次验证提取的文本内容',
+  'detail.reextract': '第{attempt}次提取失败，正在重试',
+  'detail.generate': '提取到{examples}个测试例子，并发调用{models}个模型生成解决方案',
+  'detail.generateProgress': '{done}/{total} 个解决方案已完成',
+  'detail.select': '根据测试通过数和优先级选择结果',
+  'detail.repair': '第{attempt}次修复：{failing}个测试未通过',
+  'detail.repairDone': '第{attempt}次修复完成：通过{passed}/{total}个测试',
+  'detail.stressGenerate': '生成暴力解和随机数据生成器',
+  'detail.stressRun': '在随机小数据上比较解法和暴力解',
+  'detail.edgeGenerate': '根据约束条件生成边界用例',
+  'detail.edgeRun': '运行{count}个边界用例',
+  'detail.benchmarkGenerate': '生成不同规模的测试数据',
+  'detail.benchmarkRun': '在规模不超过{maxSize}的数据上计时',
+  'detail.general': '同时调用{models}个模型处理普通问题',
+  'detail.generalDone': '普通问题处理完成',
+  'detail.done': '工作流执行完成，选择了{reason}{stress}{edgeCases}',
+  'detail.stressCounterexample': '；对拍发现反例（第{cases}组）',
+  'detail.stressPassed': '；对拍通过{cases}组随机数据',
+  'detail.stressNotRun': '；对拍未完成：{error}',
+  'detail.edgeFlagged': '；{count}个边界用例出现问题',
+  'detail.error': '{message}',
+  'reason.tests': '第{n}个解决方案：通过{passed}/{total}个测试',
+  'reason.first': '第{n}个解决方案：执行成功且ID最靠前',
+  'reason.repaired': '{reason}，经{repairs}次修复后通过{passed}/{total}个测试',
+  'reason.allFailed': '所有解决方案都失败，返回错误信息',
+
+  // 失败原因
+  'error.workflow': 'Agent Workflow执行失败',
+  'error.generate': '代码生成失败',
+  'error.generateFailed': '代码生成失败: {error}',
+  'error.allFailed': '所有解决方案都失败',
+  'error.noSolution': '未能生成解决方案',
+  'error.solutionFormat': '生成内容格式错误',
+  'error.repair': '修复失败',
+  'error.schema': '{what}:\n{issues}',
+  'error.extractEmpty': '未能提取到题目内容',
+  'error.extractFormat': '提取内容格式错误',
+  'error.extract': '文本提取失败: {error}',
+  'error.extractVerify': '文本提取验证失败，已达到最大重试次数',
+  'error.extractInvalid': '无法提取有效的问题文本',
+  'error.unsupportedLanguage': '不支持的语言',
+  'error.codeLoad': '代码加载失败',
+  'error.runFailed': '运行失败',
+  'error.solutionLoad': '解法加载失败: {error}',
+  'error.generatorLoad': '生成器加载失败: {error}',
+  'error.generatorRun': '生成器运行失败: {error}',
+  'error.bruteLoad': '暴力解加载失败: {error}',
+  'error.stress': '对拍失败',
+  'error.stressEmpty': '未能生成对拍程序',
+  'error.stressFormat': '对拍程序格式错误，无法解析JSON。原始内容: {content}...',
+  'error.stressFields': '对拍程序缺少brute或generator字段',
+  'error.edgeCases': '边界用例测试失败',
+  'error.edgeEmpty': '未能生成边界用例',
+  'error.edgeFormat': '边界用例格式错误，无法解析JSON。原始内容: {content}...',
+  'error.edgeFields': '边界用例缺少cases字段',
+  'error.benchmark': '复杂度实测失败',
+  'error.benchmarkEmpty': '未能生成性能测试数据生成器',
+  'error.benchmarkFormat': '数据生成器格式错误，无法解析JSON。原始内容: {content}...',
+  'error.benchmarkFields': '数据生成器缺少generator字段',
+  'error.benchmarkPoints': '有效的计时点不足，无法拟合',
+
+  // 配置
+  'config.title': '配置',
+  'config.provider': '服务商',
+  'config.apiKey': 'API Key',
+  'config.optional': '（可选）',
+  'config.show': '显示',
+  'config.hide': '隐藏',
+  'config.baseURL': 'Base URL',
+  'config.model': '模型',
+  'config.modelDefault': '默认',
+  'config.language': '编程语言',
+  'config.explanationLanguage': '讲解语言',
+  'config.uiLanguage': '界面语言',
+  'config.uiLanguageSystem': '跟随系统',
+  'config.timeout': '运行超时（秒）',
+  'config.cpu': 'CPU 限制（秒）',
+  'config.memory': '内存限制（MB）',
+  'config.poolSize': '并行运行数',
+  'config.poolSizeAuto': '自动',
+  'config.benchmark': 'Pro 模式下实测复杂度（较慢）',
+  'config.models': '模型列表',
+  'config.models.hint': 'fn + 1/2/3/4 按此顺序切换模型。截图不会发送给不支持识图的模型。价格单位为美元 / 百万 tokens。',
+  'config.models.id': '模型',
+  'config.models.vision': '识图',
+  'config.models.json': 'JSON',
+  'config.models.context': '上下文',
+  'config.models.input': '输入 $',
+  'config.models.output': '输出 $',
+  'config.models.remove': '删除',
+  'config.models.add': '添加模型',
+  'config.models.fetch': '从接口获取',
+  'config.models.fetching': '获取中...',
+  'config.models.pick': '添加列出的模型（{count} 个）',
+  'config.models.fetchError': '无法获取模型列表: {error}',
+  'config.routing': 'Pro 模式模型',
+  'config.routing.model': '模型',
+  'config.routing.temperature': '温度',
+  'config.routing.maxTokens': '最大 tokens',
+  'config.routing.hint': 'Pro 模式每个步骤使用的模型和参数，留空则使用显示的默认值。代码和普通问题各生成三个候选。Anthropic 和本地后端遇到不属于自己的模型时，使用配置的模型。',
+  'config.cache': '复用已处理过的截图的答案',
+  'config.cacheTtl': '保留时长（小时）',
+  'config.cacheSize': '缓存大小（MB）',
+  'config.sandbox': '在沙箱中运行 Python',
+  'config.allowNetwork': '允许联网',
+  'config.allowSubprocess': '允许子进程',
+  'config.allowFilesystem': '允许访问运行目录以外的文件',
+  'config.wrapper': '隔离方式（Linux）',
+  'config.wrapper.none': '无',
+  'config.wrapper.unshare': 'unshare（网络命名空间）',
+  'config.wrapper.bwrap': 'bubblewrap（只读根目录）',
+  'config.save': '保存配置'
+};
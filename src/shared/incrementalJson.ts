@@ -0,0 +1,166 @@
+// Parses a JSON document while it streams in and exposes the partial value after every chunk:
+// strings show whatever has arrived so far, numbers and literals appear once they are complete.
+// Text before the first '{' or '[' (a markdown fence, a sentence of preamble) is skipped,
+// and so is everything after the root value closes.
+
+type Container =
+  | { kind: 'object'; value: Record<string, unknown>; key?: string; expect: 'key' | 'colon' | 'value' | 'comma' }
+  | { kind: 'array'; value: unknown[]; expect: 'value' | 'comma' };
+
+interface OpenString {
+  isKey: boolean;
+  text: string;
+  // null outside an escape, '' right after a backslash, 'u' plus hex digits inside \uXXXX
+  escape: string | null;
+  target?: { holder: Record<string, unknown> | unknown[]; key: string | number };
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+export class IncrementalJsonParser {
+  private stack: Container[] = [];
+  private root: unknown = undefined;
+  private str: OpenString | null = null;
+  private literal: string | null = null;
+  private finished = false;
+
+  get value(): unknown {
+    return this.root;
+  }
+
+  get done(): boolean {
+    return this.finished;
+  }
+
+  push(chunk: string): void {
+    for (const ch of chunk) {
+      if (this.finished) break;
+      this.step(ch);
+    }
+    this.syncString();
+  }
+
+  private step(ch: string) {
+    if (this.str) {
+      this.stringChar(ch);
+      return;
+    }
+    if (this.literal !== null) {
+      if (/[0-9a-zA-Z.+\-]/.test(ch)) {
+        this.literal += ch;
+        return;
+      }
+      this.addValue(parseLiteral(this.literal));
+      this.literal = null;
+    }
+
+    const top = this.stack[this.stack.length - 1];
+    if (!top) {
+      if (ch === '{' || ch === '[') this.open(ch);
+      return;
+    }
+    if (/\s/.test(ch)) return;
+
+    switch (ch) {
+      case '{':
+      case '[':
+        this.open(ch);
+        return;
+      case '}':
+      case ']':
+        this.stack.pop();
+        if (this.stack.length === 0) this.finished = true;
+        return;
+      case ':':
+        if (top.kind === 'object') top.expect = 'value';
+        return;
+      case ',':
+        top.expect = top.kind === 'object' ? 'key' : 'value';
+        return;
+      case '"':
+        if (top.kind === 'object' && top.expect === 'key') {
+          this.str = { isKey: true, text: '', escape: null };
+        } else {
+          this.str = { isKey: false, text: '', escape: null, target: this.addValue('') };
+        }
+        return;
+      default:
+        this.literal = ch;
+    }
+  }
+
+  private stringChar(ch: string) {
+    const s = this.str!;
+    if (s.escape === null) {
+      if (ch === '\\') s.escape = '';
+      else if (ch === '"') this.closeString();
+      else s.text += ch;
+      return;
+    }
+    if (s.escape === '') {
+      if (ch === 'u') {
+        s.escape = 'u';
+      } else {
+        s.text += ESCAPES[ch] ?? ch;
+        s.escape = null;
+      }
+      return;
+    }
+    s.escape += ch;
+    if (s.escape.length === 5) {
+      s.text += String.fromCharCode(parseInt(s.escape.slice(1), 16) || 0);
+      s.escape = null;
+    }
+  }
+
+  private closeString() {
+    const s = this.str!;
+    this.syncString();
+    this.str = null;
+    const top = this.stack[this.stack.length - 1];
+    if (s.isKey && top?.kind === 'object') {
+      top.key = s.text;
+      top.expect = 'colon';
+    }
+  }
+
+  // Strings in progress are written into their parent so the partial value shows them
+  private syncString() {
+    const s = this.str;
+    if (s?.target) (s.target.holder as any)[s.target.key] = s.text;
+  }
+
+  private open(ch: string) {
+    const container: Container = ch === '{'
+      ? { kind: 'object', value: {}, expect: 'key' }
+      : { kind: 'array', value: [], expect: 'value' };
+    if (this.stack.length === 0) {
+      this.root = container.value;
+    } else {
+      this.addValue(container.value);
+    }
+    this.stack.push(container);
+  }
+
+  private addValue(value: unknown): OpenString['target'] {
+    const top = this.stack[this.stack.length - 1];
+    if (!top) return undefined;
+    top.expect = 'comma';
+    if (top.kind === 'array') {
+      top.value.push(value);
+      return { holder: top.value, key: top.value.length - 1 };
+    }
+    const key = top.key ?? '';
+    top.value[key] = value;
+    top.key = undefined;
+    return { holder: top.value, key };
+  }
+}
+
+function parseLiteral(text: string): unknown {
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (text === 'null') return null;
+  const n = Number(text);
+  return Number.isNaN(n) ? text : n;
+}
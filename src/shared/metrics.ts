@@ -0,0 +1,33 @@
+// Runtime measurements of a single run, and how they are summarized and shown in the UI.
+
+export interface RunMetrics {
+  wallMs: number;
+  cpuMs?: number;
+  // Peak resident set size of the run; missing when the platform cannot tell
+  peakRssKb?: number;
+}
+
+// Per-candidate totals: time adds up over the examples, memory is the largest peak
+export function summarizeMetrics(list: Array<RunMetrics | undefined>): RunMetrics | undefined {
+  const measured = list.filter((m): m is RunMetrics => !!m);
+  if (measured.length === 0) return undefined;
+  const cpu = measured.filter(m => typeof m.cpuMs === 'number');
+  const rss = measured.filter(m => typeof m.peakRssKb === 'number');
+  return {
+    wallMs: measured.reduce((acc, m) => acc + m.wallMs, 0),
+    cpuMs: cpu.length > 0 ? cpu.reduce((acc, m) => acc + m.cpuMs!, 0) : undefined,
+    peakRssKb: rss.length > 0 ? Math.max(...rss.map(m => m.peakRssKb!)) : undefined
+  };
+}
+
+function formatMs(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(2)} s` : `${ms < 10 ? ms.toFixed(1) : Math.round(ms)} ms`;
+}
+
+export function formatMetrics(metrics?: RunMetrics): string {
+  if (!metrics) return '';
+  const parts = [`wall ${formatMs(metrics.wallMs)}`];
+  if (typeof metrics.cpuMs === 'number') parts.push(`cpu ${formatMs(metrics.cpuMs)}`);
+  if (typeof metrics.peakRssKb === 'number') parts.push(`mem ${(metrics.peakRssKb / 1024).toFixed(1)} MB`);
+  return parts.join(' · ');
+}
@@ -0,0 +1,68 @@
+// The model registry: what each model can take and what it costs. Kept in the config, shared by
+// the main process (switching, capability checks, prices) and the config screen (editing).
+
+import { PROVIDER_KINDS, ProviderKind } from './providers';
+import type { ModelPrice, PriceTable } from './usage';
+
+export interface ModelInfo {
+  id: string; // as sent to the provider
+  provider: ProviderKind;
+  vision: boolean; // accepts images; screenshots are never sent to a model without it
+  jsonMode: boolean; // native JSON replies; without it JSON is asked for in the prompt
+  contextTokens?: number;
+  price?: ModelPrice; // USD per million tokens
+}
+
+// The switchable models of the default OpenRouter setup come first, in fn + 1/2/3/4 order
+export const DEFAULT_MODELS: ModelInfo[] = [
+  { id: 'openai/gpt-5-chat', provider: 'openai', vision: true, jsonMode: true, contextTokens: 128000, price: { input: 1.25, output: 10 } },
+  { id: 'openai/o4-mini', provider: 'openai', vision: true, jsonMode: true, contextTokens: 200000, price: { input: 1.1, output: 4.4 } },
+  { id: 'openai/o4-mini-high', provider: 'openai', vision: true, jsonMode: true, contextTokens: 200000, price: { input: 1.1, output: 4.4 } },
+  { id: 'openai/o3', provider: 'openai', vision: true, jsonMode: true, contextTokens: 200000, price: { input: 2, output: 8 } },
+  { id: 'openai/gpt-4o', provider: 'openai', vision: true, jsonMode: true, contextTokens: 128000, price: { input: 2.5, output: 10 } },
+  { id: 'claude-sonnet-4-5', provider: 'anthropic', vision: true, jsonMode: false, contextTokens: 200000, price: { input: 3, output: 15 } },
+  { id: 'llama3.2-vision', provider: 'ollama', vision: true, jsonMode: true, contextTokens: 128000 }
+];
+
+const bareId = (id: string) => id.replace(/^[^/]+\//, '');
+
+// Exact id on the given backend first, then the id without its vendor prefix ("openai/gpt-4o" matches "gpt-4o")
+export function findModel(models: ModelInfo[], id: string, provider?: ProviderKind): ModelInfo | undefined {
+  const candidates = provider ? models.filter(m => m.provider === provider) : models;
+  return candidates.find(m => m.id === id) || candidates.find(m => bareId(m.id) === bareId(id));
+}
+
+export function pricesOf(models: ModelInfo[]): PriceTable {
+  return Object.fromEntries(models.filter(m => m.price).map(m => [m.id, m.price!]));
+}
+
+function positive(value: unknown): number | undefined {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+function nonNegative(value: unknown): number | undefined {
+  const n = Number(value);
+  return value !== undefined && value !== null && value !== '' && Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+// Entries from a hand-edited config file: unusable ones are dropped, missing flags default to capable
+export function normalizeModels(value: unknown): ModelInfo[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const models: ModelInfo[] = [];
+  for (const item of value) {
+    const id = typeof item?.id === 'string' ? item.id.trim() : '';
+    if (!id || !(PROVIDER_KINDS as unknown[]).includes(item.provider)) continue;
+    const input = nonNegative(item.price?.input);
+    const output = nonNegative(item.price?.output);
+    models.push({
+      id,
+      provider: item.provider,
+      vision: item.vision !== false,
+      jsonMode: item.jsonMode !== false,
+      contextTokens: positive(item.contextTokens),
+      price: input !== undefined && output !== undefined ? { input, output } : undefined
+    });
+  }
+  return models;
+}
@@ -0,0 +1,6 @@
+// Languages offered for explanations (approach, mistake notes), shared by the main process and
+// the config screen. The value is written into the prompts as is.
+
+export const EXPLANATION_LANGUAGES = ['Chinese', 'English', 'Japanese', 'Korean', 'Spanish', 'French', 'German', 'Portuguese', 'Russian'];
+
+export const DEFAULT_EXPLANATION_LANGUAGE = 'Chinese';
@@ -0,0 +1,26 @@
+// LLM backends selectable in the config, shared by the main process and the config screen.
+
+export type ProviderKind = 'openai' | 'anthropic' | 'ollama' | 'llamacpp';
+
+export interface ProviderDefaults {
+  label: string;
+  // How error messages refer to the backend
+  name: string;
+  baseURL: string;
+  // Empty: the request's own model id is used (OpenRouter and other OpenAI-compatible endpoints)
+  model: string;
+  requiresApiKey: boolean;
+}
+
+export const PROVIDER_DEFAULTS: Record<ProviderKind, ProviderDefaults> = {
+  openai: { label: 'OpenAI-compatible (OpenRouter, OpenAI, ...)', name: 'The API', baseURL: 'https://openrouter.ai/api/v1', model: '', requiresApiKey: true },
+  anthropic: { label: 'Anthropic', name: 'Anthropic', baseURL: 'https://api.anthropic.com', model: 'claude-sonnet-4-5', requiresApiKey: true },
+  ollama: { label: 'Ollama (local)', name: 'Ollama', baseURL: 'http://localhost:11434', model: 'llama3.2-vision', requiresApiKey: false },
+  llamacpp: { label: 'llama.cpp server (local)', name: 'The llama.cpp server', baseURL: 'http://localhost:8080/v1', model: '', requiresApiKey: false }
+};
+
+export const PROVIDER_KINDS = Object.keys(PROVIDER_DEFAULTS) as ProviderKind[];
+
+export function normalizeProviderKind(kind: unknown): ProviderKind {
+  return typeof kind === 'string' && (PROVIDER_KINDS as string[]).includes(kind) ? kind as ProviderKind : 'openai';
+}
@@ -0,0 +1,71 @@
+// Which model serves each step of the pro-mode workflow, and with which parameters. Kept in the
+// config and edited on the config screen; roles or fields left unset use the defaults below.
+
+export type WorkflowRole = 'classify' | 'extract' | 'verify' | 'code' | 'general' | 'repair' | 'stress' | 'edgeCases' | 'benchmark';
+
+// In workflow order, as listed on the config screen and the progress panel
+export const WORKFLOW_ROLES: WorkflowRole[] = ['classify', 'extract', 'verify', 'code', 'general', 'repair', 'stress', 'edgeCases', 'benchmark'];
+
+export interface Route {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export type RoutingTable = Partial<Record<WorkflowRole, Partial<Route>>>;
+
+// code and general are each asked for several candidates, all with their role's route
+export const DEFAULT_ROUTES: Record<WorkflowRole, Route> = {
+  classify: { model: 'openai/gpt-4o', temperature: 0, maxTokens: 10 },
+  extract: { model: 'openai/gpt-4o', temperature: 0, maxTokens: 2000 },
+  verify: { model: 'openai/gpt-4o', temperature: 0, maxTokens: 10 },
+  code: { model: 'openai/gpt-5-chat', temperature: 0.3, maxTokens: 4000 },
+  general: { model: 'openai/gpt-5-chat', temperature: 0.7, maxTokens: 2000 },
+  repair: { model: 'openai/gpt-5-chat', temperature: 0.2, maxTokens: 4000 },
+  // The programs the solution is tested with: brute force and input generator, edge cases, sized inputs
+  stress: { model: 'openai/gpt-5-chat', temperature: 0.2, maxTokens: 3000 },
+  edgeCases: { model: 'openai/gpt-5-chat', temperature: 0.2, maxTokens: 3000 },
+  benchmark: { model: 'openai/gpt-5-chat', temperature: 0.2, maxTokens: 2000 }
+};
+
+function modelOf(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function temperatureOf(value: unknown): number | undefined {
+  const n = Number(value);
+  return value !== undefined && value !== null && value !== '' && Number.isFinite(n) && n >= 0 && n <= 2 ? n : undefined;
+}
+
+function maxTokensOf(value: unknown): number | undefined {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+export function resolveRoute(table: RoutingTable | undefined, role: WorkflowRole): Route {
+  const entry = table?.[role];
+  const fallback = DEFAULT_ROUTES[role];
+  return {
+    model: modelOf(entry?.model) ?? fallback.model,
+    temperature: temperatureOf(entry?.temperature) ?? fallback.temperature,
+    maxTokens: maxTokensOf(entry?.maxTokens) ?? fallback.maxTokens
+  };
+}
+
+// Entries from a hand-edited config file: unknown roles and unusable fields are dropped
+export function normalizeRouting(value: unknown): RoutingTable | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const table: RoutingTable = {};
+  for (const role of WORKFLOW_ROLES) {
+    const entry = (value as Record<string, any>)[role];
+    const route: Partial<Route> = {
+      model: modelOf(entry?.model),
+      temperature: temperatureOf(entry?.temperature),
+      maxTokens: maxTokensOf(entry?.maxTokens)
+    };
+    if (route.model !== undefined || route.temperature !== undefined || route.maxTokens !== undefined) {
+      table[role] = route;
+    }
+  }
+  return Object.keys(table).length > 0 ? table : undefined;
+}
@@ -0,0 +1,198 @@
+// A small runtime validator for model JSON. Each schema checks a value and reports every mismatch
+// with its path (e.g. "$.examples[0].output"), so the model can be told exactly what to fix.
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export interface Schema<T> {
+  // Shown in messages, e.g. "string" or "one of: code, answer"
+  readonly description: string;
+  check(value: unknown, path: string, issues: SchemaIssue[]): T | undefined;
+}
+
+export type SchemaResult<T> = { ok: true; value: T } | { ok: false; issues: SchemaIssue[] };
+
+function typeName(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function mismatch(issues: SchemaIssue[], path: string, expected: string, value: unknown) {
+  issues.push({ path, message: value === undefined ? `required (${expected})` : `expected ${expected}, got ${typeName(value)}` });
+}
+
+export function string(options: { nonEmpty?: boolean } = {}): Schema<string> {
+  return {
+    description: 'string',
+    check(value, path, issues) {
+      if (typeof value !== 'string') {
+        mismatch(issues, path, 'string', value);
+        return undefined;
+      }
+      if (options.nonEmpty && !value.trim()) {
+        issues.push({ path, message: 'must not be empty' });
+        return undefined;
+      }
+      return value;
+    }
+  };
+}
+
+export function number(): Schema<number> {
+  return {
+    description: 'number',
+    check(value, path, issues) {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        mismatch(issues, path, 'number', value);
+        return undefined;
+      }
+      return value;
+    }
+  };
+}
+
+export function literal<T extends string>(expected: T): Schema<T> {
+  return oneOf([expected]);
+}
+
+export function oneOf<T extends string>(options: readonly T[]): Schema<T> {
+  const description = options.length === 1 ? `"${options[0]}"` : `one of: ${options.join(', ')}`;
+  return {
+    description,
+    check(value, path, issues) {
+      if (typeof value !== 'string' || !options.includes(value as T)) {
+        issues.push({ path, message: value === undefined ? `required (${description})` : `expected ${description}, got ${JSON.stringify(value)}` });
+        return undefined;
+      }
+      return value as T;
+    }
+  };
+}
+
+export function array<T>(item: Schema<T>, options: { min?: number } = {}): Schema<T[]> {
+  return {
+    description: `${item.description}[]`,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        mismatch(issues, path, `array of ${item.description}`, value);
+        return undefined;
+      }
+      if (options.min !== undefined && value.length < options.min) {
+        issues.push({ path, message: `expected at least ${options.min} item${options.min === 1 ? '' : 's'}` });
+      }
+      const before = issues.length;
+      const items = value.map((v, i) => item.check(v, `${path}[${i}]`, issues));
+      return issues.length === before ? items as T[] : undefined;
+    }
+  };
+}
+
+// The first alternative that matches wins; when none does, a single issue names them all
+export function either<A, B>(a: Schema<A>, b: Schema<B>): Schema<A | B> {
+  const description = `${a.description} or ${b.description}`;
+  return {
+    description,
+    check(value, path, issues) {
+      for (const schema of [a, b] as Schema<A | B>[]) {
+        const scratch: SchemaIssue[] = [];
+        const result = schema.check(value, path, scratch);
+        if (scratch.length === 0) return result;
+      }
+      mismatch(issues, path, description, value);
+      return undefined;
+    }
+  };
+}
+
+const OPTIONAL = Symbol('optional');
+
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  [OPTIONAL]: true;
+}
+
+// Missing or null is fine; anything else must match
+export function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return {
+    [OPTIONAL]: true,
+    description: schema.description,
+    check(value, path, issues) {
+      return value === undefined || value === null ? undefined : schema.check(value, path, issues);
+    }
+  };
+}
+
+// Anything; left for a normalizer further down
+export function unknown(): Schema<unknown> {
+  return { description: 'any value', check: (value) => value };
+}
+
+type Shape = Record<string, Schema<any>>;
+type RequiredKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalSchema<any> ? never : K }[keyof S];
+type OptionalKeys<S extends Shape> = Exclude<keyof S, RequiredKeys<S>>;
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+export type ObjectOf<S extends Shape> =
+  { [K in RequiredKeys<S>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined> };
+
+// Fields outside the shape are kept as they are
+export function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+  return {
+    description: 'object',
+    check(value, path, issues) {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        mismatch(issues, path, 'object', value);
+        return undefined;
+      }
+      const before = issues.length;
+      const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+      for (const key of Object.keys(shape)) {
+        const checked = shape[key].check((value as Record<string, unknown>)[key], `${path}.${key}`, issues);
+        if (checked === undefined) delete result[key];
+        else result[key] = checked;
+      }
+      return issues.length === before ? result as ObjectOf<S> : undefined;
+    }
+  };
+}
+
+// Objects told apart by one string field, e.g. responseType; issues are reported against the matching variant only
+export function tagged<K extends string, V extends Record<string, Schema<any>>>(key: K, variants: V): Schema<Infer<V[keyof V]>> {
+  const tags = Object.keys(variants);
+  const tagSchema = oneOf(tags);
+  return {
+    description: `object with ${key} ${tagSchema.description}`,
+    check(value, path, issues) {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        mismatch(issues, path, 'object', value);
+        return undefined;
+      }
+      const tag = tagSchema.check((value as Record<string, unknown>)[key], `${path}.${key}`, issues);
+      return tag === undefined ? undefined : variants[tag].check(value, path, issues);
+    }
+  };
+}
+
+export function validate<T>(schema: Schema<T>, value: unknown): SchemaResult<T> {
+  const issues: SchemaIssue[] = [];
+  const result = schema.check(value, '$', issues);
+  return issues.length === 0 ? { ok: true, value: result as T } : { ok: false, issues };
+}
+
+// Parses first: a reply that is not JSON at all is reported as an issue at the root
+export function validateJson<T>(schema: Schema<T>, text: string): SchemaResult<T> {
+  let value: unknown;
+  try {
+    value = JSON.parse(text.trim());
+  } catch (error: any) {
+    return { ok: false, issues: [{ path: '$', message: `not valid JSON (${error?.message || 'parse error'})` }] };
+  }
+  return validate(schema, value);
+}
+
+export function formatIssues(issues: SchemaIssue[], limit = 10): string {
+  const lines = issues.slice(0, limit).map(issue => `${issue.path}: ${issue.message}`);
+  if (issues.length > limit) lines.push(`... and ${issues.length - limit} more`);
+  return lines.join('\n');
+}
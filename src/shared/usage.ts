@@ -0,0 +1,76 @@
+// Token usage and what it cost, per model call, per processing run and per day.
+
+import { DEFAULT_MODELS, pricesOf } from './models';
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// List prices of the built-in models; the configured model registry adds to and overrides them
+export const DEFAULT_PRICES: PriceTable = pricesOf(DEFAULT_MODELS);
+
+// Exact id first, then the id without its vendor prefix ("openai/gpt-4o" prices "gpt-4o" and vice versa)
+export function findPrice(table: PriceTable, model: string): ModelPrice | undefined {
+  if (table[model]) return table[model];
+  const bare = model.replace(/^[^/]+\//, '');
+  const key = Object.keys(table).find(k => k.replace(/^[^/]+\//, '') === bare);
+  return key ? table[key] : undefined;
+}
+
+export function costOf(price: ModelPrice, inputTokens: number, outputTokens: number): number {
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  // Calls to models without a price; their tokens are counted but not their cost
+  unpricedCalls: number;
+}
+
+export interface RunUsage extends UsageTotals {
+  id: string;
+  mode: 'normal' | 'pro';
+  startedAt: number;
+  finishedAt?: number;
+  byModel: Record<string, UsageTotals>;
+}
+
+export interface DailyUsage extends UsageTotals {
+  date: string; // YYYY-MM-DD, local time
+  runs: number;
+}
+
+export interface UsageHistory {
+  days: DailyUsage[]; // newest first
+  runs: RunUsage[]; // newest first
+}
+
+// Sent to the renderer after every call: the run in progress (or the last one) and today's totals
+export interface UsageUpdate {
+  run: RunUsage | null;
+  today: DailyUsage | null;
+}
+
+export function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpricedCalls: 0 };
+}
+
+export function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+export function formatCost(totals: UsageTotals): string {
+  const cost = totals.cost < 0.01 && totals.cost > 0 ? `$${totals.cost.toFixed(4)}` : `$${totals.cost.toFixed(2)}`;
+  return totals.unpricedCalls > 0 ? `${cost}+` : cost;
+}
+
+export function formatUsage(totals: UsageTotals): string {
+  return `${formatTokens(totals.inputTokens)} in / ${formatTokens(totals.outputTokens)} out · ${formatCost(totals)}`;
+}
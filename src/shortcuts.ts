@@ -6,14 +6,17 @@ interface ShortcutDeps {
   app: App;
   getMainWindow: () => BrowserWindow | null;
   handleTakeScreenshot: () => Promise<void>;
-  handleProcessScreenshots: () => Promise<void>;
+  handleProcessScreenshots: (fresh?: boolean) => Promise<void>;
   handleResetQueue: () => Promise<void>;
+  handleCancel: () => boolean;
+  handleClearCache: () => Promise<number>;
+  toggleUsageHistory: () => void;
   moveWindow: (direction: MoveDirection) => void;
   toggleVisualHidden: () => void;
 }
 
 export function installShortcutArgHandlers(deps: ShortcutDeps) {
-  const { app, getMainWindow, handleTakeScreenshot, handleProcessScreenshots, handleResetQueue, moveWindow, toggleVisualHidden } = deps;
+  const { app, getMainWindow, handleTakeScreenshot, handleProcessScreenshots, handleResetQueue, handleCancel, handleClearCache, toggleUsageHistory, moveWindow, toggleVisualHidden } = deps;
 
   const gotLock = app.requestSingleInstanceLock();
   if (!gotLock) {
@@ -29,6 +32,15 @@ export function installShortcutArgHandlers(deps: ShortcutDeps) {
       if (argv.includes('--process')) {
         await handleProcessScreenshots();
       }
+      if (argv.includes('--process-fresh')) {
+        await handleProcessScreenshots(true);
+      }
+      if (argv.includes('--cancel')) {
+        handleCancel();
+      }
+      if (argv.includes('--clear-cache')) {
+        await handleClearCache();
+      }
       if (argv.includes('--reset')) {
         await handleResetQueue();
       }
@@ -56,6 +68,9 @@ export function installShortcutArgHandlers(deps: ShortcutDeps) {
       if (argv.includes('--move-down')) {
         moveWindow('down');
       }
+      if (argv.includes('--toggle-usage')) {
+        toggleUsageHistory();
+      }
       if (argv.includes('--toggle-config')) {
         getMainWindow()?.webContents.send('show-config');
       }